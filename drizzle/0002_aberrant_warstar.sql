@@ -0,0 +1 @@
+ALTER TABLE "all_terrain_route_planner_route" ADD COLUMN "description" text;
\ No newline at end of file
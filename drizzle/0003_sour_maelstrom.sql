@@ -0,0 +1,2 @@
+ALTER TABLE "all_terrain_route_planner_route" ADD COLUMN "shareSlug" varchar(32);--> statement-breakpoint
+CREATE UNIQUE INDEX "route_share_slug_idx" ON "all_terrain_route_planner_route" USING btree ("shareSlug");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "all_terrain_route_planner_route" ADD COLUMN "folder" varchar(255);--> statement-breakpoint
+ALTER TABLE "all_terrain_route_planner_route" ADD COLUMN "tags" text[] DEFAULT '{}'::text[] NOT NULL;--> statement-breakpoint
+CREATE INDEX "route_folder_idx" ON "all_terrain_route_planner_route" USING btree ("folder");--> statement-breakpoint
+CREATE INDEX "route_tags_idx" ON "all_terrain_route_planner_route" USING gin ("tags");--> statement-breakpoint
+CREATE INDEX "route_search_idx" ON "all_terrain_route_planner_route" USING gin (to_tsvector('simple', "title" || ' ' || coalesce("description", '')));
\ No newline at end of file
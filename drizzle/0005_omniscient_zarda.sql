@@ -0,0 +1,20 @@
+CREATE TABLE "all_terrain_route_planner_route_revision" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "all_terrain_route_planner_route_revision_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"routeId" integer NOT NULL,
+	"revision" integer NOT NULL,
+	"title" varchar(255) NOT NULL,
+	"description" text,
+	"routeData" json NOT NULL,
+	"distance" real NOT NULL,
+	"elevationGain" real NOT NULL,
+	"routePreference" varchar(50) DEFAULT 'road' NOT NULL,
+	"restoredFrom" integer,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "all_terrain_route_planner_route_revision" ADD CONSTRAINT "all_terrain_route_planner_route_revision_routeId_all_terrain_route_planner_route_id_fk" FOREIGN KEY ("routeId") REFERENCES "public"."all_terrain_route_planner_route"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "route_revision_route_revision_idx" ON "all_terrain_route_planner_route_revision" USING btree ("routeId","revision");--> statement-breakpoint
+-- Existing routes start their history with their current state as revision 1
+INSERT INTO "all_terrain_route_planner_route_revision" ("routeId", "revision", "title", "description", "routeData", "distance", "elevationGain", "routePreference", "createdAt")
+SELECT "id", 1, "title", "description", "routeData", "distance", "elevationGain", "routePreference", COALESCE("updatedAt", "createdAt")
+FROM "all_terrain_route_planner_route";
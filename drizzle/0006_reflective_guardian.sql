@@ -0,0 +1,2 @@
+ALTER TABLE "all_terrain_route_planner_route" ADD COLUMN "routeResponse" json;--> statement-breakpoint
+ALTER TABLE "all_terrain_route_planner_route" ADD COLUMN "roadDataTimestamp" timestamp with time zone;
\ No newline at end of file
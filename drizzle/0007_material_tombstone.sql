@@ -0,0 +1,13 @@
+CREATE TABLE "all_terrain_route_planner_routing_preset" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "all_terrain_route_planner_routing_preset_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"name" varchar(50) NOT NULL,
+	"preferences" json NOT NULL,
+	"createdById" varchar(255) NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updatedAt" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "all_terrain_route_planner_route_revision" ADD COLUMN "routingPreferences" json;--> statement-breakpoint
+ALTER TABLE "all_terrain_route_planner_route" ADD COLUMN "routingPreferences" json;--> statement-breakpoint
+ALTER TABLE "all_terrain_route_planner_routing_preset" ADD CONSTRAINT "all_terrain_route_planner_routing_preset_createdById_all_terrain_route_planner_user_id_fk" FOREIGN KEY ("createdById") REFERENCES "public"."all_terrain_route_planner_user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "routing_preset_user_name_idx" ON "all_terrain_route_planner_routing_preset" USING btree ("createdById","name");
\ No newline at end of file
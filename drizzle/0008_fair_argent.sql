@@ -0,0 +1,5 @@
+ALTER TABLE "all_terrain_route_planner_route_revision" ADD COLUMN "activityProfile" varchar(50) DEFAULT 'gravel' NOT NULL;--> statement-breakpoint
+ALTER TABLE "all_terrain_route_planner_route" ADD COLUMN "activityProfile" varchar(50) DEFAULT 'gravel' NOT NULL;--> statement-breakpoint
+-- Off-road routes were planned with the hiking profile; road routes keep the gravel default
+UPDATE "all_terrain_route_planner_route" SET "activityProfile" = 'walking' WHERE "routePreference" = 'off-road';--> statement-breakpoint
+UPDATE "all_terrain_route_planner_route_revision" SET "activityProfile" = 'walking' WHERE "routePreference" = 'off-road';
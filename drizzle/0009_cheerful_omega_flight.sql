@@ -0,0 +1,2 @@
+ALTER TABLE "all_terrain_route_planner_route_revision" DROP COLUMN "routePreference";--> statement-breakpoint
+ALTER TABLE "all_terrain_route_planner_route" DROP COLUMN "routePreference";
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "all_terrain_route_planner_user_avoid_area" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "all_terrain_route_planner_user_avoid_area_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"kind" varchar(20) NOT NULL,
+	"polygon" json NOT NULL,
+	"createdById" varchar(255) NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "all_terrain_route_planner_route_revision" ADD COLUMN "avoidAreas" json;--> statement-breakpoint
+ALTER TABLE "all_terrain_route_planner_route" ADD COLUMN "avoidAreas" json;--> statement-breakpoint
+ALTER TABLE "all_terrain_route_planner_user_avoid_area" ADD CONSTRAINT "all_terrain_route_planner_user_avoid_area_createdById_all_terrain_route_planner_user_id_fk" FOREIGN KEY ("createdById") REFERENCES "public"."all_terrain_route_planner_user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "user_avoid_area_created_by_idx" ON "all_terrain_route_planner_user_avoid_area" USING btree ("createdById");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "all_terrain_route_planner_route_revision" ADD COLUMN "stagePlan" json;--> statement-breakpoint
+ALTER TABLE "all_terrain_route_planner_route" ADD COLUMN "stagePlan" json;
\ No newline at end of file
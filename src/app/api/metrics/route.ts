@@ -0,0 +1,19 @@
+import { env } from "~/env";
+import { getUsageMetrics } from "~/server/usage-metrics";
+
+/**
+ * Cache hit rates, rate limiting and GraphHopper quota for this server instance
+ * Only served with `Authorization: Bearer <METRICS_TOKEN>`, and not at all without the env var
+ */
+export const GET = (req: Request) => {
+	if (!env.METRICS_TOKEN) {
+		return new Response("Not found", { status: 404 });
+	}
+	if (req.headers.get("authorization") !== `Bearer ${env.METRICS_TOKEN}`) {
+		return new Response("Unauthorized", { status: 401 });
+	}
+
+	return Response.json(getUsageMetrics(), {
+		headers: { "Cache-Control": "no-store" },
+	});
+};
@@ -0,0 +1,63 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { cache } from "react";
+import { RouteMap } from "~/components/routeMap";
+import { parseStoredAvoidAreas } from "~/lib/avoid-areas";
+import { formatDistance, formatElevation } from "~/lib/route-utils";
+import { parseStoredPreferences } from "~/lib/routing-preferences";
+import { parseStoredStagePlan } from "~/lib/stages";
+import { api } from "~/trpc/server";
+
+type SharedRoutePageProps = {
+	params: Promise<{ slug: string }>;
+};
+
+// Metadata and the page share one lookup per request
+const getSharedRoute = cache((slug: string) =>
+	api.routePlanner.getSharedRoute({ slug }),
+);
+
+export async function generateMetadata({
+	params,
+}: SharedRoutePageProps): Promise<Metadata> {
+	const route = await getSharedRoute((await params).slug);
+	if (!route) return { title: "Route not found" };
+
+	const stats = `${formatDistance(route.distance)} · ${formatElevation(route.elevationGain)} climbing`;
+	const description = route.description
+		? `${stats} - ${route.description}`
+		: stats;
+
+	return {
+		title: `${route.title} | ATSC Route Planner`,
+		description,
+		openGraph: { title: route.title, description },
+		// Share links are unlisted
+		robots: { index: false },
+	};
+}
+
+export default async function SharedRoutePage({
+	params,
+}: SharedRoutePageProps) {
+	const route = await getSharedRoute((await params).slug);
+	if (!route) notFound();
+
+	return (
+		<main className="h-screen w-full">
+			<RouteMap
+				className="h-full"
+				sharedRoute={{
+					title: route.title,
+					description: route.description,
+					routePoints: route.routeData,
+					activityProfile: route.activityProfile,
+					routingPreferences: parseStoredPreferences(route.routingPreferences),
+					avoidAreas: parseStoredAvoidAreas(route.avoidAreas),
+					stagePlan: parseStoredStagePlan(route.stagePlan),
+					routeResponse: route.routeResponse,
+				}}
+			/>
+		</main>
+	);
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import {
+	Activity,
+	Bike,
+	Footprints,
+	type LucideIcon,
+	Mountain,
+	Route,
+	Zap,
+} from "lucide-react";
+import { Button } from "~/components/button";
+import { Tooltip, TooltipContent, TooltipTrigger } from "~/components/tooltip";
+import {
+	ACTIVITY_PROFILES,
+	ACTIVITY_PROFILE_IDS,
+	type ActivityProfileId,
+} from "~/lib/activity-profiles";
+
+export const ACTIVITY_PROFILE_ICONS: Record<ActivityProfileId, LucideIcon> = {
+	road: Bike,
+	gravel: Route,
+	mtb: Mountain,
+	ebike: Zap,
+	running: Activity,
+	walking: Footprints,
+};
+
+type ActivityProfilePickerProps = {
+	value: ActivityProfileId;
+	onChange: (profile: ActivityProfileId) => void;
+};
+
+/**
+ * Row of icon buttons for choosing the activity a route is planned for
+ */
+export const ActivityProfilePicker = ({
+	value,
+	onChange,
+}: ActivityProfilePickerProps) => (
+	<div className="grid grid-cols-6 gap-1" role="radiogroup">
+		{ACTIVITY_PROFILE_IDS.map((id) => (
+			<Tooltip key={id}>
+				<TooltipTrigger asChild>
+					<Button
+						variant={id === value ? "default" : "outline"}
+						size="icon"
+						className="w-full"
+						icon={ACTIVITY_PROFILE_ICONS[id]}
+						role="radio"
+						aria-checked={id === value}
+						aria-label={ACTIVITY_PROFILES[id].label}
+						onClick={() => onChange(id)}
+					/>
+				</TooltipTrigger>
+				<TooltipContent side="bottom">
+					{ACTIVITY_PROFILES[id].label}
+				</TooltipContent>
+			</Tooltip>
+		))}
+	</div>
+);
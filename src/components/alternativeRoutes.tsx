@@ -0,0 +1,48 @@
+"use client";
+
+import { DomEvent } from "leaflet";
+import { Tooltip as LeafletTooltip, Polyline } from "react-leaflet";
+import { useMap } from "~/contexts/mapContext";
+import { formatDistance } from "~/lib/route-utils";
+
+/**
+ * Alternative routes in muted colours beneath the active route
+ * Clicking one highlights it and opens the comparison in the drawer
+ */
+export const AlternativeRoutes = () => {
+	const {
+		alternativeRoutes,
+		highlightedAlternative,
+		setHighlightedAlternative,
+		toggleDrawer,
+	} = useMap();
+
+	return alternativeRoutes.map((alternative, index) => {
+		const isHighlighted = highlightedAlternative === index;
+		return (
+			<Polyline
+				// biome-ignore lint/suspicious/noArrayIndexKey: alternatives are replaced as a whole
+				key={index}
+				positions={alternative.coordinates}
+				pathOptions={{
+					color: isHighlighted ? "#475569" : "#94a3b8",
+					weight: isHighlighted ? 6 : 5,
+					opacity: isHighlighted ? 0.9 : 0.6,
+				}}
+				eventHandlers={{
+					click: (e) => {
+						// Don't let the map add a point under the click
+						DomEvent.stopPropagation(e);
+						setHighlightedAlternative(index);
+						toggleDrawer(true);
+					},
+				}}
+			>
+				<LeafletTooltip sticky>
+					Alternative {index + 1} ·{" "}
+					{formatDistance(alternative.summary.distance)}
+				</LeafletTooltip>
+			</Polyline>
+		);
+	});
+};
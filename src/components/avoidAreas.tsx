@@ -0,0 +1,240 @@
+"use client";
+
+import { DomEvent } from "leaflet";
+import { Check, Globe, Trash2, X } from "lucide-react";
+import { useState } from "react";
+import { CircleMarker, Polygon, Polyline } from "react-leaflet";
+import { Button } from "~/components/button";
+import { PopoverLatLng } from "~/components/popoverLatLng";
+import { useMap } from "~/contexts/mapContext";
+import { AVOID_AREA_KINDS, type AvoidArea } from "~/lib/avoid-areas";
+
+const AVOID_AREA_COLOR = "var(--color-destructive)";
+const HATCH_PATTERN_ID = "avoid-area-hatch";
+
+// Area the popover is open for - route areas by id, saved areas by database id
+type SelectedArea = {
+	point: { lat: number; lng: number };
+	kind: AvoidArea["kind"];
+} & ({ routeAreaId: string } | { savedAreaId: number });
+
+/**
+ * Diagonal hatching that avoid areas are filled with
+ */
+const HatchPattern = () => (
+	<svg width="0" height="0" className="absolute" aria-hidden="true">
+		<defs>
+			<pattern
+				id={HATCH_PATTERN_ID}
+				width="8"
+				height="8"
+				patternUnits="userSpaceOnUse"
+				patternTransform="rotate(45)"
+			>
+				<line
+					x1="0"
+					y1="0"
+					x2="0"
+					y2="8"
+					stroke={AVOID_AREA_COLOR}
+					strokeWidth="3"
+					strokeOpacity="0.5"
+				/>
+			</pattern>
+		</defs>
+	</svg>
+);
+
+/**
+ * Hatched overlays for every area routing avoids, plus the area being drawn
+ */
+export const AvoidAreas = () => {
+	const {
+		routeAvoidAreas,
+		savedAvoidAreas,
+		draftAvoidArea,
+		finishAvoidArea,
+		isReadOnly,
+	} = useMap();
+	const [selected, setSelected] = useState<SelectedArea | null>(null);
+
+	const areas = [
+		...routeAvoidAreas.map((area) => ({
+			key: area.id,
+			area,
+			select: (point: { lat: number; lng: number }) =>
+				setSelected({ point, kind: area.kind, routeAreaId: area.id }),
+		})),
+		...savedAvoidAreas.map((area) => ({
+			key: `saved-${area.id}`,
+			area,
+			select: (point: { lat: number; lng: number }) =>
+				setSelected({ point, kind: area.kind, savedAreaId: area.id }),
+		})),
+	];
+
+	return (
+		<>
+			<HatchPattern />
+			{areas.map(({ key, area, select }) => (
+				<Polygon
+					key={key}
+					positions={area.polygon.map(
+						({ lat, lng }) => [lat, lng] as [number, number],
+					)}
+					pathOptions={{
+						color: AVOID_AREA_COLOR,
+						weight: 2,
+						fillColor: `url(#${HATCH_PATTERN_ID})`,
+						fillOpacity: 1,
+					}}
+					interactive={!isReadOnly && !draftAvoidArea}
+					eventHandlers={{
+						click: (e) => {
+							// Don't let the map add a point under the click
+							DomEvent.stopPropagation(e);
+							select(e.latlng);
+						},
+					}}
+				/>
+			))}
+
+			{draftAvoidArea && (
+				<>
+					<Polyline
+						positions={draftAvoidArea.map(
+							({ lat, lng }) => [lat, lng] as [number, number],
+						)}
+						pathOptions={{
+							color: AVOID_AREA_COLOR,
+							weight: 2,
+							dashArray: "6 6",
+						}}
+						interactive={false}
+					/>
+					{draftAvoidArea.map((corner, index) => (
+						<CircleMarker
+							// biome-ignore lint/suspicious/noArrayIndexKey: corners are only ever appended
+							key={index}
+							center={[corner.lat, corner.lng]}
+							radius={index === 0 ? 6 : 4}
+							pathOptions={{
+								color: AVOID_AREA_COLOR,
+								fillColor: "var(--color-background)",
+								fillOpacity: 1,
+							}}
+							eventHandlers={{
+								click: (e) => {
+									DomEvent.stopPropagation(e);
+									// Clicking the first corner closes the area
+									if (index === 0) finishAvoidArea();
+								},
+							}}
+						/>
+					))}
+				</>
+			)}
+
+			{selected && (
+				<AvoidAreaActions
+					selected={selected}
+					onClose={() => setSelected(null)}
+				/>
+			)}
+		</>
+	);
+};
+
+const AvoidAreaActions = ({
+	selected,
+	onClose,
+}: {
+	selected: SelectedArea;
+	onClose: () => void;
+}) => {
+	const {
+		removeAvoidArea,
+		saveAvoidAreaForAllRoutes,
+		deleteSavedAvoidArea,
+		canSaveAvoidAreas,
+	} = useMap();
+
+	return (
+		<PopoverLatLng point={selected.point} isOpen onClose={onClose}>
+			<div className="flex min-w-[160px] flex-col gap-1">
+				<div className="px-2 font-medium text-sm">
+					{AVOID_AREA_KINDS[selected.kind]}
+					<span className="block font-normal text-muted-foreground text-xs">
+						{"savedAreaId" in selected ? "All your routes" : "This route"}
+					</span>
+				</div>
+				{"routeAreaId" in selected && canSaveAvoidAreas && (
+					<Button
+						variant="ghost"
+						size="sm"
+						icon={Globe}
+						className="justify-start"
+						onClick={() => {
+							saveAvoidAreaForAllRoutes(selected.routeAreaId);
+							onClose();
+						}}
+					>
+						Avoid on all routes
+					</Button>
+				)}
+				<Button
+					variant="ghost"
+					size="sm"
+					icon={Trash2}
+					className="justify-start text-destructive"
+					onClick={() => {
+						if ("routeAreaId" in selected) {
+							removeAvoidArea(selected.routeAreaId);
+						} else {
+							deleteSavedAvoidArea(selected.savedAreaId);
+						}
+						onClose();
+					}}
+				>
+					Remove
+				</Button>
+			</div>
+		</PopoverLatLng>
+	);
+};
+
+/**
+ * Instructions and controls while an avoid area is being drawn
+ */
+export const AvoidAreaToolbar = () => {
+	const { draftAvoidArea, finishAvoidArea, cancelAvoidArea } = useMap();
+
+	if (!draftAvoidArea) return null;
+
+	return (
+		<div className="-translate-x-1/2 fixed top-4 left-1/2 z-50 flex items-center gap-3 rounded-lg border border-background bg-background/60 py-1 pr-1 pl-3 text-sm shadow-lg backdrop-blur-sm">
+			<span>
+				Click to add corners{" "}
+				<span className="text-muted-foreground">
+					({draftAvoidArea.length} placed)
+				</span>
+			</span>
+			<Button
+				size="sm"
+				icon={Check}
+				onClick={finishAvoidArea}
+				disabled={draftAvoidArea.length < 3}
+			>
+				Finish
+			</Button>
+			<Button
+				variant="ghost"
+				size="icon"
+				className="size-7"
+				icon={X}
+				onClick={cancelAvoidArea}
+				aria-label="Cancel drawing"
+			/>
+		</div>
+	);
+};
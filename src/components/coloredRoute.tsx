@@ -4,6 +4,8 @@ import type { LatLng } from "leaflet";
 import { useMemo } from "react";
 import { Polyline } from "react-leaflet";
 import { useMap } from "~/contexts/mapContext";
+import { ACTIVITY_PROFILES } from "~/lib/activity-profiles";
+import { gradientsToRouteSegments } from "~/lib/gradients";
 import {
 	type RouteSegment,
 	processSurfaceData,
@@ -19,16 +21,36 @@ export const ColoredRoute = ({
 	routeCoordinates,
 	onRouteClick,
 }: ColoredRouteProps) => {
-	const { surfaceData, routeDistance } = useMap();
+	const {
+		surfaceData,
+		routeDistance,
+		activityProfile,
+		routeColorMode,
+		segmentGrades,
+		moveRouteCursorTo,
+		setRouteCursor,
+	} = useMap();
 
 	const routeSegments = useMemo((): RouteSegment[] => {
-		// Fallback to single-color route if no surface data
+		// Fallback to the activity profile's colour if no surface data
 		const fallbackSegment: RouteSegment = {
 			coordinates: routeCoordinates,
-			color: "var(--color-foreground)",
+			color: ACTIVITY_PROFILES[activityProfile].color,
 			key: "no-surface-data",
 		};
 
+		// Grades line up with the coordinates, so only while they're for this route
+		if (
+			routeColorMode === "gradient" &&
+			segmentGrades.length === routeCoordinates.length - 1
+		) {
+			const segments = gradientsToRouteSegments(
+				segmentGrades,
+				routeCoordinates,
+			);
+			if (segments.length > 0) return segments;
+		}
+
 		if (!surfaceData.length || !routeCoordinates.length) {
 			return [fallbackSegment];
 		}
@@ -43,7 +65,14 @@ export const ColoredRoute = ({
 		);
 
 		return segments.length > 0 ? segments : [fallbackSegment];
-	}, [surfaceData, routeCoordinates, routeDistance]);
+	}, [
+		surfaceData,
+		routeCoordinates,
+		routeDistance,
+		activityProfile,
+		routeColorMode,
+		segmentGrades,
+	]);
 
 	return routeSegments.map((segment) => (
 		<Polyline
@@ -56,8 +85,14 @@ export const ColoredRoute = ({
 			}}
 			eventHandlers={{
 				click: (e) => {
+					// Tapping shows the spot on the chart, as there's no hover on touch
+					moveRouteCursorTo(e.latlng);
 					onRouteClick(e.latlng);
 				},
+				mousemove: (e) => {
+					requestAnimationFrame(() => moveRouteCursorTo(e.latlng));
+				},
+				mouseout: () => setRouteCursor(null),
 			}}
 		/>
 	));
@@ -0,0 +1,73 @@
+"use client";
+
+import { GitCompareArrows, X } from "lucide-react";
+import { Polyline } from "react-leaflet";
+import { Button } from "~/components/button";
+import { useMap } from "~/contexts/mapContext";
+import {
+	formatDelta,
+	formatDistance,
+	formatElevation,
+} from "~/lib/route-utils";
+
+/**
+ * Dashed line for the comparison route, drawn beneath the active route
+ */
+export const ComparisonRoute = () => {
+	const { comparisonRoute } = useMap();
+
+	if (!comparisonRoute) return null;
+
+	return (
+		<Polyline
+			positions={comparisonRoute.coordinates}
+			pathOptions={{
+				color: "var(--color-muted-foreground)",
+				weight: 5,
+				opacity: 0.8,
+				dashArray: "8 8",
+			}}
+			interactive={false}
+		/>
+	);
+};
+
+/**
+ * Banner naming the comparison route with its difference to the active route
+ */
+export const ComparisonBanner = () => {
+	const {
+		comparisonRoute,
+		clearComparisonRoute,
+		routeDistance,
+		elevationGain,
+	} = useMap();
+
+	if (!comparisonRoute) return null;
+
+	return (
+		<div className="-translate-x-1/2 fixed top-4 left-1/2 z-50 flex items-center gap-3 rounded-lg border border-background bg-background/60 py-1 pr-1 pl-3 text-sm shadow-lg backdrop-blur-sm">
+			<GitCompareArrows size={16} className="text-muted-foreground" />
+			<span>
+				Comparing with{" "}
+				<span className="font-medium">{comparisonRoute.label}</span>
+			</span>
+			<span className="text-muted-foreground">
+				{formatDelta(comparisonRoute.distance - routeDistance, formatDistance)},{" "}
+				{formatDelta(
+					comparisonRoute.elevationGain - elevationGain,
+					formatElevation,
+				)}{" "}
+				climbing
+			</span>
+			<Button
+				variant="ghost"
+				size="icon"
+				className="size-7"
+				icon={X}
+				onClick={clearComparisonRoute}
+				aria-label="Stop comparing"
+			/>
+		</div>
+	);
+};
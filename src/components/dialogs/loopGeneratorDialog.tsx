@@ -0,0 +1,118 @@
+import { Repeat } from "lucide-react";
+import { type FormEvent, useState } from "react";
+import { Button } from "~/components/button";
+import {
+	Dialog,
+	DialogClose,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "~/components/dialog";
+import { Input } from "~/components/input";
+import { Label } from "~/components/label";
+import { NativeSelect } from "~/components/nativeSelect";
+import { useMap } from "~/contexts/mapContext";
+import { ACTIVITY_PROFILES } from "~/lib/activity-profiles";
+
+// Compass directions offered for the loop, in degrees clockwise from north
+const LOOP_HEADINGS = [
+	{ label: "Any direction", value: "" },
+	{ label: "North", value: "0" },
+	{ label: "North-east", value: "45" },
+	{ label: "East", value: "90" },
+	{ label: "South-east", value: "135" },
+	{ label: "South", value: "180" },
+	{ label: "South-west", value: "225" },
+	{ label: "West", value: "270" },
+	{ label: "North-west", value: "315" },
+];
+
+const MIN_LOOP_KM = 1;
+const MAX_LOOP_KM = 300;
+
+type LoopGeneratorDialogProps = {
+	/** Where the loop starts and finishes - the dialog is open while set */
+	start: { lat: number; lng: number } | null;
+	onClose: () => void;
+};
+
+export const LoopGeneratorDialog = ({
+	start,
+	onClose,
+}: LoopGeneratorDialogProps) => {
+	const { generateLoops, activityProfile } = useMap();
+	const [distanceKm, setDistanceKm] = useState("40");
+	const [heading, setHeading] = useState("");
+
+	const distance = Number.parseFloat(distanceKm);
+	const isValidDistance =
+		Number.isFinite(distance) &&
+		distance >= MIN_LOOP_KM &&
+		distance <= MAX_LOOP_KM;
+
+	const handleSubmit = (e: FormEvent) => {
+		e.preventDefault();
+		if (!start || !isValidDistance) return;
+
+		generateLoops(
+			start,
+			distance * 1000,
+			heading ? Number.parseInt(heading, 10) : undefined,
+		);
+		onClose();
+	};
+
+	return (
+		<Dialog open={!!start} onOpenChange={(open) => !open && onClose()}>
+			<DialogContent>
+				<DialogHeader>
+					<DialogTitle>Generate Loop</DialogTitle>
+					<DialogDescription>
+						Get a few {ACTIVITY_PROFILES[activityProfile].label.toLowerCase()}{" "}
+						loops that start and finish here, then pick one on the map.
+					</DialogDescription>
+				</DialogHeader>
+				<form onSubmit={handleSubmit} className="space-y-4">
+					<div className="space-y-2">
+						<Label htmlFor="loop-distance">Distance (km)</Label>
+						<Input
+							id="loop-distance"
+							type="number"
+							min={MIN_LOOP_KM}
+							max={MAX_LOOP_KM}
+							step="any"
+							value={distanceKm}
+							onChange={(e) => setDistanceKm(e.target.value)}
+						/>
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor="loop-heading">Head out towards</Label>
+						<NativeSelect
+							id="loop-heading"
+							value={heading}
+							onChange={(e) => setHeading(e.target.value)}
+						>
+							{LOOP_HEADINGS.map(({ label, value }) => (
+								<option key={label} value={value}>
+									{label}
+								</option>
+							))}
+						</NativeSelect>
+					</div>
+					<DialogFooter>
+						<DialogClose asChild>
+							<Button type="button" variant="outline">
+								Cancel
+							</Button>
+						</DialogClose>
+						<Button type="submit" icon={Repeat} disabled={!isValidDistance}>
+							Generate
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+};
@@ -1,15 +1,23 @@
 import {
 	Calendar,
+	Clock,
 	Copy,
+	Folder,
+	History,
+	Link as LinkIcon,
 	Mountain,
 	Route,
-	TrafficCone,
+	Search,
+	SlidersHorizontal,
+	Tag,
 	Trash2,
-	TreePine,
+	Unlink,
 } from "lucide-react";
 import type { ReactNode } from "react";
 import { useState } from "react";
+import { useCopyToClipboard, useDebounce } from "react-use";
 import { toast } from "sonner";
+import { ACTIVITY_PROFILE_ICONS } from "~/components/activityProfilePicker";
 import { Button } from "~/components/button";
 import {
 	Dialog,
@@ -19,12 +27,75 @@ import {
 	DialogTitle,
 	DialogTrigger,
 } from "~/components/dialog";
+import { RouteHistoryDialog } from "~/components/dialogs/routeHistoryDialog";
+import { Input } from "~/components/input";
+import { NativeSelect } from "~/components/nativeSelect";
 import { Separator } from "~/components/separator";
 import { Tooltip, TooltipContent, TooltipTrigger } from "~/components/tooltip";
 import { useMap } from "~/contexts/mapContext";
+import {
+	ACTIVITY_PROFILES,
+	ACTIVITY_PROFILE_IDS,
+	type ActivityProfileId,
+} from "~/lib/activity-profiles";
+import { parseStoredAvoidAreas } from "~/lib/avoid-areas";
 import type { RoutePoint } from "~/lib/graphhopper";
-import { formatDate, formatDistance, formatElevation } from "~/lib/route-utils";
-import { api } from "~/trpc/react";
+import {
+	estimateMovingTimeFromTotals,
+	getSurfaceSpeeds,
+} from "~/lib/moving-time";
+import {
+	ROUTE_SORT_OPTIONS,
+	type RouteSort,
+	formatDate,
+	formatDistance,
+	formatDuration,
+	formatElevation,
+} from "~/lib/route-utils";
+import { parseStoredPreferences } from "~/lib/routing-preferences";
+import { parseStoredStagePlan } from "~/lib/stages";
+import { type RouterOutputs, api } from "~/trpc/react";
+
+type SavedRoute = RouterOutputs["routePlanner"]["getRoutes"]["routes"][number];
+
+const ROUTES_PAGE_SIZE = 20;
+
+// Range filters as typed into the inputs (km for distance, m for elevation)
+type RouteFilters = {
+	folder: string;
+	tag: string;
+	activityProfile: "" | ActivityProfileId;
+	minDistanceKm: string;
+	maxDistanceKm: string;
+	minElevationGain: string;
+	maxElevationGain: string;
+};
+
+const EMPTY_FILTERS: RouteFilters = {
+	folder: "",
+	tag: "",
+	activityProfile: "",
+	minDistanceKm: "",
+	maxDistanceKm: "",
+	minElevationGain: "",
+	maxElevationGain: "",
+};
+
+// Activity icon in the profile's colour, so routes are told apart at a glance
+const ActivityProfileItem = ({ profile }: { profile: ActivityProfileId }) => {
+	const Icon = ACTIVITY_PROFILE_ICONS[profile];
+	return (
+		<li className="flex items-center gap-1">
+			<Icon size={12} style={{ color: ACTIVITY_PROFILES[profile].color }} />
+			<span>{ACTIVITY_PROFILES[profile].label}</span>
+		</li>
+	);
+};
+
+const toNumber = (value: string, scale = 1) =>
+	value === "" || Number.isNaN(Number(value))
+		? undefined
+		: Number(value) * scale;
 
 type MyRoutesDialogProps = {
 	children: ReactNode;
@@ -36,7 +107,8 @@ export const MyRoutesDialog = ({
 	onOpenChange,
 }: MyRoutesDialogProps) => {
 	const [isOpen, setIsOpen] = useState(false);
-	const { loadRoute, duplicateRoute } = useMap();
+	const { loadRoute, duplicateRoute, customSurfaceSpeeds } = useMap();
+	const [, copyToClipboard] = useCopyToClipboard();
 
 	const handleOpenChange = (open: boolean) => {
 		if (open && onOpenChange && !onOpenChange()) {
@@ -45,13 +117,53 @@ export const MyRoutesDialog = ({
 		setIsOpen(open);
 	};
 
-	// Fetch user's saved routes
+	// Search and filter state - search text is debounced before querying
+	const [search, setSearch] = useState("");
+	const [debouncedSearch, setDebouncedSearch] = useState("");
+	const [sort, setSort] = useState<RouteSort>("newest");
+	const [filters, setFilters] = useState<RouteFilters>(EMPTY_FILTERS);
+	const [showFilters, setShowFilters] = useState(false);
+
+	useDebounce(() => setDebouncedSearch(search.trim()), 300, [search]);
+
+	const setFilter = (key: keyof RouteFilters, value: string) =>
+		setFilters((current) => ({ ...current, [key]: value }));
+
+	const activeFilterCount = Object.values(filters).filter(Boolean).length;
+	const hasFilters = activeFilterCount > 0 || debouncedSearch !== "";
+
+	// Fetch user's saved routes, a page at a time
 	const {
-		data: routes,
+		data,
 		isLoading,
 		refetch,
-	} = api.routePlanner.getRoutes.useQuery(undefined, {
-		enabled: isOpen, // Only fetch when dialog is open
+		fetchNextPage,
+		hasNextPage,
+		isFetchingNextPage,
+	} = api.routePlanner.getRoutes.useInfiniteQuery(
+		{
+			search: debouncedSearch || undefined,
+			folder: filters.folder || undefined,
+			tag: filters.tag || undefined,
+			activityProfile: filters.activityProfile || undefined,
+			minDistance: toNumber(filters.minDistanceKm, 1000),
+			maxDistance: toNumber(filters.maxDistanceKm, 1000),
+			minElevationGain: toNumber(filters.minElevationGain),
+			maxElevationGain: toNumber(filters.maxElevationGain),
+			sort,
+			limit: ROUTES_PAGE_SIZE,
+		},
+		{
+			enabled: isOpen, // Only fetch when dialog is open
+			getNextPageParam: (lastPage) => lastPage.nextCursor,
+		},
+	);
+	const routes = data?.pages.flatMap((page) => page.routes) ?? [];
+	const totalRoutes = data?.pages[0]?.total ?? 0;
+
+	// Folders and tags for the filter menus
+	const { data: labels } = api.routePlanner.getRouteLabels.useQuery(undefined, {
+		enabled: isOpen,
 	});
 
 	// Delete route mutation
@@ -67,11 +179,48 @@ export const MyRoutesDialog = ({
 		},
 	});
 
-	const handleLoadRoute = (route: NonNullable<typeof routes>[0]) => {
+	// Share link mutations - creating a link is idempotent, so it also re-copies
+	const shareRoute = api.routePlanner.shareRoute.useMutation({
+		onSuccess: ({ slug }) => {
+			copyToClipboard(`${window.location.origin}/r/${slug}`);
+			toast.success("Share link copied to clipboard", {
+				description: "Anyone with the link can view this route",
+			});
+			refetch();
+		},
+		onError: (error) => {
+			toast.error("Failed to share route", {
+				description: error.message,
+			});
+		},
+	});
+
+	const unshareRoute = api.routePlanner.unshareRoute.useMutation({
+		onSuccess: () => {
+			toast.success("Share link revoked", {
+				description: "The old link no longer shows this route",
+			});
+			refetch();
+		},
+		onError: (error) => {
+			toast.error("Failed to revoke share link", {
+				description: error.message,
+			});
+		},
+	});
+
+	const handleLoadRoute = (route: SavedRoute) => {
 		// Parse the route data and load it
 		const routeData = route.routeData as RoutePoint[];
 
-		loadRoute(route.id, routeData, route.routePreference);
+		loadRoute(
+			route.id,
+			routeData,
+			route.activityProfile,
+			parseStoredPreferences(route.routingPreferences),
+			parseStoredAvoidAreas(route.avoidAreas),
+			parseStoredStagePlan(route.stagePlan),
+		);
 		handleOpenChange(false);
 	};
 
@@ -79,11 +228,17 @@ export const MyRoutesDialog = ({
 		deleteRoute.mutate({ id: routeId });
 	};
 
-	const handleDuplicateRoute = (route: NonNullable<typeof routes>[0]) => {
+	const handleDuplicateRoute = (route: SavedRoute) => {
 		// Parse the route data and duplicate it (without routeId)
 		const routeData = route.routeData as RoutePoint[];
 
-		duplicateRoute(routeData);
+		duplicateRoute(
+			routeData,
+			route.activityProfile,
+			parseStoredPreferences(route.routingPreferences),
+			parseStoredAvoidAreas(route.avoidAreas),
+			parseStoredStagePlan(route.stagePlan),
+		);
 		handleOpenChange(false);
 		toast.success(
 			"Route duplicated! You can now edit and save it as a new route.",
@@ -97,16 +252,142 @@ export const MyRoutesDialog = ({
 				<DialogHeader>
 					<DialogTitle>My Routes</DialogTitle>
 					<DialogDescription>
-						Load, manage, or delete your saved routes.
+						Load, share, manage, or delete your saved routes.
 					</DialogDescription>
 				</DialogHeader>
 
+				<div className="space-y-2">
+					<div className="flex items-center gap-2">
+						<div className="relative flex-1">
+							<Search
+								size={14}
+								className="-translate-y-1/2 absolute top-1/2 left-3 text-muted-foreground"
+							/>
+							<Input
+								value={search}
+								onChange={(e) => setSearch(e.target.value)}
+								placeholder="Search titles and descriptions"
+								className="pl-8"
+							/>
+						</div>
+						<NativeSelect
+							value={sort}
+							onChange={(e) => setSort(e.target.value as RouteSort)}
+							className="w-40"
+							aria-label="Sort routes"
+						>
+							{Object.entries(ROUTE_SORT_OPTIONS).map(([value, label]) => (
+								<option key={value} value={value}>
+									{label}
+								</option>
+							))}
+						</NativeSelect>
+						<Button
+							variant={showFilters ? "secondary" : "outline"}
+							icon={SlidersHorizontal}
+							onClick={() => setShowFilters(!showFilters)}
+						>
+							{activeFilterCount > 0
+								? `Filters (${activeFilterCount})`
+								: "Filters"}
+						</Button>
+					</div>
+
+					{showFilters && (
+						<div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+							<NativeSelect
+								value={filters.folder}
+								onChange={(e) => setFilter("folder", e.target.value)}
+								aria-label="Folder"
+							>
+								<option value="">All folders</option>
+								{labels?.folders.map((folder) => (
+									<option key={folder} value={folder}>
+										{folder}
+									</option>
+								))}
+							</NativeSelect>
+							<NativeSelect
+								value={filters.tag}
+								onChange={(e) => setFilter("tag", e.target.value)}
+								aria-label="Tag"
+							>
+								<option value="">All tags</option>
+								{labels?.tags.map((tag) => (
+									<option key={tag} value={tag}>
+										{tag}
+									</option>
+								))}
+							</NativeSelect>
+							<NativeSelect
+								value={filters.activityProfile}
+								onChange={(e) => setFilter("activityProfile", e.target.value)}
+								aria-label="Activity"
+							>
+								<option value="">All activities</option>
+								{ACTIVITY_PROFILE_IDS.map((id) => (
+									<option key={id} value={id}>
+										{ACTIVITY_PROFILES[id].label}
+									</option>
+								))}
+							</NativeSelect>
+							<div className="flex items-center gap-1">
+								<Input
+									type="number"
+									min={0}
+									value={filters.minDistanceKm}
+									onChange={(e) => setFilter("minDistanceKm", e.target.value)}
+									placeholder="Min km"
+									aria-label="Minimum distance in km"
+								/>
+								<Input
+									type="number"
+									min={0}
+									value={filters.maxDistanceKm}
+									onChange={(e) => setFilter("maxDistanceKm", e.target.value)}
+									placeholder="Max km"
+									aria-label="Maximum distance in km"
+								/>
+							</div>
+							<div className="flex items-center gap-1">
+								<Input
+									type="number"
+									min={0}
+									value={filters.minElevationGain}
+									onChange={(e) =>
+										setFilter("minElevationGain", e.target.value)
+									}
+									placeholder="Min climb m"
+									aria-label="Minimum climbing in meters"
+								/>
+								<Input
+									type="number"
+									min={0}
+									value={filters.maxElevationGain}
+									onChange={(e) =>
+										setFilter("maxElevationGain", e.target.value)
+									}
+									placeholder="Max climb m"
+									aria-label="Maximum climbing in meters"
+								/>
+							</div>
+							<Button
+								variant="ghost"
+								disabled={activeFilterCount === 0}
+								onClick={() => setFilters(EMPTY_FILTERS)}
+							>
+								Clear filters
+							</Button>
+						</div>
+					)}
+				</div>
+
 				<div className="max-h-96 overflow-y-auto">
 					{isLoading ? (
 						<div className="flex items-center justify-center py-8">
 							<div className="text-muted-foreground">Loading routes...</div>
 						</div>
-					) : routes && routes.length > 0 ? (
+					) : routes.length > 0 ? (
 						<div className="space-y-2">
 							{routes.map((route) => (
 								<div
@@ -132,25 +413,99 @@ export const MyRoutesDialog = ({
 													<span>{formatElevation(route.elevationGain)}</span>
 												</li>
 												<li className="flex items-center gap-1">
-													{route.routePreference === "off-road" ? (
-														<TreePine size={12} />
-													) : (
-														<TrafficCone size={12} />
-													)}
+													<Clock size={12} />
 													<span>
-														{route.routePreference === "off-road"
-															? "Off-road"
-															: "Road"}
+														{formatDuration(
+															estimateMovingTimeFromTotals(
+																route.distance,
+																route.elevationGain,
+																route.activityProfile,
+																getSurfaceSpeeds(
+																	route.activityProfile,
+																	customSurfaceSpeeds,
+																),
+															),
+														)}
 													</span>
 												</li>
+												<ActivityProfileItem profile={route.activityProfile} />
 												<li className="flex items-center gap-1">
 													<Calendar size={12} />
 													<span>{formatDate(route.createdAt)}</span>
 												</li>
 											</ul>
+											{(route.folder || route.tags.length > 0) && (
+												<ul className="mt-1 flex flex-wrap items-center gap-1 text-xs">
+													{route.folder && (
+														<li className="flex items-center gap-1 rounded bg-muted px-1.5 py-0.5">
+															<Folder size={10} />
+															<span>{route.folder}</span>
+														</li>
+													)}
+													{route.tags.map((tag) => (
+														<li
+															key={tag}
+															className="flex items-center gap-1 rounded bg-muted px-1.5 py-0.5"
+														>
+															<Tag size={10} />
+															<span>{tag}</span>
+														</li>
+													))}
+												</ul>
+											)}
 										</div>
 									</Button>
 									<div className="ml-2 flex items-center gap-2">
+										<Tooltip>
+											<TooltipTrigger asChild>
+												<Button
+													variant="outline"
+													size="sm"
+													onClick={() => shareRoute.mutate({ id: route.id })}
+													disabled={shareRoute.isPending}
+													className={
+														route.shareSlug ? "text-primary" : undefined
+													}
+												>
+													<LinkIcon size={14} />
+												</Button>
+											</TooltipTrigger>
+											<TooltipContent>
+												{route.shareSlug
+													? "Copy share link"
+													: "Create share link"}
+											</TooltipContent>
+										</Tooltip>
+										{route.shareSlug && (
+											<Tooltip>
+												<TooltipTrigger asChild>
+													<Button
+														variant="outline"
+														size="sm"
+														onClick={() =>
+															unshareRoute.mutate({ id: route.id })
+														}
+														disabled={unshareRoute.isPending}
+													>
+														<Unlink size={14} />
+													</Button>
+												</TooltipTrigger>
+												<TooltipContent>Revoke share link</TooltipContent>
+											</Tooltip>
+										)}
+										<Tooltip>
+											<RouteHistoryDialog
+												route={route}
+												onShowOnMap={() => handleOpenChange(false)}
+											>
+												<TooltipTrigger asChild>
+													<Button variant="outline" size="sm">
+														<History size={14} />
+													</Button>
+												</TooltipTrigger>
+											</RouteHistoryDialog>
+											<TooltipContent>Version history</TooltipContent>
+										</Tooltip>
 										<Tooltip>
 											<TooltipTrigger asChild>
 												<Button
@@ -180,6 +535,26 @@ export const MyRoutesDialog = ({
 									</div>
 								</div>
 							))}
+							{hasNextPage && (
+								<Button
+									variant="ghost"
+									className="w-full"
+									onClick={() => fetchNextPage()}
+									disabled={isFetchingNextPage}
+								>
+									{isFetchingNextPage ? "Loading..." : "Load more routes"}
+								</Button>
+							)}
+						</div>
+					) : hasFilters ? (
+						<div className="flex flex-col items-center justify-center py-8 text-center">
+							<Search size={48} className="mb-2 text-muted-foreground" />
+							<div className="text-muted-foreground text-sm">
+								No routes match your search
+							</div>
+							<div className="mt-1 text-muted-foreground text-xs">
+								Try different words or clear some filters
+							</div>
 						</div>
 					) : (
 						<div className="flex flex-col items-center justify-center py-8 text-center">
@@ -194,10 +569,13 @@ export const MyRoutesDialog = ({
 					)}
 				</div>
 
-				{routes && routes.length > 0 && (
+				{routes.length > 0 && (
 					<>
 						<Separator />
-						<div className="flex justify-end">
+						<div className="flex items-center justify-between">
+							<span className="text-muted-foreground text-sm">
+								Showing {routes.length} of {totalRoutes} routes
+							</span>
 							<Button variant="outline" onClick={() => handleOpenChange(false)}>
 								Cancel
 							</Button>
@@ -0,0 +1,204 @@
+import {
+	GitCompareArrows,
+	History,
+	Mountain,
+	RotateCcw,
+	Route,
+} from "lucide-react";
+import type { ReactNode } from "react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "~/components/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "~/components/dialog";
+import { Tooltip, TooltipContent, TooltipTrigger } from "~/components/tooltip";
+import { useMap } from "~/contexts/mapContext";
+import { parseStoredAvoidAreas } from "~/lib/avoid-areas";
+import type { RoutePoint } from "~/lib/graphhopper";
+import { formatDate, formatDistance, formatElevation } from "~/lib/route-utils";
+import { parseStoredPreferences } from "~/lib/routing-preferences";
+import { parseStoredStagePlan } from "~/lib/stages";
+import { type RouterOutputs, api } from "~/trpc/react";
+
+type SavedRoute = RouterOutputs["routePlanner"]["getRoutes"]["routes"][number];
+
+type RouteHistoryDialogProps = {
+	children: ReactNode;
+	route: SavedRoute;
+	/** Called after the map switches to this route, so parent dialogs can close */
+	onShowOnMap?: () => void;
+};
+
+export const RouteHistoryDialog = ({
+	children,
+	route,
+	onShowOnMap,
+}: RouteHistoryDialogProps) => {
+	const [isOpen, setIsOpen] = useState(false);
+	const { loadRoute, showComparisonRoute } = useMap();
+	const utils = api.useUtils();
+
+	const { data: revisions, isLoading } =
+		api.routePlanner.getRouteRevisions.useQuery(
+			{ id: route.id },
+			{ enabled: isOpen },
+		);
+
+	const restoreRevision = api.routePlanner.restoreRouteRevision.useMutation({
+		onSuccess: (restoredRoute, { revision }) => {
+			toast.success(`Restored version ${revision}`, {
+				description: "It is now the current version of this route",
+			});
+			loadRoute(
+				restoredRoute.id,
+				restoredRoute.routeData as RoutePoint[],
+				restoredRoute.activityProfile,
+				parseStoredPreferences(restoredRoute.routingPreferences),
+				parseStoredAvoidAreas(restoredRoute.avoidAreas),
+				parseStoredStagePlan(restoredRoute.stagePlan),
+			);
+			utils.routePlanner.getRoutes.invalidate();
+			utils.routePlanner.getRoute.invalidate({ id: route.id });
+			utils.routePlanner.getRouteRevisions.invalidate({ id: route.id });
+			setIsOpen(false);
+			onShowOnMap?.();
+		},
+		onError: (error) => {
+			toast.error("Failed to restore version", {
+				description: error.message,
+			});
+		},
+	});
+
+	// Load the current version and draw the older one underneath it
+	const handleCompare = (revision: NonNullable<typeof revisions>[number]) => {
+		loadRoute(
+			route.id,
+			route.routeData as RoutePoint[],
+			route.activityProfile,
+			parseStoredPreferences(route.routingPreferences),
+			parseStoredAvoidAreas(route.avoidAreas),
+			parseStoredStagePlan(route.stagePlan),
+		);
+		showComparisonRoute(
+			revision.routeData as RoutePoint[],
+			revision.activityProfile,
+			`version ${revision.revision}`,
+			parseStoredPreferences(revision.routingPreferences),
+			parseStoredAvoidAreas(revision.avoidAreas),
+		);
+		setIsOpen(false);
+		onShowOnMap?.();
+	};
+
+	return (
+		<Dialog open={isOpen} onOpenChange={setIsOpen}>
+			<DialogTrigger asChild>{children}</DialogTrigger>
+			<DialogContent className="max-w-lg">
+				<DialogHeader>
+					<DialogTitle>Version History</DialogTitle>
+					<DialogDescription>
+						Every save of "{route.title}" is kept. Compare an earlier version on
+						the map or restore it.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="max-h-96 overflow-y-auto">
+					{isLoading ? (
+						<div className="flex items-center justify-center py-8">
+							<div className="text-muted-foreground">Loading versions...</div>
+						</div>
+					) : revisions && revisions.length > 0 ? (
+						<ol className="space-y-2">
+							{revisions.map((revision, index) => {
+								const isCurrent = index === 0;
+								return (
+									<li
+										key={revision.revision}
+										className="flex items-center justify-between gap-2 rounded-md px-2 py-1"
+									>
+										<div className="min-w-0 flex-1">
+											<div className="flex items-center gap-2 text-sm">
+												<span className="font-medium">
+													Version {revision.revision}
+												</span>
+												{isCurrent && (
+													<span className="rounded bg-muted px-1.5 py-0.5 text-xs">
+														Current
+													</span>
+												)}
+												{revision.restoredFrom && (
+													<span className="text-muted-foreground text-xs">
+														restored from {revision.restoredFrom}
+													</span>
+												)}
+											</div>
+											<ul className="mt-1 flex items-center gap-4 text-muted-foreground text-xs">
+												<li>{formatDate(revision.createdAt)}</li>
+												<li className="flex items-center gap-1">
+													<Route size={12} />
+													<span>{formatDistance(revision.distance)}</span>
+												</li>
+												<li className="flex items-center gap-1">
+													<Mountain size={12} />
+													<span>{formatElevation(revision.elevationGain)}</span>
+												</li>
+											</ul>
+										</div>
+										{!isCurrent && (
+											<div className="flex items-center gap-2">
+												<Tooltip>
+													<TooltipTrigger asChild>
+														<Button
+															variant="outline"
+															size="sm"
+															onClick={() => handleCompare(revision)}
+														>
+															<GitCompareArrows size={14} />
+														</Button>
+													</TooltipTrigger>
+													<TooltipContent>Compare on map</TooltipContent>
+												</Tooltip>
+												<Tooltip>
+													<TooltipTrigger asChild>
+														<Button
+															variant="outline"
+															size="sm"
+															onClick={() =>
+																restoreRevision.mutate({
+																	id: route.id,
+																	revision: revision.revision,
+																})
+															}
+															disabled={restoreRevision.isPending}
+														>
+															<RotateCcw size={14} />
+														</Button>
+													</TooltipTrigger>
+													<TooltipContent>Restore this version</TooltipContent>
+												</Tooltip>
+											</div>
+										)}
+									</li>
+								);
+							})}
+						</ol>
+					) : (
+						<div className="flex flex-col items-center justify-center py-8 text-center">
+							<History size={48} className="mb-2 text-muted-foreground" />
+							<div className="text-muted-foreground text-sm">
+								No earlier versions yet
+							</div>
+						</div>
+					)}
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+};
@@ -0,0 +1,250 @@
+import { RotateCcw, Save, Trash2 } from "lucide-react";
+import type { ReactNode } from "react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "~/components/button";
+import {
+	Dialog,
+	DialogClose,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "~/components/dialog";
+import { Input } from "~/components/input";
+import { Label } from "~/components/label";
+import { NativeSelect } from "~/components/nativeSelect";
+import { Switch } from "~/components/switch";
+import { useMap } from "~/contexts/mapContext";
+import {
+	BUILT_IN_ROUTING_PRESETS,
+	DEFAULT_ROUTING_PREFERENCES,
+	type RoutingPreferences,
+	isSamePreferences,
+} from "~/lib/routing-preferences";
+import { api } from "~/trpc/react";
+
+// Slider-controlled preferences, with the wording at each end of the slider
+const PREFERENCE_SLIDERS: Array<{
+	key: "paved" | "gravel" | "dirt" | "avoidMainRoads";
+	label: string;
+	min: string;
+	max: string;
+}> = [
+	{ key: "paved", label: "Paved roads", min: "Avoid", max: "Prefer" },
+	{ key: "gravel", label: "Gravel", min: "Avoid", max: "Prefer" },
+	{ key: "dirt", label: "Dirt and grass", min: "Avoid", max: "Prefer" },
+	{
+		key: "avoidMainRoads",
+		label: "Avoid main roads",
+		min: "Don't mind",
+		max: "Avoid",
+	},
+];
+
+const PREFERENCE_SWITCHES: Array<{
+	key: "avoidSteps" | "avoidBridleways";
+	label: string;
+}> = [
+	{ key: "avoidSteps", label: "Avoid steps" },
+	{ key: "avoidBridleways", label: "Avoid bridleways" },
+];
+
+type RoutingPreferencesDialogProps = {
+	children: ReactNode;
+	/** Saved presets need an account */
+	isSignedIn: boolean;
+};
+
+export const RoutingPreferencesDialog = ({
+	children,
+	isSignedIn,
+}: RoutingPreferencesDialogProps) => {
+	const [isOpen, setIsOpen] = useState(false);
+	const { routingPreferences, setRoutingPreferences } = useMap();
+	const [draft, setDraft] = useState<RoutingPreferences>(routingPreferences);
+	const [presetName, setPresetName] = useState("");
+	const utils = api.useUtils();
+
+	const { data: savedPresets } = api.routePlanner.getRoutingPresets.useQuery(
+		undefined,
+		{ enabled: isOpen && isSignedIn },
+	);
+
+	const saveRoutingPreset = api.routePlanner.saveRoutingPreset.useMutation({
+		onSuccess: (preset) => {
+			toast.success(`Saved preset "${preset?.name}"`);
+			setPresetName("");
+			utils.routePlanner.getRoutingPresets.invalidate();
+		},
+		onError: (error) => {
+			toast.error("Failed to save preset", { description: error.message });
+		},
+	});
+
+	const deleteRoutingPreset = api.routePlanner.deleteRoutingPreset.useMutation({
+		onSuccess: () => {
+			toast.success("Preset deleted");
+			utils.routePlanner.getRoutingPresets.invalidate();
+		},
+		onError: (error) => {
+			toast.error("Failed to delete preset", { description: error.message });
+		},
+	});
+
+	const presets = [
+		...BUILT_IN_ROUTING_PRESETS.map((preset) => ({ ...preset, id: null })),
+		...(savedPresets ?? []),
+	];
+	const selectedPreset = presets.find((preset) =>
+		isSamePreferences(preset.preferences, draft),
+	);
+
+	const handleOpenChange = (open: boolean) => {
+		// Start from what the route currently uses
+		if (open) setDraft(routingPreferences);
+		setIsOpen(open);
+	};
+
+	const handleApply = () => {
+		setRoutingPreferences(draft);
+		setIsOpen(false);
+	};
+
+	return (
+		<Dialog open={isOpen} onOpenChange={handleOpenChange}>
+			<DialogTrigger asChild>{children}</DialogTrigger>
+			<DialogContent>
+				<DialogHeader>
+					<DialogTitle>Route Preferences</DialogTitle>
+					<DialogDescription>
+						Tune which surfaces and roads the route favours. Preferences are
+						saved with the route.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-4">
+					<div className="flex items-end gap-2">
+						<div className="flex-1 space-y-2">
+							<Label htmlFor="routing-preset">Preset</Label>
+							<NativeSelect
+								id="routing-preset"
+								value={selectedPreset?.name ?? ""}
+								onChange={(e) => {
+									const preset = presets.find((p) => p.name === e.target.value);
+									if (preset) setDraft(preset.preferences);
+								}}
+							>
+								{!selectedPreset && <option value="">Custom</option>}
+								{presets.map((preset) => (
+									<option key={preset.id ?? preset.name} value={preset.name}>
+										{preset.name}
+									</option>
+								))}
+							</NativeSelect>
+						</div>
+						{selectedPreset?.id != null && (
+							<Button
+								variant="outline"
+								size="icon"
+								icon={Trash2}
+								onClick={() =>
+									selectedPreset.id !== null &&
+									deleteRoutingPreset.mutate({ id: selectedPreset.id })
+								}
+								disabled={deleteRoutingPreset.isPending}
+								aria-label="Delete preset"
+							/>
+						)}
+					</div>
+
+					{PREFERENCE_SLIDERS.map(({ key, label, min, max }) => (
+						<div key={key} className="space-y-1">
+							<Label htmlFor={`preference-${key}`}>{label}</Label>
+							<input
+								id={`preference-${key}`}
+								type="range"
+								min={0}
+								max={100}
+								step={10}
+								value={draft[key]}
+								onChange={(e) =>
+									setDraft({ ...draft, [key]: Number(e.target.value) })
+								}
+								className="w-full accent-primary"
+							/>
+							<div className="flex justify-between text-muted-foreground text-xs">
+								<span>{min}</span>
+								<span>{max}</span>
+							</div>
+						</div>
+					))}
+
+					{PREFERENCE_SWITCHES.map(({ key, label }) => (
+						<label
+							key={key}
+							htmlFor={`preference-${key}`}
+							className="flex cursor-pointer items-center justify-between font-medium text-sm"
+						>
+							{label}
+							<Switch
+								id={`preference-${key}`}
+								checked={draft[key]}
+								onCheckedChange={(checked) =>
+									setDraft({ ...draft, [key]: checked })
+								}
+							/>
+						</label>
+					))}
+
+					{isSignedIn && (
+						<form
+							className="flex items-center gap-2"
+							onSubmit={(e) => {
+								e.preventDefault();
+								if (presetName.trim()) {
+									saveRoutingPreset.mutate({
+										name: presetName,
+										preferences: draft,
+									});
+								}
+							}}
+						>
+							<Input
+								placeholder="Preset name"
+								maxLength={50}
+								value={presetName}
+								onChange={(e) => setPresetName(e.target.value)}
+							/>
+							<Button
+								type="submit"
+								variant="outline"
+								icon={Save}
+								disabled={!presetName.trim() || saveRoutingPreset.isPending}
+							>
+								Save preset
+							</Button>
+						</form>
+					)}
+				</div>
+
+				<DialogFooter>
+					<Button
+						variant="ghost"
+						icon={RotateCcw}
+						onClick={() => setDraft(DEFAULT_ROUTING_PREFERENCES)}
+						className="sm:mr-auto"
+					>
+						Reset
+					</Button>
+					<DialogClose asChild>
+						<Button variant="outline">Cancel</Button>
+					</DialogClose>
+					<Button onClick={handleApply}>Apply</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+};
@@ -25,11 +25,16 @@ import {
 } from "~/components/form";
 import { Input } from "~/components/input";
 import { useMap } from "~/contexts/mapContext";
+import { parseTags } from "~/lib/route-utils";
+import { isDefaultPreferences } from "~/lib/routing-preferences";
 import { api } from "~/trpc/react";
 
 // Form schema for saving routes
 const saveRouteSchema = z.object({
 	title: z.string().min(1, "Route title is required").max(75, "Title too long"),
+	description: z.string().max(1000, "Description too long"),
+	folder: z.string().max(255, "Folder name too long"),
+	tags: z.string().max(500, "Too many tags"),
 });
 
 type SaveRouteForm = z.infer<typeof saveRouteSchema>;
@@ -44,8 +49,18 @@ export const SaveRouteDialog = ({
 	onOpenChange,
 }: SaveRouteDialogProps) => {
 	const [isOpen, setIsOpen] = useState(false);
-	const { routePoints, elevationGain, routeDistance, routeId, preferOffRoad } =
-		useMap();
+	const {
+		routePoints,
+		elevationGain,
+		routeDistance,
+		routeId,
+		activityProfile,
+		routingPreferences,
+		routeAvoidAreas,
+		stagePlan,
+		routeResponse,
+		isCalculating,
+	} = useMap();
 
 	const handleOpenChange = (open: boolean) => {
 		if (open && onOpenChange && !onOpenChange()) {
@@ -65,11 +80,19 @@ export const SaveRouteDialog = ({
 		},
 	);
 
+	// Existing folders, suggested while typing
+	const { data: labels } = api.routePlanner.getRouteLabels.useQuery(undefined, {
+		enabled: isOpen,
+	});
+
 	// Form setup
 	const form = useForm<SaveRouteForm>({
 		resolver: zodResolver(saveRouteSchema),
 		defaultValues: {
 			title: "",
+			description: "",
+			folder: "",
+			tags: "",
 		},
 	});
 
@@ -77,8 +100,14 @@ export const SaveRouteDialog = ({
 	useEffect(() => {
 		if (currentRoute && isEditing) {
 			form.setValue("title", currentRoute.title);
+			form.setValue("description", currentRoute.description ?? "");
+			form.setValue("folder", currentRoute.folder ?? "");
+			form.setValue("tags", currentRoute.tags.join(", "));
 		} else if (!isEditing) {
 			form.setValue("title", "");
+			form.setValue("description", "");
+			form.setValue("folder", "");
+			form.setValue("tags", "");
 		}
 	}, [currentRoute, isEditing, form]);
 
@@ -93,6 +122,9 @@ export const SaveRouteDialog = ({
 			form.reset();
 			// Invalidate routes cache to refresh the MyRoutesDialog
 			utils.routePlanner.getRoutes.invalidate();
+			utils.routePlanner.getRouteLabels.invalidate();
+			utils.routePlanner.getRouteRevisions.invalidate();
+			utils.routePlanner.getRoute.invalidate();
 		},
 		onError: (error) => {
 			toast.error(`Failed to ${isEditing ? "update" : "save"} route`, {
@@ -112,10 +144,20 @@ export const SaveRouteDialog = ({
 		saveRoute.mutate({
 			id: routeId || undefined, // Pass routeId if editing
 			title: data.title,
+			description: data.description,
+			folder: data.folder.trim(),
+			tags: parseTags(data.tags),
 			routeData: routePoints,
 			distance: routeDistance,
 			elevationGain,
-			routePreference: preferOffRoad ? "off-road" : "road",
+			activityProfile,
+			routingPreferences: isDefaultPreferences(routingPreferences)
+				? undefined
+				: routingPreferences,
+			avoidAreas: routeAvoidAreas,
+			stagePlan: stagePlan ?? undefined,
+			// Skip geometry that is still being recalculated for the current points
+			routeResponse: isCalculating ? undefined : (routeResponse ?? undefined),
 		});
 	};
 
@@ -146,6 +188,59 @@ export const SaveRouteDialog = ({
 								</FormItem>
 							)}
 						/>
+						<FormField
+							control={form.control}
+							name="description"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Description</FormLabel>
+									<FormControl>
+										<Input
+											placeholder="Optional notes for this route"
+											{...field}
+										/>
+									</FormControl>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+						<div className="grid grid-cols-2 gap-4">
+							<FormField
+								control={form.control}
+								name="folder"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Folder</FormLabel>
+										<FormControl>
+											<Input
+												placeholder="None"
+												list="route-folders"
+												{...field}
+											/>
+										</FormControl>
+										<datalist id="route-folders">
+											{labels?.folders.map((folder) => (
+												<option key={folder} value={folder} />
+											))}
+										</datalist>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+							<FormField
+								control={form.control}
+								name="tags"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Tags</FormLabel>
+										<FormControl>
+											<Input placeholder="gravel, commute" {...field} />
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						</div>
 						<DialogFooter>
 							<DialogClose asChild>
 								<Button variant="outline" type="button">
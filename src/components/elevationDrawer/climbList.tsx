@@ -0,0 +1,131 @@
+"use client";
+
+import { NativeSelect } from "~/components/nativeSelect";
+import { type RouteColorMode, useMap } from "~/contexts/mapContext";
+import {
+	type Climb,
+	GRADIENT_BANDS,
+	GRADIENT_WINDOWS,
+	type GradientWindow,
+	getClimbCategoryDetails,
+} from "~/lib/gradients";
+import {
+	formatDistance,
+	formatElevation,
+	formatGrade,
+} from "~/lib/route-utils";
+
+/**
+ * Climbs found along the route with their length, steepness and category,
+ * plus the settings for how steepness is measured and shown
+ */
+export const ClimbList = () => {
+	const {
+		climbs,
+		gradientWindow,
+		setGradientWindow,
+		routeColorMode,
+		setRouteColorMode,
+		elevationData,
+	} = useMap();
+
+	if (elevationData.length === 0) return null;
+
+	return (
+		<div className="space-y-2">
+			<div className="flex flex-wrap items-center justify-between gap-2 px-2">
+				<h3 className="font-medium text-sm">
+					Climbs{climbs.length > 0 && ` (${climbs.length})`}
+				</h3>
+				<div className="flex items-center gap-2">
+					<NativeSelect
+						aria-label="Measure grades over"
+						value={gradientWindow}
+						onChange={(e) =>
+							setGradientWindow(Number(e.target.value) as GradientWindow)
+						}
+						className="h-8 w-auto"
+					>
+						{GRADIENT_WINDOWS.map((window) => (
+							<option key={window} value={window}>
+								Grade over {window}m
+							</option>
+						))}
+					</NativeSelect>
+					<NativeSelect
+						aria-label="Colour the route by"
+						value={routeColorMode}
+						onChange={(e) =>
+							setRouteColorMode(e.target.value as RouteColorMode)
+						}
+						className="h-8 w-auto"
+					>
+						<option value="surface">Colour by surface</option>
+						<option value="gradient">Colour by gradient</option>
+					</NativeSelect>
+				</div>
+			</div>
+
+			{routeColorMode === "gradient" && (
+				<ul className="flex flex-wrap justify-center gap-3 px-2">
+					{GRADIENT_BANDS.map((band) => (
+						<li key={band.id} className="flex items-center gap-2 text-xs">
+							<div
+								className="h-3 w-3 rounded-full border border-gray-300"
+								style={{ backgroundColor: band.color }}
+							/>
+							<span className="text-muted-foreground">{band.label}</span>
+						</li>
+					))}
+				</ul>
+			)}
+
+			{climbs.length === 0 ? (
+				<p className="px-2 text-muted-foreground text-xs">
+					No climbs on this route.
+				</p>
+			) : (
+				<ol className="space-y-1">
+					{climbs.map((climb) => (
+						<ClimbRow
+							key={`${climb.startIndex}-${climb.endIndex}`}
+							climb={climb}
+						/>
+					))}
+				</ol>
+			)}
+		</div>
+	);
+};
+
+const ClimbRow = ({ climb }: { climb: Climb }) => {
+	const category = getClimbCategoryDetails(climb.category);
+
+	return (
+		<li className="flex items-center gap-3 rounded-md border px-2 py-1.5 text-sm">
+			<span
+				className="w-20 shrink-0 rounded px-1.5 py-0.5 text-center font-medium text-white text-xs"
+				style={{ backgroundColor: category.color }}
+			>
+				{category.label}
+			</span>
+			<div className="min-w-0 flex-1">
+				<div className="tabular-nums">
+					{formatDistance(climb.length)} at {formatGrade(climb.averageGrade)}
+					<span className="text-muted-foreground">
+						{" "}
+						· max {formatGrade(climb.maxGrade)}
+					</span>
+				</div>
+				<div className="flex gap-3 text-muted-foreground text-xs tabular-nums">
+					<span>
+						From {formatDistance(climb.startDistance)} to{" "}
+						{formatDistance(climb.endDistance)}
+					</span>
+					<span>{formatElevation(climb.elevationGain)} climbing</span>
+					<span title="Fiets index">Fiets {climb.fietsIndex.toFixed(1)}</span>
+				</div>
+			</div>
+		</li>
+	);
+};
@@ -0,0 +1,111 @@
+"use client";
+
+import {
+	ArrowLeft,
+	ArrowRight,
+	ArrowUp,
+	ArrowUpLeft,
+	ArrowUpRight,
+	ChevronDown,
+	ChevronUp,
+	FileDown,
+	Flag,
+	type LucideIcon,
+	MapPin,
+	Printer,
+	RotateCw,
+	Undo2,
+} from "lucide-react";
+import { useState } from "react";
+import { Button } from "~/components/button";
+import { useMap } from "~/contexts/mapContext";
+import { CUE_TYPE_LABELS, type CueType } from "~/lib/cue-sheet";
+import { formatDistance } from "~/lib/route-utils";
+
+const CUE_ICONS: Record<CueType, LucideIcon> = {
+	continue: ArrowUp,
+	slight_left: ArrowUpLeft,
+	left: ArrowLeft,
+	sharp_left: ArrowLeft,
+	keep_left: ArrowUpLeft,
+	slight_right: ArrowUpRight,
+	right: ArrowRight,
+	sharp_right: ArrowRight,
+	keep_right: ArrowUpRight,
+	u_turn: Undo2,
+	roundabout: RotateCw,
+	via: MapPin,
+	finish: Flag,
+};
+
+/**
+ * Collapsible turn-by-turn list with distance from start for each cue
+ */
+export const CueSheet = () => {
+	const { cues, exportCueSheet } = useMap();
+	const [isOpen, setIsOpen] = useState(false);
+
+	if (cues.length === 0) return null;
+
+	return (
+		<div className="space-y-2">
+			<div className="flex items-center justify-between gap-2">
+				<Button
+					variant="ghost"
+					size="sm"
+					icon={isOpen ? ChevronUp : ChevronDown}
+					onClick={() => setIsOpen(!isOpen)}
+				>
+					Cue sheet ({cues.length})
+				</Button>
+				<div className="flex items-center gap-1">
+					<Button
+						variant="ghost"
+						size="sm"
+						icon={FileDown}
+						onClick={() => exportCueSheet("csv")}
+					>
+						CSV
+					</Button>
+					<Button
+						variant="ghost"
+						size="sm"
+						icon={Printer}
+						onClick={() => exportCueSheet("print")}
+					>
+						Print
+					</Button>
+				</div>
+			</div>
+
+			{isOpen && (
+				<ol className="max-h-64 space-y-1 overflow-y-auto text-sm">
+					{cues.map((cue, index) => {
+						const Icon = CUE_ICONS[cue.type];
+						return (
+							<li
+								key={`${cue.coordinateIndex}-${index}`}
+								className="flex items-center gap-3 rounded-md px-2 py-1 hover:bg-muted/50"
+							>
+								<span className="w-14 shrink-0 text-right font-medium tabular-nums">
+									{formatDistance(cue.distanceFromStart)}
+								</span>
+								<Icon
+									size={16}
+									className="shrink-0 text-muted-foreground"
+									aria-label={CUE_TYPE_LABELS[cue.type]}
+								/>
+								<span className="flex-1 truncate">{cue.text}</span>
+								{cue.distance > 0 && (
+									<span className="shrink-0 text-muted-foreground text-xs">
+										{formatDistance(cue.distance)}
+									</span>
+								)}
+							</li>
+						);
+					})}
+				</ol>
+			)}
+		</div>
+	);
+};
@@ -1,14 +1,30 @@
 "use client";
 
-import { Route, TrendingDown, TrendingUp } from "lucide-react";
-import { useCallback, useMemo, useState } from "react";
-import { Area, AreaChart, ReferenceDot, XAxis, YAxis } from "recharts";
+import { Clock, Route, TrendingDown, TrendingUp } from "lucide-react";
+import { useCallback, useMemo, useRef, useState } from "react";
+import {
+	Area,
+	AreaChart,
+	ReferenceArea,
+	ReferenceDot,
+	XAxis,
+	YAxis,
+} from "recharts";
 import { ChartContainer } from "~/components/chart";
 import type { ChartConfig } from "~/components/chart";
-import { useMap } from "~/contexts/mapContext";
-import { formatDistance, formatElevation } from "~/lib/route-utils";
+import { type RouteSection, useMap } from "~/contexts/mapContext";
+import { getClimbCategoryDetails } from "~/lib/gradients";
+import type { ElevationChartData } from "~/lib/graphhopper";
+import {
+	formatDistance,
+	formatDuration,
+	formatElevation,
+} from "~/lib/route-utils";
 import { getSurfaceAtDistance, processSurfaceData } from "~/lib/surface-utils";
+import { ElevationSmoothingSettings } from "./elevationSmoothingSettings";
+import { MovingTimeSettings } from "./movingTimeSettings";
 import { RouteTooltip } from "./routeTooltip";
+import { SectionSummary } from "./sectionSummary";
 import { SurfaceBar } from "./surfaceBar";
 import { SurfaceLegend } from "./surfaceLegend";
 
@@ -30,9 +46,40 @@ const chartConfig = {
 	},
 } satisfies ChartConfig;
 
+// Pointer travel below this is a click rather than a drag, in pixels
+const DRAG_THRESHOLD = 4;
+
+// Shading for the picked section, matching its highlight on the map
+const SELECTION_COLOR = "#facc15";
+
+/**
+ * Index of the data point closest to a distance - points run in order of
+ * distance, so this is a binary search
+ */
+const findClosestIndex = (data: ElevationChartData, distance: number) => {
+	let low = 0;
+	let high = data.length - 1;
+	while (low < high) {
+		const middle = Math.floor((low + high) / 2);
+		if ((data[middle]?.distance ?? 0) < distance) {
+			low = middle + 1;
+		} else {
+			high = middle;
+		}
+	}
+	const previous = data[low - 1];
+	const current = data[low];
+	return previous &&
+		current &&
+		distance - previous.distance < current.distance - distance
+		? low - 1
+		: low;
+};
+
 /**
- * Interactive elevation chart with synchronized hover tracking across chart and surface bar.
+ * Interactive elevation chart with synchronized hover tracking across chart, surface bar and map.
  * Features: elevation profile, surface type visualization, tooltips, and active point indicator.
+ * Dragging across the chart or surface bar picks a section, which can be zoomed into.
  */
 export const ElevationChart = () => {
 	const {
@@ -41,11 +88,31 @@ export const ElevationChart = () => {
 		elevationLoss,
 		surfaceData,
 		routeDistance,
+		movingTime,
+		climbs,
+		selectedSection,
+		setSelectedSection,
+		routeCursor,
+		setRouteCursor,
 	} = useMap();
 
-	// State for hover interactions
-	const [activeDistance, setActiveDistance] = useState<number | null>(null);
-	const [tooltip, setTooltip] = useState<TooltipData | null>(null);
+	// Hovered point comes from the shared cursor, so hovering the route on the map shows here too
+	const [pointer, setPointer] = useState<{ x: number; y: number } | null>(null);
+	const hoverAreaRef = useRef<HTMLDivElement>(null);
+
+	// Section being dragged out, and the one zoomed into for the data it was picked on
+	const [drag, setDrag] = useState<{
+		startIndex: number;
+		endIndex: number;
+		startX: number;
+	} | null>(null);
+	const [zoom, setZoom] = useState<{
+		data: ElevationChartData;
+		section: RouteSection;
+	} | null>(null);
+	// Clearing the section leaves the zoom too
+	const zoomSection =
+		zoom && zoom.data === data && selectedSection ? zoom.section : null;
 
 	// Memoize expensive calculations
 	const surfaceSegments = useMemo(
@@ -53,78 +120,167 @@ export const ElevationChart = () => {
 		[surfaceData, routeDistance],
 	);
 
-	const maxDistance = useMemo(() => data.at(-1)?.distance ?? 0, [data]);
+	const visibleData = useMemo(
+		() =>
+			zoomSection
+				? data.slice(zoomSection.startIndex, zoomSection.endIndex + 1)
+				: data,
+		[data, zoomSection],
+	);
+	const minDistance = visibleData[0]?.distance ?? 0;
+	const maxDistance = visibleData.at(-1)?.distance ?? 0;
+	const activeDistance =
+		routeCursor &&
+		routeCursor.distance >= minDistance &&
+		routeCursor.distance <= maxDistance
+			? routeCursor.distance
+			: null;
 
 	// Find the closest data point for the active distance
-	const activePoint = useMemo(() => {
-		if (activeDistance === null || data.length === 0) return null;
-
-		return data.reduce((closest, point) =>
-			Math.abs(point.distance - activeDistance) <
-			Math.abs(closest.distance - activeDistance)
-				? point
-				: closest,
-		);
-	}, [data, activeDistance]);
-
-	// Helper functions for mouse handling
-	const findClosestElevationPoint = useCallback(
-		(distance: number) => {
-			return data.reduce((closest, point) =>
-				Math.abs(point.distance - distance) <
-				Math.abs(closest.distance - distance)
-					? point
-					: closest,
-			);
-		},
-		[data],
+	const activePoint = useMemo(
+		() =>
+			activeDistance === null || data.length === 0
+				? null
+				: data[findClosestIndex(data, activeDistance)],
+		[data, activeDistance],
 	);
 
-	const handleMouseMove = useCallback(
-		(e: React.MouseEvent) => {
-			const chartSurface = e.currentTarget.querySelector(".recharts-surface");
-			if (!chartSurface) {
-				// Fallback to wrapper div
-				const rect = e.currentTarget.getBoundingClientRect();
-				const x = e.clientX - rect.left;
-				const percentage = x / rect.width;
-				const distance = percentage * maxDistance;
-				requestAnimationFrame(() => setActiveDistance(distance));
-				return;
+	// Shaded stretch - the one being dragged out, otherwise the picked section
+	const shownSection = drag
+		? {
+				startIndex: Math.min(drag.startIndex, drag.endIndex),
+				endIndex: Math.max(drag.startIndex, drag.endIndex),
 			}
+		: selectedSection;
+
+	// Helper functions for pointer handling
+	const getPointerDistance = useCallback(
+		(e: React.PointerEvent) => {
+			const chartSurface = e.currentTarget.querySelector(".recharts-surface");
+			// Fallback to wrapper div
+			const rect = (chartSurface ?? e.currentTarget).getBoundingClientRect();
+			const x = e.clientX - rect.left;
+			const percentage = Math.max(0, Math.min(1, x / rect.width));
+			return minDistance + percentage * (maxDistance - minDistance);
+		},
+		[minDistance, maxDistance],
+	);
+
+	const handlePointerDown = useCallback(
+		(e: React.PointerEvent) => {
+			if (e.button !== 0) return;
+			const index = findClosestIndex(data, getPointerDistance(e));
+			setDrag({ startIndex: index, endIndex: index, startX: e.clientX });
+			// Keep following the drag if it leaves the chart
+			e.currentTarget.setPointerCapture(e.pointerId);
+		},
+		[data, getPointerDistance],
+	);
 
-			const surfaceRect = chartSurface.getBoundingClientRect();
-			const x = e.clientX - surfaceRect.left;
-			const percentage = Math.max(0, Math.min(1, x / surfaceRect.width));
-			const distance = percentage * maxDistance;
+	const handlePointerMove = useCallback(
+		(e: React.PointerEvent) => {
+			const distance = getPointerDistance(e);
+			const { clientX, clientY } = e;
 
 			requestAnimationFrame(() => {
-				setActiveDistance(distance);
-
-				const elevationPoint = findClosestElevationPoint(distance);
-				const surface = getSurfaceAtDistance(surfaceSegments, distance);
-
-				if (surface && elevationPoint) {
-					setTooltip({
-						x: e.clientX,
-						y: e.clientY,
-						distance: elevationPoint.distance,
-						elevation: elevationPoint.elevation,
-						surface: {
-							formattedSurface: surface.formattedSurface,
-							color: surface.color,
-						},
-					});
-				}
+				setRouteCursor({ distance, source: "chart" });
+				setPointer({ x: clientX, y: clientY });
+
+				const index = findClosestIndex(data, distance);
+				setDrag((current) => current && { ...current, endIndex: index });
 			});
 		},
-		[maxDistance, surfaceSegments, findClosestElevationPoint],
+		[data, getPointerDistance, setRouteCursor],
 	);
 
-	const handleMouseLeave = useCallback(() => {
-		setActiveDistance(null);
-		setTooltip(null);
-	}, []);
+	const handlePointerUp = useCallback(
+		(e: React.PointerEvent) => {
+			if (!drag) return;
+			setDrag(null);
+
+			const endIndex = findClosestIndex(data, getPointerDistance(e));
+			// A click rather than a drag clears the section
+			if (
+				Math.abs(e.clientX - drag.startX) < DRAG_THRESHOLD ||
+				endIndex === drag.startIndex
+			) {
+				setSelectedSection(null);
+				return;
+			}
+			setSelectedSection({
+				startIndex: Math.min(drag.startIndex, endIndex),
+				endIndex: Math.max(drag.startIndex, endIndex),
+			});
+		},
+		[drag, data, getPointerDistance, setSelectedSection],
+	);
+
+	const handlePointerLeave = useCallback(() => {
+		setRouteCursor(null);
+		setPointer(null);
+	}, [setRouteCursor]);
+
+	const handleToggleZoom = useCallback(() => {
+		setZoom(
+			zoomSection || !selectedSection
+				? null
+				: { data, section: selectedSection },
+		);
+	}, [zoomSection, selectedSection, data]);
+
+	// A stretch of the route cut down to the part shown, as chart distances
+	const getVisibleArea = (section: RouteSection) => {
+		const start = data[section.startIndex]?.distance;
+		const end = data[section.endIndex]?.distance;
+		if (start === undefined || end === undefined) return null;
+
+		const x1 = visibleData[findClosestIndex(visibleData, start)]?.distance;
+		const x2 = visibleData[findClosestIndex(visibleData, end)]?.distance;
+		return x1 !== undefined && x2 !== undefined && x2 > x1 ? { x1, x2 } : null;
+	};
+
+	const shownArea = shownSection && getVisibleArea(shownSection);
+
+	// Beside the pointer when hovering here, otherwise over the spot hovered on the map
+	const getTooltipPosition = () => {
+		if (routeCursor?.source === "chart") return pointer;
+
+		const chartSurface =
+			hoverAreaRef.current?.querySelector(".recharts-surface");
+		if (
+			!chartSurface ||
+			activeDistance === null ||
+			maxDistance <= minDistance
+		) {
+			return null;
+		}
+		const rect = chartSurface.getBoundingClientRect();
+		return {
+			x:
+				rect.left +
+				((activeDistance - minDistance) / (maxDistance - minDistance)) *
+					rect.width,
+			y: rect.top + rect.height / 3,
+		};
+	};
+	const surfaceAtCursor =
+		activeDistance !== null
+			? getSurfaceAtDistance(surfaceSegments, activeDistance)
+			: null;
+	const tooltipPosition =
+		activePoint && surfaceAtCursor && getTooltipPosition();
+	const tooltip: TooltipData | null =
+		activePoint && surfaceAtCursor && tooltipPosition
+			? {
+					...tooltipPosition,
+					distance: activePoint.distance,
+					elevation: activePoint.elevation,
+					surface: {
+						formattedSurface: surfaceAtCursor.formattedSurface,
+						color: surfaceAtCursor.color,
+					},
+				}
+			: null;
 
 	if (data.length === 0) {
 		return (
@@ -137,12 +293,20 @@ export const ElevationChart = () => {
 	return (
 		<div className="space-y-4">
 			{/* Stats */}
-			<div className="flex items-center justify-center gap-6 text-sm">
-				<div className="flex items-center gap-1.5 text-green-600">
-					<TrendingUp size={16} />
-					<span className="font-medium">{formatElevation(elevationGain)}</span>
-					<span className="text-muted-foreground">climbing</span>
-				</div>
+			<div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-1 text-sm">
+				<ElevationSmoothingSettings>
+					<button
+						type="button"
+						className="flex items-center gap-1.5 rounded-sm text-green-600 hover:underline"
+						title="Climbing after smoothing the elevation data - click to change how"
+					>
+						<TrendingUp size={16} />
+						<span className="font-medium">
+							{formatElevation(elevationGain)}
+						</span>
+						<span className="text-muted-foreground">climbing</span>
+					</button>
+				</ElevationSmoothingSettings>
 				<div className="flex items-center gap-1.5 text-red-600">
 					<TrendingDown size={16} />
 					<span className="font-medium">{formatElevation(elevationLoss)}</span>
@@ -153,13 +317,32 @@ export const ElevationChart = () => {
 					<span className="font-medium">{formatDistance(routeDistance)}</span>
 					<span className="text-muted-foreground">distance</span>
 				</div>
+				<MovingTimeSettings>
+					<button
+						type="button"
+						className="flex items-center gap-1.5 rounded-sm hover:underline"
+						title="Estimated moving time - click to set your speeds"
+					>
+						<Clock size={16} />
+						<span className="font-medium">{formatDuration(movingTime)}</span>
+						<span className="text-muted-foreground">moving</span>
+					</button>
+				</MovingTimeSettings>
 			</div>
 
 			{/* Hover tracking area for both chart and surface bar */}
-			<div onMouseMove={handleMouseMove} onMouseLeave={handleMouseLeave}>
+			<div
+				ref={hoverAreaRef}
+				className="cursor-crosshair touch-pan-y select-none"
+				onPointerDown={handlePointerDown}
+				onPointerMove={handlePointerMove}
+				onPointerUp={handlePointerUp}
+				onPointerCancel={() => setDrag(null)}
+				onPointerLeave={handlePointerLeave}
+			>
 				{/* Chart */}
 				<ChartContainer config={chartConfig} className="aspect-auto h-40">
-					<AreaChart data={data}>
+					<AreaChart data={visibleData}>
 						<defs>
 							<linearGradient
 								id="elevationGradient"
@@ -199,6 +382,32 @@ export const ElevationChart = () => {
 							width={0}
 						/>
 
+						{/* Climbs, shaded by category behind the profile */}
+						{climbs.map((climb) => {
+							const area = getVisibleArea(climb);
+							if (!area) return null;
+							return (
+								<ReferenceArea
+									key={`${climb.startIndex}-${climb.endIndex}`}
+									{...area}
+									fill={getClimbCategoryDetails(climb.category).color}
+									fillOpacity={0.15}
+									strokeOpacity={0}
+								/>
+							);
+						})}
+
+						{/* Picked section */}
+						{shownArea && (
+							<ReferenceArea
+								{...shownArea}
+								fill={SELECTION_COLOR}
+								fillOpacity={0.3}
+								stroke={SELECTION_COLOR}
+								strokeOpacity={0.8}
+							/>
+						)}
+
 						<Area
 							type="linear"
 							dataKey="elevation"
@@ -225,9 +434,23 @@ export const ElevationChart = () => {
 					</AreaChart>
 				</ChartContainer>
 
-				<SurfaceBar activeDistance={activeDistance} />
+				<SurfaceBar
+					activeDistance={activeDistance}
+					range={zoomSection ? { start: minDistance, end: maxDistance } : null}
+					selection={
+						shownSection && {
+							start: data[shownSection.startIndex]?.distance ?? 0,
+							end: data[shownSection.endIndex]?.distance ?? 0,
+						}
+					}
+				/>
 			</div>
 
+			<SectionSummary
+				isZoomed={zoomSection !== null}
+				onToggleZoom={handleToggleZoom}
+			/>
+
 			<SurfaceLegend />
 
 			{/* Tooltip */}
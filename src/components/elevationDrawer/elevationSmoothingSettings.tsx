@@ -0,0 +1,62 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { Label } from "~/components/label";
+import { NativeSelect } from "~/components/nativeSelect";
+import { Popover, PopoverContent, PopoverTrigger } from "~/components/popover";
+import { useMap } from "~/contexts/mapContext";
+import {
+	ELEVATION_SMOOTHING_METHODS,
+	type ElevationSmoothing,
+} from "~/lib/elevation-smoothing";
+
+type ElevationSmoothingSettingsProps = {
+	children: ReactNode;
+};
+
+/**
+ * Choice of how noise is smoothed out of the elevations, which every climbing
+ * figure and the profile follow
+ */
+export const ElevationSmoothingSettings = ({
+	children,
+}: ElevationSmoothingSettingsProps) => {
+	const { elevationSmoothing, setElevationSmoothing } = useMap();
+
+	return (
+		<Popover>
+			<PopoverTrigger asChild>{children}</PopoverTrigger>
+			<PopoverContent className="w-64 space-y-3 text-sm" side="top">
+				<div>
+					<div className="font-medium">Elevation smoothing</div>
+					<p className="text-muted-foreground text-xs">
+						Elevation data is noisy, so small ups and downs can add up to
+						climbing that isn't there.
+					</p>
+				</div>
+				<div className="space-y-1.5">
+					<Label htmlFor="elevation-smoothing">Method</Label>
+					<NativeSelect
+						id="elevation-smoothing"
+						value={elevationSmoothing}
+						onChange={(e) =>
+							setElevationSmoothing(e.target.value as ElevationSmoothing)
+						}
+						className="h-8"
+					>
+						{Object.entries(ELEVATION_SMOOTHING_METHODS).map(
+							([method, { label }]) => (
+								<option key={method} value={method}>
+									{label}
+								</option>
+							),
+						)}
+					</NativeSelect>
+					<p className="text-muted-foreground text-xs">
+						{ELEVATION_SMOOTHING_METHODS[elevationSmoothing].description}
+					</p>
+				</div>
+			</PopoverContent>
+		</Popover>
+	);
+};
@@ -2,14 +2,24 @@
 
 import { SimpleDrawer } from "~/components/simpleDrawer";
 import { useMap } from "~/contexts/mapContext";
+import { ClimbList } from "./climbList";
+import { CueSheet } from "./cueSheet";
 import { ElevationChart } from "./elevationChart";
+import { RouteAlternatives } from "./routeAlternatives";
+import { StagePlanner } from "./stagePlanner";
+import { StoredRouteNotice } from "./storedRouteNotice";
 
 export const ElevationDrawer = () => {
 	const { isDrawerOpen } = useMap();
 
 	return (
-		<SimpleDrawer open={isDrawerOpen} className="p-4">
+		<SimpleDrawer open={isDrawerOpen} className="space-y-4 p-4">
+			<StoredRouteNotice />
 			<ElevationChart />
+			<ClimbList />
+			<RouteAlternatives />
+			<StagePlanner />
+			<CueSheet />
 		</SimpleDrawer>
 	);
 };
@@ -0,0 +1,127 @@
+"use client";
+
+import { RotateCcw } from "lucide-react";
+import { type FormEvent, type ReactNode, useState } from "react";
+import { Button } from "~/components/button";
+import { Input } from "~/components/input";
+import { Label } from "~/components/label";
+import { Popover, PopoverContent, PopoverTrigger } from "~/components/popover";
+import { useMap } from "~/contexts/mapContext";
+import { ACTIVITY_PROFILES } from "~/lib/activity-profiles";
+import {
+	MAX_SURFACE_SPEED,
+	MIN_SURFACE_SPEED,
+	type SurfaceSpeeds,
+} from "~/lib/moving-time";
+import {
+	SURFACE_CATEGORY_IDS,
+	getSurfaceCategoryName,
+} from "~/lib/surface-utils";
+
+type MovingTimeSettingsProps = {
+	children: ReactNode;
+};
+
+/**
+ * The user's own speed on each surface for the current activity, which the
+ * moving time estimates use
+ */
+export const MovingTimeSettings = ({ children }: MovingTimeSettingsProps) => {
+	const { activityProfile, surfaceSpeeds, setSurfaceSpeeds } = useMap();
+	const [isOpen, setIsOpen] = useState(false);
+	const [draft, setDraft] = useState<Record<string, string>>({});
+
+	const handleOpenChange = (open: boolean) => {
+		setIsOpen(open);
+		if (open) {
+			setDraft(
+				Object.fromEntries(
+					Object.entries(surfaceSpeeds).map(([category, speed]) => [
+						category,
+						String(speed),
+					]),
+				),
+			);
+		}
+	};
+
+	const parsed = Object.fromEntries(
+		SURFACE_CATEGORY_IDS.map((category) => [
+			category,
+			Number.parseFloat(draft[category] ?? ""),
+		]),
+	) as SurfaceSpeeds;
+	const isValid = Object.values(parsed).every(
+		(speed) =>
+			Number.isFinite(speed) &&
+			speed >= MIN_SURFACE_SPEED &&
+			speed <= MAX_SURFACE_SPEED,
+	);
+
+	const handleSubmit = (e: FormEvent) => {
+		e.preventDefault();
+		if (!isValid) return;
+		setSurfaceSpeeds(parsed);
+		setIsOpen(false);
+	};
+
+	return (
+		<Popover open={isOpen} onOpenChange={handleOpenChange}>
+			<PopoverTrigger asChild>{children}</PopoverTrigger>
+			<PopoverContent className="w-64" side="top">
+				<form onSubmit={handleSubmit} className="space-y-3 text-sm">
+					<div>
+						<div className="font-medium">Your speeds</div>
+						<p className="text-muted-foreground text-xs">
+							Average {ACTIVITY_PROFILES[activityProfile].label.toLowerCase()}{" "}
+							speed on the flat for each surface. Climbs and descents are
+							allowed for on top.
+						</p>
+					</div>
+					{SURFACE_CATEGORY_IDS.map((category) => (
+						<div
+							key={category}
+							className="flex items-center justify-between gap-2"
+						>
+							<Label htmlFor={`surface-speed-${category}`}>
+								{getSurfaceCategoryName(category)}
+							</Label>
+							<div className="flex items-center gap-1.5">
+								<Input
+									id={`surface-speed-${category}`}
+									type="number"
+									min={MIN_SURFACE_SPEED}
+									max={MAX_SURFACE_SPEED}
+									step="any"
+									value={draft[category] ?? ""}
+									onChange={(e) =>
+										setDraft({ ...draft, [category]: e.target.value })
+									}
+									className="h-8 w-20"
+								/>
+								<span className="text-muted-foreground text-xs">km/h</span>
+							</div>
+						</div>
+					))}
+					<div className="flex justify-between gap-2">
+						<Button
+							type="button"
+							variant="ghost"
+							size="sm"
+							icon={RotateCcw}
+							onClick={() => {
+								setSurfaceSpeeds(null);
+								setIsOpen(false);
+							}}
+						>
+							Defaults
+						</Button>
+						<Button type="submit" size="sm" disabled={!isValid}>
+							Save
+						</Button>
+					</div>
+				</form>
+			</PopoverContent>
+		</Popover>
+	);
+};
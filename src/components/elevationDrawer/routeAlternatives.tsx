@@ -0,0 +1,119 @@
+"use client";
+
+import { Button } from "~/components/button";
+import { useMap } from "~/contexts/mapContext";
+import {
+	formatDelta,
+	formatDistance,
+	formatDuration,
+	formatElevation,
+} from "~/lib/route-utils";
+import { cn } from "~/lib/utils";
+import { SurfaceMixBar } from "./surfaceMixBar";
+
+/**
+ * Side-by-side comparison of the active route and the engine's alternatives,
+ * with the option to switch to one of them
+ */
+export const RouteAlternatives = () => {
+	const {
+		activeRouteSummary,
+		alternativeRoutes,
+		highlightedAlternative,
+		setHighlightedAlternative,
+		promoteAlternativeRoute,
+		isReadOnly,
+	} = useMap();
+
+	if (!activeRouteSummary || alternativeRoutes.length === 0) return null;
+
+	const rows = [
+		{ label: "Current route", summary: activeRouteSummary, index: null },
+		...alternativeRoutes.map((alternative, index) => ({
+			label: `Alternative ${index + 1}`,
+			summary: alternative.summary,
+			index,
+		})),
+	];
+
+	return (
+		<div className="space-y-2">
+			<h3 className="px-2 font-medium text-sm">
+				Alternatives ({alternativeRoutes.length})
+			</h3>
+			<table className="w-full text-sm">
+				<thead className="text-muted-foreground text-xs">
+					<tr>
+						<th className="px-2 text-left font-normal">Route</th>
+						<th className="px-2 text-right font-normal">Distance</th>
+						<th className="px-2 text-right font-normal">Climb</th>
+						<th className="px-2 text-right font-normal">Time</th>
+						<th className="w-1/4 px-2 text-left font-normal">Surface</th>
+						<th />
+					</tr>
+				</thead>
+				<tbody>
+					{rows.map(({ label, summary, index }) => (
+						<tr
+							key={label}
+							className={cn(
+								"tabular-nums",
+								index !== null && "hover:bg-muted/50",
+								index !== null &&
+									highlightedAlternative === index &&
+									"bg-muted/50",
+							)}
+							onMouseEnter={() =>
+								index !== null && setHighlightedAlternative(index)
+							}
+							onMouseLeave={() =>
+								index !== null && setHighlightedAlternative(null)
+							}
+						>
+							<td className="px-2 py-1 font-medium">{label}</td>
+							<td className="px-2 py-1 text-right">
+								{formatDistance(summary.distance)}
+								{index !== null && (
+									<div className="text-muted-foreground text-xs">
+										{formatDelta(
+											summary.distance - activeRouteSummary.distance,
+											formatDistance,
+										)}
+									</div>
+								)}
+							</td>
+							<td className="px-2 py-1 text-right">
+								{formatElevation(summary.ascend)}
+								{index !== null && (
+									<div className="text-muted-foreground text-xs">
+										{formatDelta(
+											summary.ascend - activeRouteSummary.ascend,
+											formatElevation,
+										)}
+									</div>
+								)}
+							</td>
+							<td className="px-2 py-1 text-right">
+								{formatDuration(summary.time)}
+							</td>
+							<td className="px-2 py-1">
+								<SurfaceMixBar surfaceMix={summary.surfaceMix} />
+							</td>
+							<td className="px-2 py-1 text-right">
+								{index !== null && !isReadOnly && (
+									<Button
+										variant="outline"
+										size="sm"
+										onClick={() => promoteAlternativeRoute(index)}
+									>
+										Use
+									</Button>
+								)}
+							</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+		</div>
+	);
+};
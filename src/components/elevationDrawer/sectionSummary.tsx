@@ -0,0 +1,88 @@
+"use client";
+
+import { Download, X, ZoomIn, ZoomOut } from "lucide-react";
+import { Button } from "~/components/button";
+import { useMap } from "~/contexts/mapContext";
+import {
+	formatDistance,
+	formatElevation,
+	formatGrade,
+} from "~/lib/route-utils";
+import { SurfaceMixBar } from "./surfaceMixBar";
+
+type SectionSummaryProps = {
+	isZoomed: boolean;
+	onToggleZoom: () => void;
+};
+
+/**
+ * Stats for the stretch picked on the elevation chart, with zoom and GPX export
+ */
+export const SectionSummary = ({
+	isZoomed,
+	onToggleZoom,
+}: SectionSummaryProps) => {
+	const {
+		selectedSection,
+		sectionStats,
+		setSelectedSection,
+		exportSection,
+		isExporting,
+		elevationData,
+	} = useMap();
+
+	if (!selectedSection || !sectionStats) return null;
+
+	const from =
+		(elevationData[selectedSection.startIndex]?.distance ?? 0) * 1000;
+	const to = (elevationData[selectedSection.endIndex]?.distance ?? 0) * 1000;
+
+	return (
+		<div className="space-y-1.5 rounded-md border px-2 py-1.5">
+			<div className="flex items-center justify-between gap-2">
+				<div className="min-w-0 text-sm">
+					<span className="font-medium">Section</span>
+					<span className="text-muted-foreground">
+						{" "}
+						{formatDistance(from)} to {formatDistance(to)}
+					</span>
+				</div>
+				<div className="flex items-center">
+					<Button
+						variant="ghost"
+						size="sm"
+						icon={isZoomed ? ZoomOut : ZoomIn}
+						onClick={onToggleZoom}
+					>
+						{isZoomed ? "Whole route" : "Zoom"}
+					</Button>
+					<Button
+						variant="ghost"
+						size="sm"
+						icon={Download}
+						onClick={exportSection}
+						disabled={isExporting}
+					>
+						GPX
+					</Button>
+					<Button
+						variant="ghost"
+						size="icon"
+						className="size-8"
+						icon={X}
+						onClick={() => setSelectedSection(null)}
+						aria-label="Clear section"
+					/>
+				</div>
+			</div>
+			<div className="flex flex-wrap gap-x-4 gap-y-1 text-muted-foreground text-xs tabular-nums">
+				<span>{formatDistance(sectionStats.distance)}</span>
+				<span>{formatElevation(sectionStats.elevationGain)} climbing</span>
+				<span>{formatElevation(sectionStats.elevationLoss)} descending</span>
+				<span>{formatGrade(sectionStats.averageGrade)} average</span>
+				<span>{formatGrade(sectionStats.maxGrade)} max</span>
+			</div>
+			<SurfaceMixBar surfaceMix={sectionStats.surfaceMix} />
+		</div>
+	);
+};
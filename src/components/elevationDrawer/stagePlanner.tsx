@@ -0,0 +1,216 @@
+"use client";
+
+import { Download } from "lucide-react";
+import { type FormEvent, useEffect, useState } from "react";
+import { Area, AreaChart, YAxis } from "recharts";
+import { Button } from "~/components/button";
+import { type ChartConfig, ChartContainer } from "~/components/chart";
+import { Input } from "~/components/input";
+import { NativeSelect } from "~/components/nativeSelect";
+import { useMap } from "~/contexts/mapContext";
+import {
+	formatDistance,
+	formatDuration,
+	formatElevation,
+} from "~/lib/route-utils";
+import {
+	DEFAULT_STAGE_TARGETS,
+	STAGE_METHODS,
+	type Stage,
+	type StageMethod,
+	type StagePlan,
+} from "~/lib/stages";
+import { SurfaceMixBar } from "./surfaceMixBar";
+
+const chartConfig = {
+	elevation: {
+		label: "Elevation",
+		color: "var(--color-route)",
+	},
+} satisfies ChartConfig;
+
+// Targets are entered in km for distance and m for climbing
+const TARGET_UNITS = {
+	distance: { label: "km per day", scale: 1000 },
+	climbing: { label: "m climbing per day", scale: 1 },
+} as const;
+
+/**
+ * Splits the route into daily stages, listing each with its own stats,
+ * profile and GPX download
+ */
+export const StagePlanner = () => {
+	const {
+		stagePlan,
+		stages,
+		setStagePlan,
+		exportStage,
+		isExporting,
+		isReadOnly,
+		elevationData,
+	} = useMap();
+
+	if (elevationData.length === 0 || (isReadOnly && !stagePlan)) return null;
+
+	const handleMethodChange = (method: StageMethod | "none") => {
+		if (method === "none") {
+			setStagePlan(null);
+		} else if (method === "overnight") {
+			setStagePlan({ method });
+		} else {
+			setStagePlan({ method, target: DEFAULT_STAGE_TARGETS[method] });
+		}
+	};
+
+	return (
+		<div className="space-y-2">
+			<div className="flex flex-wrap items-center justify-between gap-2 px-2">
+				<h3 className="font-medium text-sm">
+					Stages{stages.length > 1 && ` (${stages.length})`}
+				</h3>
+				{!isReadOnly && (
+					<div className="flex items-center gap-2">
+						<NativeSelect
+							aria-label="Split into stages"
+							value={stagePlan?.method ?? "none"}
+							onChange={(e) =>
+								handleMethodChange(e.target.value as StageMethod | "none")
+							}
+							className="h-8"
+						>
+							<option value="none">Single day</option>
+							{Object.entries(STAGE_METHODS).map(([method, label]) => (
+								<option key={method} value={method}>
+									{label}
+								</option>
+							))}
+						</NativeSelect>
+						{stagePlan && stagePlan.method !== "overnight" && (
+							<StageTargetInput plan={stagePlan} onChange={setStagePlan} />
+						)}
+					</div>
+				)}
+			</div>
+
+			{stagePlan?.method === "overnight" && stages.length <= 1 && (
+				<p className="px-2 text-muted-foreground text-xs">
+					Mark checkpoints as overnight stops from their popup to end a stage
+					there.
+				</p>
+			)}
+
+			{stages.length > 1 && (
+				<ol className="space-y-2">
+					{stages.map((stage) => (
+						<StageRow
+							key={`${stage.number}-${stage.startIndex}-${stage.endIndex}`}
+							stage={stage}
+							onExport={() => exportStage(stage.number)}
+							isExporting={isExporting}
+						/>
+					))}
+				</ol>
+			)}
+		</div>
+	);
+};
+
+const StageTargetInput = ({
+	plan,
+	onChange,
+}: {
+	plan: Extract<StagePlan, { target: number }>;
+	onChange: (plan: StagePlan) => void;
+}) => {
+	const { label, scale } = TARGET_UNITS[plan.method];
+	const [draft, setDraft] = useState(String(plan.target / scale));
+
+	// Follow the plan when it changes elsewhere, e.g. undo or loading a route
+	useEffect(() => {
+		setDraft(String(plan.target / scale));
+	}, [plan.target, scale]);
+
+	const commit = (e?: FormEvent) => {
+		e?.preventDefault();
+		const value = Number.parseFloat(draft) * scale;
+		if (Number.isFinite(value) && value > 0 && value !== plan.target) {
+			onChange({ method: plan.method, target: value });
+		} else {
+			setDraft(String(plan.target / scale));
+		}
+	};
+
+	return (
+		<form onSubmit={commit} className="flex items-center gap-1.5">
+			<Input
+				type="number"
+				min={1}
+				step="any"
+				value={draft}
+				onChange={(e) => setDraft(e.target.value)}
+				onBlur={() => commit()}
+				aria-label={label}
+				className="h-8 w-20"
+			/>
+			<span className="text-muted-foreground text-xs">{label}</span>
+		</form>
+	);
+};
+
+const StageRow = ({
+	stage,
+	onExport,
+	isExporting,
+}: {
+	stage: Stage;
+	onExport: () => void;
+	isExporting: boolean;
+}) => (
+	<li className="space-y-1.5 rounded-md border px-2 py-1.5">
+		<div className="flex items-center justify-between gap-2">
+			<div className="min-w-0 text-sm">
+				<span className="font-medium">Stage {stage.number}</span>
+				{stage.endName && (
+					<span className="text-muted-foreground"> to {stage.endName}</span>
+				)}
+			</div>
+			<Button
+				variant="ghost"
+				size="sm"
+				icon={Download}
+				onClick={onExport}
+				disabled={isExporting}
+			>
+				GPX
+			</Button>
+		</div>
+		<div className="flex gap-4 text-muted-foreground text-xs tabular-nums">
+			<span>{formatDistance(stage.distance)}</span>
+			<span>{formatElevation(stage.elevationGain)} climbing</span>
+			<span>{formatDuration(stage.time)}</span>
+		</div>
+		<SurfaceMixBar surfaceMix={stage.surfaceMix} />
+		<ChartContainer config={chartConfig} className="aspect-auto h-12 w-full">
+			<AreaChart data={stage.elevationData}>
+				<YAxis
+					domain={["dataMin - 20", "dataMax + 20"]}
+					axisLine={false}
+					tickLine={false}
+					tick={false}
+					width={0}
+				/>
+				<Area
+					type="linear"
+					dataKey="elevation"
+					stroke="var(--color-route)"
+					strokeWidth={1.5}
+					fill="var(--color-route)"
+					fillOpacity={0.15}
+					dot={false}
+					activeDot={false}
+					isAnimationActive={false}
+				/>
+			</AreaChart>
+		</ChartContainer>
+	</li>
+);
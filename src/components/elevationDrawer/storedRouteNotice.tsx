@@ -0,0 +1,42 @@
+"use client";
+
+import { RefreshCw } from "lucide-react";
+import { Button } from "~/components/button";
+import { useMap } from "~/contexts/mapContext";
+import { formatDate } from "~/lib/route-utils";
+
+/**
+ * Shows that a saved route is drawn as it was saved, with the option to re-route it
+ */
+export const StoredRouteNotice = () => {
+	const {
+		isStoredRoute,
+		storedRoadDataTimestamp,
+		isReadOnly,
+		isCalculating,
+		rerouteWithLatestMapData,
+	} = useMap();
+
+	if (!isStoredRoute) return null;
+
+	return (
+		<div className="flex flex-wrap items-center justify-between gap-2 text-muted-foreground text-xs">
+			<span>
+				Saved route
+				{storedRoadDataTimestamp &&
+					` · map data from ${formatDate(new Date(storedRoadDataTimestamp))}`}
+			</span>
+			{!isReadOnly && (
+				<Button
+					variant="ghost"
+					size="sm"
+					icon={RefreshCw}
+					onClick={rerouteWithLatestMapData}
+					disabled={isCalculating}
+				>
+					Re-route with latest map data
+				</Button>
+			)}
+		</div>
+	);
+};
@@ -3,42 +3,71 @@
 import { useMap } from "~/contexts/mapContext";
 import { processSurfaceData } from "~/lib/surface-utils";
 
+// Distances along the route, in km
+type DistanceRange = {
+	start: number;
+	end: number;
+};
+
 type SurfaceBarProps = {
 	activeDistance?: number | null;
+	/** Part of the route shown, when the chart is zoomed in */
+	range?: DistanceRange | null;
+	/** Stretch picked on the chart, shaded over the surfaces */
+	selection?: DistanceRange | null;
 };
 
-export const SurfaceBar = ({ activeDistance }: SurfaceBarProps) => {
+export const SurfaceBar = ({ range, selection }: SurfaceBarProps) => {
 	const { surfaceData, elevationData, routeDistance } = useMap();
 	const totalDistance = elevationData.at(-1)?.distance ?? 0;
+	const start = range?.start ?? 0;
+	const end = range?.end ?? totalDistance;
+	const shownDistance = end - start;
 
 	const surfaceSegments = processSurfaceData(surfaceData, routeDistance / 1000);
 
-	if (surfaceSegments.length === 0 || totalDistance === 0) {
+	if (surfaceSegments.length === 0 || shownDistance <= 0) {
 		return null;
 	}
 
+	// Position of a stretch within the shown part, cut off at its edges
+	const getPlacement = (from: number, to: number) => {
+		const left = Math.max(from, start);
+		const right = Math.min(to, end);
+		return right > left
+			? {
+					left: `${((left - start) / shownDistance) * 100}%`,
+					width: `${((right - left) / shownDistance) * 100}%`,
+				}
+			: null;
+	};
+	const selectionPlacement =
+		selection && getPlacement(selection.start, selection.end);
+
 	return (
 		<>
 			<div className="relative h-4 w-full overflow-hidden rounded border bg-gray-100">
 				{surfaceSegments.map((segment) => {
-					// Calculate percentage width and position
-					const startPercent = (segment.startDistance / totalDistance) * 100;
-					const widthPercent =
-						((segment.endDistance - segment.startDistance) / totalDistance) *
-						100;
+					const placement = getPlacement(
+						segment.startDistance,
+						segment.endDistance,
+					);
+					if (!placement) return null;
 
 					return (
 						<div
 							key={`surface-bar-${segment.startDistance}-${segment.endDistance}-${segment.surface}`}
 							className="pointer-events-none absolute top-0 h-full border-white/20 border-r"
-							style={{
-								left: `${startPercent}%`,
-								width: `${widthPercent}%`,
-								backgroundColor: segment.color,
-							}}
+							style={{ ...placement, backgroundColor: segment.color }}
 						/>
 					);
 				})}
+				{selectionPlacement && (
+					<div
+						className="pointer-events-none absolute top-0 h-full border-2 border-yellow-400 bg-yellow-400/30"
+						style={selectionPlacement}
+					/>
+				)}
 			</div>
 		</>
 	);
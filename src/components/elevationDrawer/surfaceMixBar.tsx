@@ -0,0 +1,32 @@
+"use client";
+
+import type { SurfaceShare } from "~/lib/surface-utils";
+
+/**
+ * Stacked bar of a route's surface categories
+ */
+export const SurfaceMixBar = ({
+	surfaceMix,
+}: {
+	surfaceMix: SurfaceShare[];
+}) => (
+	<div
+		className="flex h-2 w-full overflow-hidden rounded-full bg-muted"
+		title={surfaceMix
+			.map(
+				(surface) =>
+					`${surface.formattedSurface} ${Math.round(surface.share * 100)}%`,
+			)
+			.join(", ")}
+	>
+		{surfaceMix.map((surface) => (
+			<div
+				key={surface.formattedSurface}
+				style={{
+					width: `${surface.share * 100}%`,
+					backgroundColor: surface.color,
+				}}
+			/>
+		))}
+	</div>
+);
@@ -1,20 +1,25 @@
 "use client";
 
 import {
+	Bike,
 	Download,
 	FolderOpen,
 	Link as LinkIcon,
 	LogOut,
+	Map as MapIcon,
 	Mountain,
+	Navigation,
 	Redo,
 	Save,
+	Signpost,
 	Trash2,
 	Undo,
+	Upload,
 	User,
 	ZoomIn,
 	ZoomOut,
 } from "lucide-react";
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { toast } from "sonner";
 import { Button } from "~/components/button";
 import { ClearRouteDialog } from "~/components/dialogs/clearRouteDialog";
@@ -24,6 +29,7 @@ import { Popover, PopoverContent, PopoverTrigger } from "~/components/popover";
 import { Separator } from "~/components/separator";
 import { Tooltip, TooltipContent, TooltipTrigger } from "~/components/tooltip";
 import { useMap } from "~/contexts/mapContext";
+import { EXPORT_FORMATS, type ExportFormat } from "~/lib/route-export";
 import { signInWithGoogle, signOutAction } from "~/server/actions/auth";
 
 type FloatingMenuProps = {
@@ -38,12 +44,15 @@ type FloatingMenuProps = {
 
 export const FloatingMenu = ({ session }: FloatingMenuProps) => {
 	const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
+	const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+	const importInputRef = useRef<HTMLInputElement>(null);
 	const {
 		canUndo,
 		canRedo,
 		undo,
 		redo,
-		exportGpx,
+		exportRoute,
+		importRoute,
 		isExporting,
 		isDrawerOpen,
 		toggleDrawer,
@@ -64,6 +73,23 @@ export const FloatingMenu = ({ session }: FloatingMenuProps) => {
 		return true;
 	};
 
+	const handleExport = (
+		format: ExportFormat,
+		options?: { includeRoute?: boolean; includeCues?: boolean },
+	) => {
+		exportRoute(format, options);
+		setIsExportMenuOpen(false);
+	};
+
+	const handleImportFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		if (file) {
+			importRoute(file);
+		}
+		// Reset so the same file can be imported again
+		e.target.value = "";
+	};
+
 	const handleSaveRouteClick = () => {
 		if (!session) {
 			toast.error("Sign in required", {
@@ -180,14 +206,82 @@ export const FloatingMenu = ({ session }: FloatingMenuProps) => {
 							variant="ghost"
 							size="icon"
 							className="size-8"
-							disabled={!hasRoute || isExporting}
-							onClick={exportGpx}
+							onClick={() => importInputRef.current?.click()}
 						>
-							<Download size={16} />
+							<Upload size={16} />
 						</Button>
 					</TooltipTrigger>
-					<TooltipContent side="bottom">Export route as GPX</TooltipContent>
+					<TooltipContent side="bottom">Import GPX or TCX</TooltipContent>
 				</Tooltip>
+				<input
+					ref={importInputRef}
+					type="file"
+					accept=".gpx,.tcx,application/gpx+xml,application/vnd.garmin.tcx+xml"
+					className="hidden"
+					onChange={handleImportFileChange}
+				/>
+
+				<Popover open={isExportMenuOpen} onOpenChange={setIsExportMenuOpen}>
+					<Tooltip>
+						<TooltipTrigger asChild>
+							<PopoverTrigger asChild>
+								<Button
+									variant="ghost"
+									size="icon"
+									className="size-8"
+									disabled={!hasRoute || isExporting}
+								>
+									<Download size={16} />
+								</Button>
+							</PopoverTrigger>
+						</TooltipTrigger>
+						<TooltipContent side="bottom">Export route</TooltipContent>
+					</Tooltip>
+					<PopoverContent className="w-56 p-2" side="bottom" align="end">
+						<div className="space-y-1">
+							<Button
+								variant="ghost"
+								size="sm"
+								className="w-full justify-start"
+								icon={Download}
+								onClick={() => handleExport("gpx")}
+							>
+								GPX track
+							</Button>
+							<Button
+								variant="ghost"
+								size="sm"
+								className="w-full justify-start"
+								icon={Navigation}
+								onClick={() => handleExport("gpx", { includeRoute: true })}
+							>
+								GPX track + route
+							</Button>
+							<Button
+								variant="ghost"
+								size="sm"
+								className="w-full justify-start"
+								icon={Signpost}
+								onClick={() => handleExport("gpx", { includeCues: true })}
+							>
+								GPX track + turn cues
+							</Button>
+							<Separator className="my-1" />
+							{(["tcx", "fit", "kml", "geojson"] as const).map((format) => (
+								<Button
+									key={format}
+									variant="ghost"
+									size="sm"
+									className="w-full justify-start"
+									icon={format === "tcx" || format === "fit" ? Bike : MapIcon}
+									onClick={() => handleExport(format)}
+								>
+									{EXPORT_FORMATS[format].label}
+								</Button>
+							))}
+						</div>
+					</PopoverContent>
+				</Popover>
 
 				<Tooltip>
 					<TooltipTrigger asChild>
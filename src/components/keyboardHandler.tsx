@@ -4,10 +4,32 @@ import { useEffect } from "react";
 import { useMap } from "~/contexts/mapContext";
 
 export const KeyboardHandler = () => {
-	const { undo, redo, canUndo, canRedo } = useMap();
+	const {
+		undo,
+		redo,
+		canUndo,
+		canRedo,
+		draftAvoidArea,
+		finishAvoidArea,
+		cancelAvoidArea,
+	} = useMap();
 
 	useEffect(() => {
 		const handleKeyDown = (event: KeyboardEvent) => {
+			// Enter closes the avoid area being drawn, Escape abandons it
+			if (draftAvoidArea) {
+				if (event.key === "Enter") {
+					event.preventDefault();
+					finishAvoidArea();
+					return;
+				}
+				if (event.key === "Escape") {
+					event.preventDefault();
+					cancelAvoidArea();
+					return;
+				}
+			}
+
 			// Check for Cmd (Meta) key on Mac or Ctrl key on Windows/Linux
 			const isMetaOrCtrl = event.metaKey || event.ctrlKey;
 
@@ -33,7 +55,15 @@ export const KeyboardHandler = () => {
 		return () => {
 			document.removeEventListener("keydown", handleKeyDown);
 		};
-	}, [undo, redo, canUndo, canRedo]);
+	}, [
+		undo,
+		redo,
+		canUndo,
+		canRedo,
+		draftAvoidArea,
+		finishAvoidArea,
+		cancelAvoidArea,
+	]);
 
 	return null;
 };
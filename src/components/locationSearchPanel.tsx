@@ -7,10 +7,13 @@ import {
 	MapPinCheckInside,
 	MapPinPlusInside,
 	Search,
+	Shuffle,
+	SlidersHorizontal,
 	X,
 } from "lucide-react";
 import { useCallback, useMemo, useState } from "react";
 import { useLocalStorage } from "react-use";
+import { ActivityProfilePicker } from "~/components/activityProfilePicker";
 import { Button } from "~/components/button";
 import { Card, CardContent, CardHeader, CardTitle } from "~/components/card";
 import {
@@ -22,12 +25,18 @@ import {
 	CommandList,
 } from "~/components/command";
 import { AppInfoDialog } from "~/components/dialogs/appInfoDialog";
-import { Switch } from "~/components/switch";
+import { RoutingPreferencesDialog } from "~/components/dialogs/routingPreferencesDialog";
+import { OptimiseCheckpointOrder } from "~/components/optimiseCheckpointOrder";
 import { Tooltip, TooltipContent, TooltipTrigger } from "~/components/tooltip";
 import { useMap } from "~/contexts/mapContext";
 import { type GeocodeHit, useGeocoding } from "~/hooks/useGeocoding";
+import { ACTIVITY_PROFILES } from "~/lib/activity-profiles";
 import type { RoutePoint } from "~/lib/graphhopper";
 import { formatDistance } from "~/lib/route-utils";
+import {
+	BUILT_IN_ROUTING_PRESETS,
+	isSamePreferences,
+} from "~/lib/routing-preferences";
 
 type PointType = RoutePoint["type"];
 
@@ -47,7 +56,13 @@ const getPlaceholder = (pointType: PointType, routePoints: RoutePoint[]) => {
 const RECENT_SEARCHES_LIMIT = 5;
 const SEARCH_RESULTS_LIMIT = 10;
 
-export const LocationSearchPanel = () => {
+type LocationSearchPanelProps = {
+	isSignedIn: boolean;
+};
+
+export const LocationSearchPanel = ({
+	isSignedIn,
+}: LocationSearchPanelProps) => {
 	const [searchQuery, setSearchQuery] = useState("");
 	const [isCollapsed, setIsCollapsed] = useState(false);
 	const [manuallySelectedType, setManuallySelectedType] =
@@ -85,11 +100,21 @@ export const LocationSearchPanel = () => {
 		userLocation,
 		handleRemovePoint,
 		setPointFromSearch,
-		preferOffRoad,
-		setPreferOffRoad,
+		activityProfile,
+		setActivityProfile,
+		routingPreferences,
 		reverseRoute,
 	} = useMap();
 
+	const routingPresetName =
+		BUILT_IN_ROUTING_PRESETS.find((preset) =>
+			isSamePreferences(preset.preferences, routingPreferences),
+		)?.name ?? "Custom";
+
+	const checkpointCount = routePoints.filter(
+		(point) => point.type === "checkpoint",
+	).length;
+
 	// Smart default point type selection based on current route state
 	const defaultPointType = useMemo((): PointType => {
 		if (routePoints.length === 0) return "start";
@@ -282,39 +307,77 @@ export const LocationSearchPanel = () => {
 				</Command>
 
 				<div className="space-y-6 pt-6">
-					{/* Vehicle Preference Switch */}
-					<label
-						htmlFor="prefer-off-road"
-						className="flex cursor-pointer items-center justify-between font-medium text-sm"
-					>
-						Prefer off-road
-						<Switch
-							id="prefer-off-road"
-							checked={preferOffRoad}
-							onCheckedChange={setPreferOffRoad}
+					{/* Activity profile */}
+					<div className="space-y-2">
+						<div className="font-medium text-sm">
+							Activity{" "}
+							<span className="font-normal text-muted-foreground">
+								{ACTIVITY_PROFILES[activityProfile].label}
+							</span>
+						</div>
+						<ActivityProfilePicker
+							value={activityProfile}
+							onChange={setActivityProfile}
 						/>
-					</label>
+					</div>
+
+					{/* Surface and road-type preferences */}
+					<div className="flex items-center justify-between font-medium text-sm">
+						<span>
+							Preferences{" "}
+							<span className="font-normal text-muted-foreground">
+								{routingPresetName}
+							</span>
+						</span>
+						<RoutingPreferencesDialog isSignedIn={isSignedIn}>
+							<Button variant="outline" size="sm" icon={SlidersHorizontal}>
+								Edit
+							</Button>
+						</RoutingPreferencesDialog>
+					</div>
 
 					{/* Current Route Points */}
 					{routePoints.length > 0 && (
 						<>
 							<div className="mb-2 flex items-center justify-between">
 								<div className="font-medium text-sm">Current route</div>
-								{routePoints.length >= 2 && (
-									<Tooltip>
-										<TooltipTrigger asChild>
-											<Button
-												variant="ghost"
-												size="icon"
-												onClick={reverseRoute}
-												className="h-7 w-7"
-											>
-												<ArrowDownUp size={14} />
-											</Button>
-										</TooltipTrigger>
-										<TooltipContent side="bottom">Reverse route</TooltipContent>
-									</Tooltip>
-								)}
+								<div className="flex items-center">
+									{checkpointCount >= 2 && (
+										<Tooltip>
+											<OptimiseCheckpointOrder>
+												<TooltipTrigger asChild>
+													<Button
+														variant="ghost"
+														size="icon"
+														className="h-7 w-7"
+													>
+														<Shuffle size={14} />
+													</Button>
+												</TooltipTrigger>
+											</OptimiseCheckpointOrder>
+											<TooltipContent side="bottom">
+												Optimise checkpoint order
+											</TooltipContent>
+										</Tooltip>
+									)}
+									{routePoints.length >= 2 && (
+										<Tooltip>
+											<TooltipTrigger asChild>
+												<Button
+													variant="ghost"
+													size="icon"
+													onClick={reverseRoute}
+													className="h-7 w-7"
+												>
+													<ArrowDownUp size={14} />
+												</Button>
+											</TooltipTrigger>
+											<TooltipContent side="bottom">
+												Reverse route
+											</TooltipContent>
+										</Tooltip>
+									)}
+								</div>
 							</div>
 
 							<div className="space-y-1">
@@ -0,0 +1,125 @@
+"use client";
+
+import { DomEvent } from "leaflet";
+import { LoaderCircle, Mountain, Route, X } from "lucide-react";
+import { Tooltip as LeafletTooltip, Polyline } from "react-leaflet";
+import { Button } from "~/components/button";
+import { useMap } from "~/contexts/mapContext";
+import { processElevationData } from "~/lib/graphhopper";
+import { formatDistance, formatElevation } from "~/lib/route-utils";
+
+// One colour per candidate, also used for its entry in the panel
+const LOOP_CANDIDATE_COLORS = [
+	"#2563eb",
+	"#db2777",
+	"#16a34a",
+	"#ea580c",
+	"#7c3aed",
+];
+
+const getCandidateColor = (index: number) =>
+	LOOP_CANDIDATE_COLORS[index % LOOP_CANDIDATE_COLORS.length];
+
+/**
+ * Generated loops drawn on the map - clicking one loads it as the route
+ */
+export const LoopCandidateRoutes = () => {
+	const { loopCandidates, applyLoopCandidate } = useMap();
+
+	return loopCandidates.map((candidate, index) => (
+		<Polyline
+			// biome-ignore lint/suspicious/noArrayIndexKey: candidates are replaced as a whole
+			key={index}
+			positions={candidate.path.points.coordinates.map(
+				([lng, lat]) => [lat, lng] as [number, number],
+			)}
+			pathOptions={{
+				color: getCandidateColor(index),
+				weight: 5,
+				opacity: 0.7,
+			}}
+			eventHandlers={{
+				click: (e) => {
+					// Don't let the map add a point under the click
+					DomEvent.stopPropagation(e);
+					applyLoopCandidate(index);
+				},
+			}}
+		>
+			<LeafletTooltip sticky>
+				Loop {index + 1} · {formatDistance(candidate.path.distance)}
+			</LeafletTooltip>
+		</Polyline>
+	));
+};
+
+/**
+ * Lists the generated loops with their distance and climbing
+ */
+export const LoopCandidatesPanel = () => {
+	const {
+		loopCandidates,
+		isGeneratingLoops,
+		applyLoopCandidate,
+		clearLoopCandidates,
+		elevationSmoothing,
+	} = useMap();
+
+	if (isGeneratingLoops) {
+		return (
+			<div className="-translate-x-1/2 fixed top-4 left-1/2 z-50 flex items-center gap-2 rounded-lg border border-background bg-background/60 px-3 py-2 text-sm shadow-lg backdrop-blur-sm">
+				<LoaderCircle size={16} className="animate-spin" />
+				Generating loops...
+			</div>
+		);
+	}
+
+	if (loopCandidates.length === 0) return null;
+
+	return (
+		<div className="-translate-x-1/2 fixed top-4 left-1/2 z-50 w-72 space-y-1 rounded-lg border border-background bg-background/60 p-2 text-sm shadow-lg backdrop-blur-sm">
+			<div className="flex items-center justify-between gap-2 pl-1">
+				<span className="font-medium">Pick a loop</span>
+				<Button
+					variant="ghost"
+					size="icon"
+					className="size-7"
+					icon={X}
+					onClick={clearLoopCandidates}
+					aria-label="Discard loops"
+				/>
+			</div>
+			<ul className="space-y-1">
+				{loopCandidates.map((candidate, index) => (
+					// biome-ignore lint/suspicious/noArrayIndexKey: candidates are replaced as a whole
+					<li key={index}>
+						<button
+							type="button"
+							className="flex w-full items-center gap-3 rounded-md px-1 py-1 text-left hover:bg-muted"
+							onClick={() => applyLoopCandidate(index)}
+						>
+							<span
+								className="size-3 shrink-0 rounded-full"
+								style={{ backgroundColor: getCandidateColor(index) }}
+							/>
+							<span className="flex-1">Loop {index + 1}</span>
+							<span className="flex items-center gap-1 text-muted-foreground text-xs">
+								<Route size={12} />
+								{formatDistance(candidate.path.distance)}
+							</span>
+							<span className="flex items-center gap-1 text-muted-foreground text-xs">
+								<Mountain size={12} />
+								{formatElevation(
+									processElevationData(
+										candidate.path.points.coordinates,
+										elevationSmoothing,
+									).stats.totalGain,
+								)}
+							</span>
+						</button>
+					</li>
+				))}
+			</ul>
+		</div>
+	);
+};
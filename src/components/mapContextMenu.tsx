@@ -1,6 +1,13 @@
 "use client";
 
-import { CircleDot, Flag, MapPinCheckInside } from "lucide-react";
+import {
+	Ban,
+	CircleDot,
+	Flag,
+	MapPinCheckInside,
+	Pentagon,
+	Repeat,
+} from "lucide-react";
 import { memo } from "react";
 import { Button } from "~/components/button";
 import { PopoverLatLng } from "~/components/popoverLatLng";
@@ -11,11 +18,12 @@ type MapContextMenuProps = {
 	point: { lat: number; lng: number } | null;
 	isOpen: boolean;
 	onClose: () => void;
+	onGenerateLoop: (point: { lat: number; lng: number }) => void;
 };
 
 export const MapContextMenu = memo(
-	({ point, isOpen, onClose }: MapContextMenuProps) => {
-		const { setPointFromSearch } = useMap();
+	({ point, isOpen, onClose, onGenerateLoop }: MapContextMenuProps) => {
+		const { setPointFromSearch, startAvoidArea, blockRoad } = useMap();
 
 		if (!point || !isOpen) return null;
 
@@ -54,6 +62,42 @@ export const MapContextMenu = memo(
 					>
 						Add waypoint
 					</Button>
+					<Button
+						variant="ghost"
+						size="sm"
+						icon={Repeat}
+						onClick={() => {
+							onGenerateLoop(point);
+							onClose();
+						}}
+						className="justify-start"
+					>
+						Generate loop from here
+					</Button>
+					<Button
+						variant="ghost"
+						size="sm"
+						icon={Ban}
+						onClick={() => {
+							blockRoad(point);
+							onClose();
+						}}
+						className="justify-start"
+					>
+						Block road here
+					</Button>
+					<Button
+						variant="ghost"
+						size="sm"
+						icon={Pentagon}
+						onClick={() => {
+							startAvoidArea(point);
+							onClose();
+						}}
+						className="justify-start"
+					>
+						Draw area to avoid
+					</Button>
 				</div>
 			</PopoverLatLng>
 		);
@@ -0,0 +1,19 @@
+import type * as React from "react";
+
+import { cn } from "~/lib/utils";
+
+function NativeSelect({ className, ...props }: React.ComponentProps<"select">) {
+	return (
+		<select
+			data-slot="native-select"
+			className={cn(
+				"flex h-9 w-full min-w-0 rounded-md border border-input bg-transparent px-2 py-1 text-base shadow-xs outline-none transition-[color,box-shadow] disabled:pointer-events-none disabled:cursor-not-allowed disabled:opacity-50 md:text-sm dark:bg-input/30",
+				"focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50",
+				className,
+			)}
+			{...props}
+		/>
+	);
+}
+
+export { NativeSelect };
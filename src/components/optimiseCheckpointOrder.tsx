@@ -0,0 +1,166 @@
+"use client";
+
+import { Check, Shuffle, X } from "lucide-react";
+import { type ReactNode, useState } from "react";
+import { Button } from "~/components/button";
+import { Label } from "~/components/label";
+import { NativeSelect } from "~/components/nativeSelect";
+import { Popover, PopoverContent, PopoverTrigger } from "~/components/popover";
+import { useMap } from "~/contexts/mapContext";
+import { isLoopRoute } from "~/lib/checkpoint-order";
+import { formatDistance } from "~/lib/route-utils";
+
+type OptimiseCheckpointOrderProps = {
+	children: ReactNode;
+};
+
+/**
+ * Finds the shortest order to visit the route's checkpoints, previewing the
+ * reordered route on the map until it's applied or discarded
+ */
+export const OptimiseCheckpointOrder = ({
+	children,
+}: OptimiseCheckpointOrderProps) => {
+	const {
+		routePoints,
+		checkpointOrderPreview,
+		isOptimisingCheckpoints,
+		optimiseCheckpointOrder,
+		applyCheckpointOrder,
+		discardCheckpointOrder,
+	} = useMap();
+	const [isOpen, setIsOpen] = useState(false);
+	const [finish, setFinish] = useState<"end" | "loop">("end");
+
+	const checkpoints = routePoints.filter(
+		(point) => point.type === "checkpoint",
+	);
+	const hasWaypoints = routePoints.some((point) => point.type === "waypoint");
+	const saving = checkpointOrderPreview
+		? checkpointOrderPreview.currentDistance -
+			checkpointOrderPreview.optimisedDistance
+		: 0;
+
+	const handleOpenChange = (open: boolean) => {
+		setIsOpen(open);
+		if (open) {
+			setFinish(isLoopRoute(routePoints) ? "loop" : "end");
+		} else {
+			discardCheckpointOrder();
+		}
+	};
+
+	return (
+		<Popover open={isOpen} onOpenChange={handleOpenChange}>
+			<PopoverTrigger asChild>{children}</PopoverTrigger>
+			<PopoverContent
+				className="w-80"
+				side="bottom"
+				align="end"
+				// Keep the preview open while panning around the map to look at it
+				onInteractOutside={(e) => e.preventDefault()}
+			>
+				<div className="space-y-3 text-sm">
+					<div>
+						<div className="font-medium">Optimise checkpoint order</div>
+						<p className="text-muted-foreground text-xs">
+							Find the shortest order to visit your {checkpoints.length}{" "}
+							checkpoints.
+						</p>
+					</div>
+
+					<div className="space-y-2">
+						<Label htmlFor="checkpoint-order-finish">Finish</Label>
+						<NativeSelect
+							id="checkpoint-order-finish"
+							value={finish}
+							onChange={(e) => {
+								setFinish(e.target.value as "end" | "loop");
+								discardCheckpointOrder();
+							}}
+						>
+							<option value="end">At the end point</option>
+							<option value="loop">Back at the start</option>
+						</NativeSelect>
+					</div>
+
+					{checkpointOrderPreview && (
+						<div className="space-y-2 rounded-md bg-accent/60 p-2">
+							{saving > 0 ? (
+								<p>
+									Saves{" "}
+									<span className="font-medium">{formatDistance(saving)}</span>{" "}
+									({formatDistance(checkpointOrderPreview.currentDistance)} to{" "}
+									{formatDistance(checkpointOrderPreview.optimisedDistance)})
+								</p>
+							) : (
+								<p>Your checkpoints are already in the shortest order.</p>
+							)}
+							{saving > 0 && (
+								<ol className="list-inside list-decimal text-xs">
+									{checkpointOrderPreview.order.map((index) => (
+										<li key={index}>
+											{checkpoints[index]?.name ?? `Checkpoint ${index + 1}`}
+										</li>
+									))}
+								</ol>
+							)}
+							{checkpointOrderPreview.source === "straight_line" && (
+								<p className="text-muted-foreground text-xs">
+									Estimated from straight-line distances, as the routing engine
+									couldn't compare them.
+								</p>
+							)}
+							{saving > 0 &&
+								checkpointOrderPreview.loop &&
+								!isLoopRoute(routePoints) && (
+									<p className="text-muted-foreground text-xs">
+										The end point moves back to the start.
+									</p>
+								)}
+							{saving > 0 && hasWaypoints && (
+								<p className="text-muted-foreground text-xs">
+									Shaping waypoints are removed, as the legs they shaped change.
+								</p>
+							)}
+						</div>
+					)}
+
+					<div className="flex justify-end gap-2">
+						{checkpointOrderPreview && saving > 0 ? (
+							<>
+								<Button
+									variant="outline"
+									size="sm"
+									icon={X}
+									onClick={discardCheckpointOrder}
+								>
+									Discard
+								</Button>
+								<Button
+									size="sm"
+									icon={Check}
+									onClick={() => {
+										applyCheckpointOrder();
+										setIsOpen(false);
+									}}
+								>
+									Apply
+								</Button>
+							</>
+						) : (
+							<Button
+								size="sm"
+								icon={Shuffle}
+								disabled={isOptimisingCheckpoints}
+								onClick={() => optimiseCheckpointOrder(finish === "loop")}
+							>
+								{isOptimisingCheckpoints ? "Finding order..." : "Find order"}
+							</Button>
+						)}
+					</div>
+				</div>
+			</PopoverContent>
+		</Popover>
+	);
+};
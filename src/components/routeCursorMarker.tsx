@@ -0,0 +1,42 @@
+"use client";
+
+import { useMemo } from "react";
+import { CircleMarker } from "react-leaflet";
+import { useMap } from "~/contexts/mapContext";
+import { interpolateAlongPath } from "~/lib/geo-utils";
+
+/**
+ * Marks the spot on the map being hovered on the elevation chart
+ */
+export const RouteCursorMarker = () => {
+	const { routeCursor, routeCoordinates, elevationData } = useMap();
+
+	const distances = useMemo(
+		() => elevationData.map(({ distance }) => distance),
+		[elevationData],
+	);
+
+	// Hovering the map itself already puts the pointer there
+	if (routeCursor?.source !== "chart") return null;
+
+	const position = interpolateAlongPath(
+		routeCoordinates,
+		distances,
+		routeCursor.distance,
+	);
+	if (!position) return null;
+
+	return (
+		<CircleMarker
+			center={position}
+			radius={7}
+			pathOptions={{
+				color: "var(--color-background)",
+				fillColor: "var(--color-route)",
+				fillOpacity: 1,
+				weight: 3,
+			}}
+			interactive={false}
+		/>
+	);
+};
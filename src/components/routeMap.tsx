@@ -8,15 +8,31 @@ import {
 	useMap as useLeafletMap,
 	useMapEvents,
 } from "react-leaflet";
+import { AlternativeRoutes } from "~/components/alternativeRoutes";
+import { AvoidAreaToolbar, AvoidAreas } from "~/components/avoidAreas";
 import { ColoredRoute } from "~/components/coloredRoute";
+import {
+	ComparisonBanner,
+	ComparisonRoute,
+} from "~/components/comparisonRoute";
+import { LoopGeneratorDialog } from "~/components/dialogs/loopGeneratorDialog";
 import { ElevationDrawer } from "~/components/elevationDrawer";
 import { FloatingMenu } from "~/components/floatingMenu";
 import { KeyboardHandler } from "~/components/keyboardHandler";
 import { LocationSearchPanel } from "~/components/locationSearchPanel";
+import {
+	LoopCandidateRoutes,
+	LoopCandidatesPanel,
+} from "~/components/loopCandidates";
 import { MapContextMenu } from "~/components/mapContextMenu";
+import { RouteCursorMarker } from "~/components/routeCursorMarker";
 import { RoutePoints } from "~/components/routePoints";
+import { SelectedSection } from "~/components/selectedSection";
+import { SharedRouteHeader } from "~/components/sharedRouteHeader";
+import { SnapConnectors } from "~/components/snapConnectors";
+import { StageEnds } from "~/components/stageEnds";
 import { UserLocationMarker } from "~/components/userLocationMarker";
-import { MapProvider, useMap } from "~/contexts/mapContext";
+import { MapProvider, type SharedRoute, useMap } from "~/contexts/mapContext";
 
 type MapProps = {
 	className?: string;
@@ -27,15 +43,34 @@ type MapProps = {
 			image?: string | null;
 		};
 	} | null;
+	/** Render a published route read-only, without the planning tools */
+	sharedRoute?: SharedRoute;
 };
 
-export const RouteMap = ({ className = "", session }: MapProps) => {
+export const RouteMap = ({
+	className = "",
+	session,
+	sharedRoute,
+}: MapProps) => {
+	if (sharedRoute) {
+		return (
+			<MapProvider sharedRoute={sharedRoute}>
+				<MapContent className={className} />
+				<SharedRouteHeader />
+				<ElevationDrawer />
+			</MapProvider>
+		);
+	}
+
 	return (
-		<MapProvider>
+		<MapProvider isSignedIn={!!session?.user}>
 			<KeyboardHandler />
 			<MapContent className={className} />
-			<LocationSearchPanel />
+			<LocationSearchPanel isSignedIn={!!session?.user} />
 			<FloatingMenu session={session ?? null} />
+			<ComparisonBanner />
+			<LoopCandidatesPanel />
+			<AvoidAreaToolbar />
 			<ElevationDrawer />
 		</MapProvider>
 	);
@@ -48,10 +83,15 @@ const MapClickHandler = () => {
 		lat: number;
 		lng: number;
 	} | null>(null);
+	const [loopStart, setLoopStart] = useState<{
+		lat: number;
+		lng: number;
+	} | null>(null);
 
 	useMapEvents({
 		click: (e) => {
-			handleMapClick(e.latlng);
+			// Shift-click reaches the new point in a straight line
+			handleMapClick(e.latlng, { direct: e.originalEvent.shiftKey });
 		},
 		contextmenu: (e) => {
 			e.originalEvent.preventDefault();
@@ -60,11 +100,18 @@ const MapClickHandler = () => {
 	});
 
 	return (
-		<MapContextMenu
-			point={contextMenuPoint}
-			isOpen={!!contextMenuPoint}
-			onClose={() => setContextMenuPoint(null)}
-		/>
+		<>
+			<MapContextMenu
+				point={contextMenuPoint}
+				isOpen={!!contextMenuPoint}
+				onClose={() => setContextMenuPoint(null)}
+				onGenerateLoop={setLoopStart}
+			/>
+			<LoopGeneratorDialog
+				start={loopStart}
+				onClose={() => setLoopStart(null)}
+			/>
+		</>
 	);
 };
 
@@ -109,8 +156,13 @@ const LocationHandler = () => {
 };
 
 const MapContent = ({ className }: { className: string }) => {
-	const { routeCoordinates, handleRouteClick, isCalculating, mapCenter } =
-		useMap();
+	const {
+		routeCoordinates,
+		handleRouteClick,
+		isCalculating,
+		mapCenter,
+		isReadOnly,
+	} = useMap();
 
 	return (
 		<div className={`h-full w-full ${className}`}>
@@ -129,10 +181,15 @@ const MapContent = ({ className }: { className: string }) => {
 					zoomOffset={-1}
 				/>
 
-				<MapClickHandler />
+				{!isReadOnly && <MapClickHandler />}
 				<LocationHandler />
 				<RoutePoints />
 				<UserLocationMarker />
+				<AvoidAreas />
+				<ComparisonRoute />
+				{!isReadOnly && <LoopCandidateRoutes />}
+				<AlternativeRoutes />
+				<SelectedSection />
 
 				{routeCoordinates.length > 0 && (
 					<ColoredRoute
@@ -140,6 +197,9 @@ const MapContent = ({ className }: { className: string }) => {
 						onRouteClick={handleRouteClick}
 					/>
 				)}
+				<SnapConnectors />
+				<StageEnds />
+				<RouteCursorMarker />
 			</MapContainer>
 
 			{/* Loading indicator */}
@@ -1,11 +1,14 @@
-import { Trash2 } from "lucide-react";
+import { MapPinned, Slash, Trash2, TriangleAlert } from "lucide-react";
 import { memo, useMemo, useState } from "react";
-import { Marker } from "react-leaflet";
+import { CircleMarker, Tooltip as LeafletTooltip, Marker } from "react-leaflet";
 import { Button } from "~/components/button";
 import { PopoverLatLng } from "~/components/popoverLatLng";
+import { Switch } from "~/components/switch";
 import { useMap } from "~/contexts/mapContext";
 import { useMapIcons } from "~/hooks/useMapIcons";
 import type { RoutePoint } from "~/lib/graphhopper";
+import { formatDistance } from "~/lib/route-utils";
+import { ROUTING_ERROR_SUGGESTIONS } from "~/lib/routing-errors";
 
 // Utility type for checkpoints (must have a name)
 export type CheckpointPoint = RoutePoint & {
@@ -38,7 +41,17 @@ type RoutePointMarkerProps = {
 };
 
 const RoutePointMarker = memo(({ point, index }: RoutePointMarkerProps) => {
-	const { handleRemovePoint, handleMovePoint } = useMap();
+	const {
+		handleRemovePoint,
+		handleMovePoint,
+		toggleDirectLeg,
+		toggleOvernightStop,
+		routeError,
+		snapGaps,
+		snapWarningDistance,
+		moveToSnappedLocation,
+		isReadOnly,
+	} = useMap();
 	const customIcons = useMapIcons();
 	const [openPopover, setOpenPopover] = useState(false);
 	const [isDragging, setIsDragging] = useState(false);
@@ -60,12 +73,38 @@ const RoutePointMarker = memo(({ point, index }: RoutePointMarkerProps) => {
 
 	if (!icon) return null;
 
+	// The last calculation failed because of this point
+	const error = routeError?.pointIndex === index ? routeError : null;
+	// Routed from further away than the user wants to be warned about
+	const snapGap = snapGaps.find(
+		(gap) => gap.index === index && gap.distance > snapWarningDistance,
+	);
+	const canUseStraightLine =
+		!!error &&
+		error.reason === "point_not_found" &&
+		!isReadOnly &&
+		index > 0 &&
+		!point.direct;
+
 	return (
 		<>
+			{error && (
+				<CircleMarker
+					center={[point.lat, point.lng]}
+					radius={18}
+					pathOptions={{
+						color: "var(--color-destructive)",
+						fillColor: "var(--color-destructive)",
+						fillOpacity: 0.2,
+						weight: 2,
+					}}
+					interactive={false}
+				/>
+			)}
 			<Marker
 				position={[point.lat, point.lng]}
 				icon={icon}
-				draggable={true}
+				draggable={!isReadOnly}
 				eventHandlers={{
 					click: (e) => {
 						e.originalEvent.stopPropagation();
@@ -88,7 +127,15 @@ const RoutePointMarker = memo(({ point, index }: RoutePointMarkerProps) => {
 						setTimeout(() => setIsDragging(false), 100);
 					},
 				}}
-			/>
+			>
+				{error && !openPopover && (
+					<LeafletTooltip permanent direction="top" offset={[0, -28]}>
+						<span className="block max-w-[220px] whitespace-normal">
+							{ROUTING_ERROR_SUGGESTIONS[error.reason]}
+						</span>
+					</LeafletTooltip>
+				)}
+			</Marker>
 			<PopoverLatLng
 				point={point}
 				isOpen={openPopover}
@@ -96,17 +143,84 @@ const RoutePointMarker = memo(({ point, index }: RoutePointMarkerProps) => {
 			>
 				<div className="flex flex-col gap-2">
 					<div className="font-medium text-sm">{pointLabel}</div>
-					<Button
-						variant="destructive"
-						size="sm"
-						icon={Trash2}
-						onClick={() => {
-							handleRemovePoint(index);
-							setOpenPopover(false);
-						}}
-					>
-						Remove waypoint
-					</Button>
+					{error && (
+						<p className="max-w-[220px] text-destructive text-xs">
+							{error.message}
+						</p>
+					)}
+					{snapGap && (
+						<>
+							<p className="flex max-w-[220px] items-start gap-1 text-amber-600 text-xs">
+								<TriangleAlert className="size-3.5 shrink-0" />
+								Routed from {formatDistance(snapGap.distance)} away
+							</p>
+							{!isReadOnly && (
+								<Button
+									variant="outline"
+									size="sm"
+									icon={MapPinned}
+									onClick={() => {
+										moveToSnappedLocation(index);
+										setOpenPopover(false);
+									}}
+								>
+									Move point to snapped location
+								</Button>
+							)}
+						</>
+					)}
+					{canUseStraightLine && (
+						<Button
+							variant="outline"
+							size="sm"
+							icon={Slash}
+							onClick={() => {
+								toggleDirectLeg(index);
+								setOpenPopover(false);
+							}}
+						>
+							Use a straight line here
+						</Button>
+					)}
+					{!isReadOnly && index > 0 && (
+						<label
+							htmlFor={`direct-leg-${index}`}
+							className="flex cursor-pointer items-center justify-between gap-3 text-sm"
+						>
+							Straight line from previous
+							<Switch
+								id={`direct-leg-${index}`}
+								checked={!!point.direct}
+								onCheckedChange={() => toggleDirectLeg(index)}
+							/>
+						</label>
+					)}
+					{!isReadOnly && point.type === "checkpoint" && (
+						<label
+							htmlFor={`overnight-stop-${index}`}
+							className="flex cursor-pointer items-center justify-between gap-3 text-sm"
+						>
+							Overnight stop
+							<Switch
+								id={`overnight-stop-${index}`}
+								checked={!!point.overnight}
+								onCheckedChange={() => toggleOvernightStop(index)}
+							/>
+						</label>
+					)}
+					{!isReadOnly && (
+						<Button
+							variant="destructive"
+							size="sm"
+							icon={Trash2}
+							onClick={() => {
+								handleRemovePoint(index);
+								setOpenPopover(false);
+							}}
+						>
+							Remove waypoint
+						</Button>
+					)}
 				</div>
 			</PopoverLatLng>
 		</>
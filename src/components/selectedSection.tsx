@@ -0,0 +1,29 @@
+"use client";
+
+import { Polyline } from "react-leaflet";
+import { useMap } from "~/contexts/mapContext";
+
+/**
+ * Glow beneath the stretch of route picked on the elevation chart
+ */
+export const SelectedSection = () => {
+	const { selectedSection, routeCoordinates } = useMap();
+
+	if (!selectedSection) return null;
+
+	return (
+		<Polyline
+			positions={routeCoordinates.slice(
+				selectedSection.startIndex,
+				selectedSection.endIndex + 1,
+			)}
+			pathOptions={{
+				color: "#facc15",
+				weight: 14,
+				opacity: 0.7,
+				lineCap: "round",
+			}}
+			interactive={false}
+		/>
+	);
+};
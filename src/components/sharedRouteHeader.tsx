@@ -0,0 +1,87 @@
+"use client";
+
+import { Mountain, Pencil, Route } from "lucide-react";
+import Link from "next/link";
+import { ACTIVITY_PROFILE_ICONS } from "~/components/activityProfilePicker";
+import { Button } from "~/components/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "~/components/card";
+import { useMap } from "~/contexts/mapContext";
+import { ACTIVITY_PROFILES } from "~/lib/activity-profiles";
+import { encodeAvoidAreasForUrl } from "~/lib/avoid-areas";
+import { encodeRouteToUrl } from "~/lib/route-encoding";
+import { formatDistance, formatElevation } from "~/lib/route-utils";
+import {
+	encodePreferencesForUrl,
+	isDefaultPreferences,
+} from "~/lib/routing-preferences";
+import { encodeStagePlanForUrl } from "~/lib/stages";
+
+/**
+ * Title card for the public share page, with a way into the planner
+ */
+export const SharedRouteHeader = () => {
+	const { sharedRoute, routeDistance, elevationGain } = useMap();
+
+	if (!sharedRoute) return null;
+
+	const ProfileIcon = ACTIVITY_PROFILE_ICONS[sharedRoute.activityProfile];
+
+	// Opening in the planner starts a new, unsaved copy of the route
+	const params = new URLSearchParams();
+	const encoded = encodeRouteToUrl(sharedRoute.routePoints);
+	if (encoded) params.set("route", encoded);
+	params.set("profile", sharedRoute.activityProfile);
+	if (!isDefaultPreferences(sharedRoute.routingPreferences)) {
+		params.set(
+			"prefs",
+			encodePreferencesForUrl(sharedRoute.routingPreferences),
+		);
+	}
+	if (sharedRoute.avoidAreas.length > 0) {
+		params.set("avoid", encodeAvoidAreasForUrl(sharedRoute.avoidAreas));
+	}
+	if (sharedRoute.stagePlan) {
+		params.set("stages", encodeStagePlanForUrl(sharedRoute.stagePlan));
+	}
+
+	return (
+		<Card className="fixed top-4 left-4 z-50 w-80 max-w-[calc(100vw-2rem)] border border-background bg-background/60 shadow-lg backdrop-blur-sm">
+			<CardHeader>
+				<CardTitle className="truncate">{sharedRoute.title}</CardTitle>
+				{sharedRoute.description && (
+					<CardDescription className="line-clamp-3">
+						{sharedRoute.description}
+					</CardDescription>
+				)}
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<ul className="flex items-center gap-4 text-muted-foreground text-sm">
+					<li className="flex items-center gap-1">
+						<Route size={14} />
+						<span>{formatDistance(routeDistance)}</span>
+					</li>
+					<li className="flex items-center gap-1">
+						<Mountain size={14} />
+						<span>{formatElevation(elevationGain)}</span>
+					</li>
+					<li className="flex items-center gap-1">
+						<ProfileIcon size={14} />
+						<span>{ACTIVITY_PROFILES[sharedRoute.activityProfile].label}</span>
+					</li>
+				</ul>
+				<Button variant="outline" size="sm" asChild>
+					<Link href={`/?${params.toString()}`}>
+						<Pencil />
+						Open in planner
+					</Link>
+				</Button>
+			</CardContent>
+		</Card>
+	);
+};
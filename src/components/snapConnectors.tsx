@@ -0,0 +1,145 @@
+"use client";
+
+import { DomEvent } from "leaflet";
+import { MapPinned } from "lucide-react";
+import { useState } from "react";
+import {
+	CircleMarker,
+	Tooltip as LeafletTooltip,
+	Polyline,
+} from "react-leaflet";
+import { Button } from "~/components/button";
+import { NativeSelect } from "~/components/nativeSelect";
+import { PopoverLatLng } from "~/components/popoverLatLng";
+import { useMap } from "~/contexts/mapContext";
+import { formatDistance } from "~/lib/route-utils";
+import {
+	SNAP_WARNING_DISTANCE_OPTIONS,
+	type SnapGap,
+} from "~/lib/snapped-points";
+
+const CONNECTOR_COLOR = "#6b7280";
+const WARNING_COLOR = "#f59e0b";
+
+/**
+ * Dashed connectors from each route point to where the engine joined it to
+ * the network, highlighted when the gap is over the warning distance
+ */
+export const SnapConnectors = () => {
+	const { snapGaps, snapWarningDistance } = useMap();
+	const [selected, setSelected] = useState<SnapGap | null>(null);
+
+	return (
+		<>
+			{snapGaps.map((gap) => {
+				const isWarning = gap.distance > snapWarningDistance;
+				const color = isWarning ? WARNING_COLOR : CONNECTOR_COLOR;
+
+				return (
+					<Polyline
+						key={`${gap.index}-${gap.snapped.lat}-${gap.snapped.lng}`}
+						positions={[
+							[gap.point.lat, gap.point.lng],
+							[gap.snapped.lat, gap.snapped.lng],
+						]}
+						pathOptions={{
+							color,
+							weight: isWarning ? 3 : 2,
+							dashArray: "4 6",
+						}}
+						eventHandlers={{
+							click: (e) => {
+								// Don't let the map add a point under the click
+								DomEvent.stopPropagation(e);
+								setSelected(gap);
+							},
+						}}
+					>
+						{isWarning && (
+							<LeafletTooltip sticky>
+								Routed from {formatDistance(gap.distance)} away
+							</LeafletTooltip>
+						)}
+					</Polyline>
+				);
+			})}
+
+			{snapGaps.map((gap) => (
+				<CircleMarker
+					key={`snapped-${gap.index}`}
+					center={[gap.snapped.lat, gap.snapped.lng]}
+					radius={3}
+					pathOptions={{
+						color:
+							gap.distance > snapWarningDistance
+								? WARNING_COLOR
+								: CONNECTOR_COLOR,
+						fillOpacity: 1,
+					}}
+					interactive={false}
+				/>
+			))}
+
+			{selected && (
+				<SnapGapActions gap={selected} onClose={() => setSelected(null)} />
+			)}
+		</>
+	);
+};
+
+const SnapGapActions = ({
+	gap,
+	onClose,
+}: {
+	gap: SnapGap;
+	onClose: () => void;
+}) => {
+	const {
+		moveToSnappedLocation,
+		snapWarningDistance,
+		setSnapWarningDistance,
+		isReadOnly,
+	} = useMap();
+
+	return (
+		<PopoverLatLng point={gap.snapped} isOpen onClose={onClose}>
+			<div className="flex max-w-[240px] flex-col gap-2 text-sm">
+				<p>
+					This point joins the route{" "}
+					<span className="font-medium">{formatDistance(gap.distance)}</span>{" "}
+					away, where the nearest road or path is.
+				</p>
+				{!isReadOnly && (
+					<Button
+						size="sm"
+						icon={MapPinned}
+						onClick={() => {
+							moveToSnappedLocation(gap.index);
+							onClose();
+						}}
+					>
+						Move point to snapped location
+					</Button>
+				)}
+				<label
+					htmlFor="snap-warning-distance"
+					className="flex items-center justify-between gap-2 text-muted-foreground text-xs"
+				>
+					Warn when further than
+					<NativeSelect
+						id="snap-warning-distance"
+						value={snapWarningDistance}
+						onChange={(e) => setSnapWarningDistance(Number(e.target.value))}
+						className="h-7 w-20"
+					>
+						{SNAP_WARNING_DISTANCE_OPTIONS.map((distance) => (
+							<option key={distance} value={distance}>
+								{formatDistance(distance)}
+							</option>
+						))}
+					</NativeSelect>
+				</label>
+			</div>
+		</PopoverLatLng>
+	);
+};
@@ -0,0 +1,38 @@
+"use client";
+
+import { CircleMarker, Tooltip as LeafletTooltip } from "react-leaflet";
+import { useMap } from "~/contexts/mapContext";
+
+/**
+ * Marks where each stage of a multi-day route finishes
+ */
+export const StageEnds = () => {
+	const { stages, routeCoordinates } = useMap();
+
+	if (stages.length < 2) return null;
+
+	// The last stage ends at the route's end marker
+	return stages.slice(0, -1).map((stage) => {
+		const position = routeCoordinates[stage.endIndex];
+		if (!position) return null;
+
+		return (
+			<CircleMarker
+				key={`stage-end-${stage.number}-${stage.endIndex}`}
+				center={position}
+				radius={6}
+				pathOptions={{
+					color: "var(--color-background)",
+					fillColor: "var(--color-foreground)",
+					fillOpacity: 1,
+					weight: 2,
+				}}
+			>
+				<LeafletTooltip direction="top">
+					End of stage {stage.number}
+					{stage.endName && ` - ${stage.endName}`}
+				</LeafletTooltip>
+			</CircleMarker>
+		);
+	});
+};
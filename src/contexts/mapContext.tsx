@@ -18,27 +18,171 @@ import {
 	useCopyToClipboard,
 	useDebounce,
 	useGeolocation,
+	useLocalStorage,
 	useMount,
 } from "react-use";
 import { toast } from "sonner";
 import type { z } from "zod";
+import { env } from "~/env";
+import {
+	type ActivityProfileId,
+	DEFAULT_ACTIVITY_PROFILE,
+	getLegacyActivityProfile,
+	isActivityProfileId,
+} from "~/lib/activity-profiles";
+import {
+	type AvoidArea,
+	MAX_AVOID_AREAS,
+	createAvoidAreaId,
+	createBlockedRoad,
+	decodeAvoidAreasFromUrl,
+	encodeAvoidAreasForUrl,
+	isSameAvoidAreas,
+	parseStoredAvoidAreas,
+} from "~/lib/avoid-areas";
+import {
+	type CheckpointOrderPreview,
+	buildReorderedRoutePoints,
+} from "~/lib/checkpoint-order";
+import {
+	type Cue,
+	buildCueSheet,
+	generateCueSheetCsv,
+	generateCueSheetHtml,
+} from "~/lib/cue-sheet";
+import {
+	DEFAULT_ELEVATION_SMOOTHING,
+	type ElevationSmoothing,
+	parseStoredElevationSmoothing,
+	smoothCoordinateElevations,
+} from "~/lib/elevation-smoothing";
+import { projectOntoPath } from "~/lib/geo-utils";
 import { calculateDistanceToSegment } from "~/lib/geometry";
-import type { RoutePoint } from "~/lib/graphhopper";
+import {
+	type Climb,
+	DEFAULT_GRADIENT_WINDOW,
+	type GradientWindow,
+	computeSegmentGrades,
+	detectClimbs,
+	isGradientWindow,
+} from "~/lib/gradients";
+import type { LoopCandidate, RoutePoint } from "~/lib/graphhopper";
 import type {
 	ElevationChartData,
 	RouteResponseSchema,
 } from "~/lib/graphhopper";
 import { processElevationData } from "~/lib/graphhopper";
+import {
+	type CustomSurfaceSpeeds,
+	type SurfaceSpeeds,
+	estimateMovingTime,
+	getSurfaceSpeeds,
+	parseStoredSurfaceSpeeds,
+} from "~/lib/moving-time";
+import {
+	type RouteSummary,
+	buildAlternativeRoutePoints,
+	summarizeRoutePath,
+} from "~/lib/route-alternatives";
 import { decodeRouteFromUrl, encodeRouteToUrl } from "~/lib/route-encoding";
+import {
+	DEFAULT_ROUTE_NAME,
+	EXPORT_FORMATS,
+	type ExportFormat,
+} from "~/lib/route-export";
+import { buildRoutePointsFromTrack, parseRouteFile } from "~/lib/route-import";
+import {
+	type SectionStats,
+	getRoutePointsInSection,
+	getSectionStats,
+	sliceInstructions,
+	sliceIntervalDetails,
+} from "~/lib/route-sections";
+import {
+	formatDelta,
+	formatDistance,
+	formatElevation,
+	isSameRoutePoints,
+} from "~/lib/route-utils";
+import {
+	MAX_ROUTING_RETRIES,
+	type RoutingErrorData,
+	getRoutingRetryDelay,
+} from "~/lib/routing-errors";
+import {
+	DEFAULT_ROUTING_PREFERENCES,
+	type RoutingPreferences,
+	decodePreferencesFromUrl,
+	encodePreferencesForUrl,
+	isDefaultPreferences,
+	isSamePreferences,
+	parseStoredPreferences,
+} from "~/lib/routing-preferences";
+import type { RoutePath, RouteResponse } from "~/lib/routing/types";
+import {
+	DEFAULT_SNAP_WARNING_DISTANCE,
+	type SnapGap,
+	getSnapGaps,
+} from "~/lib/snapped-points";
+import {
+	type Stage,
+	type StagePlan,
+	buildStages,
+	decodeStagePlanFromUrl,
+	encodeStagePlanForUrl,
+} from "~/lib/stages";
 import { api } from "~/trpc/react";
 
-// Route calculation options (will be updated with vehicle preference)
-const getRouteOptions = (preferOffRoad: boolean) =>
+// Route calculation options for the chosen activity profile
+const getRouteOptions = (
+	profile: ActivityProfileId,
+	preferences: RoutingPreferences,
+	avoidAreas: AvoidArea[],
+) =>
 	({
 		elevation: true,
-		vehicle: preferOffRoad ? "hike" : "bike",
+		profile,
+		// Defaults are left to the engine, which keeps the faster GET route requests
+		preferences: isDefaultPreferences(preferences) ? undefined : preferences,
+		avoidAreas,
 	}) as const;
 
+// Save a blob through a temporary link
+const downloadBlob = (blob: Blob, fileName: string) => {
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = fileName;
+	document.body.appendChild(link);
+	link.click();
+	document.body.removeChild(link);
+	URL.revokeObjectURL(url);
+};
+
+// Trigger a browser download for an exported route file
+const downloadExport = (
+	content: string,
+	format: ExportFormat,
+	fileName = "route",
+) => {
+	const { extension, label, mimeType } = EXPORT_FORMATS[format];
+
+	// FIT is binary, so the server sends it base64-encoded
+	const data =
+		format === "fit"
+			? Uint8Array.from(atob(content), (c) => c.charCodeAt(0))
+			: content;
+
+	downloadBlob(
+		new Blob([data], { type: mimeType }),
+		`${fileName}.${extension}`,
+	);
+
+	toast.success("Route exported successfully", {
+		description: `Your ${label} file has been downloaded`,
+	});
+};
+
 // History management configuration
 const HISTORY_LIMIT_LENGTH = 50;
 
@@ -119,6 +263,38 @@ function historyReducer(
 	}
 }
 
+// Published route shown read-only on the public share page
+export type SharedRoute = {
+	title: string;
+	description: string | null;
+	routePoints: RoutePoint[];
+	activityProfile: ActivityProfileId;
+	routingPreferences: RoutingPreferences;
+	avoidAreas: AvoidArea[];
+	stagePlan: StagePlan | null;
+	/** Geometry stored when the route was saved */
+	routeResponse: RouteResponse | null;
+};
+
+// Failed calculation, with the reason the server gave
+export type RouteError = RoutingErrorData & { message: string };
+
+export type RouteColorMode = "surface" | "gradient";
+
+// Stretch of the route between two of its coordinates
+export type RouteSection = { startIndex: number; endIndex: number };
+
+// Point along the route under the pointer, in km from the start like the chart
+export type RouteCursor = { distance: number; source: "chart" | "map" };
+
+// Secondary route drawn under the active one, e.g. an earlier saved revision
+export type ComparisonRoute = {
+	label: string;
+	coordinates: [number, number][];
+	distance: number;
+	elevationGain: number;
+};
+
 type MapContextType = {
 	// State
 	routePoints: RoutePoint[];
@@ -126,6 +302,17 @@ type MapContextType = {
 	isCalculating: boolean;
 	isExporting: boolean;
 	hasRoute: boolean;
+	routeResponse: RouteResponse | null;
+
+	// Stored geometry state - true while showing a saved route as it was saved
+	isStoredRoute: boolean;
+	routeError: RouteError | null;
+
+	// Points the engine joined to the network some way off, and when that's worth a warning
+	snapGaps: SnapGap[];
+	snapWarningDistance: number;
+	setSnapWarningDistance: (distance: number) => void;
+	storedRoadDataTimestamp: string | null;
 
 	// Elevation data
 	elevationData: ElevationChartData;
@@ -133,9 +320,47 @@ type MapContextType = {
 	elevationLoss: number;
 	routeDistance: number;
 
+	// How noise is taken out of the elevations behind every climbing figure
+	elevationSmoothing: ElevationSmoothing;
+	setElevationSmoothing: (method: ElevationSmoothing) => void;
+
+	// Moving time estimate (ms) and the speeds it uses for the current activity
+	movingTime: number;
+	surfaceSpeeds: SurfaceSpeeds;
+	customSurfaceSpeeds: CustomSurfaceSpeeds;
+	// null goes back to the activity's default speeds
+	setSurfaceSpeeds: (speeds: SurfaceSpeeds | null) => void;
+
 	// Surface data
 	surfaceData: Array<[number, number, string]>;
 
+	// Turn-by-turn cues from the routing instructions
+	cues: Cue[];
+
+	// Multi-day split of the route, null for a single day
+	stagePlan: StagePlan | null;
+	stages: Stage[];
+
+	// Steepness of each route segment over the chosen window, and the climbs found
+	segmentGrades: number[];
+	climbs: Climb[];
+	gradientWindow: GradientWindow;
+	setGradientWindow: (window: GradientWindow) => void;
+
+	// Stretch picked on the elevation chart, with its stats
+	selectedSection: RouteSection | null;
+	sectionStats: SectionStats | null;
+	setSelectedSection: (section: RouteSection | null) => void;
+
+	// Point along the route hovered on the chart or the map, shown on the other
+	routeCursor: RouteCursor | null;
+	setRouteCursor: (cursor: RouteCursor | null) => void;
+	moveRouteCursorTo: (latlng: { lat: number; lng: number }) => void;
+
+	// What the route line is coloured by
+	routeColorMode: RouteColorMode;
+	setRouteColorMode: (mode: RouteColorMode) => void;
+
 	// Location state
 	userLocation: {
 		latitude: number | null;
@@ -148,8 +373,36 @@ type MapContextType = {
 	// Current route state
 	routeId: number | null;
 
-	// Vehicle preference state
-	preferOffRoad: boolean;
+	// Read-only share page state (null while planning)
+	sharedRoute: SharedRoute | null;
+	isReadOnly: boolean;
+
+	// Route comparison state
+	comparisonRoute: ComparisonRoute | null;
+
+	// Alternative routes returned alongside the active one
+	activeRouteSummary: RouteSummary | null;
+	alternativeRoutes: AlternativeRoute[];
+	highlightedAlternative: number | null;
+
+	// Loop generator state
+	loopCandidates: LoopCandidate[];
+	isGeneratingLoops: boolean;
+
+	// Checkpoint order suggestion, previewed on the map until applied
+	checkpointOrderPreview: CheckpointOrderPreview | null;
+	isOptimisingCheckpoints: boolean;
+
+	// Activity profile and routing preference state
+	activityProfile: ActivityProfileId;
+	routingPreferences: RoutingPreferences;
+
+	// Avoid areas - the route's own, and the signed-in user's saved ones
+	routeAvoidAreas: AvoidArea[];
+	savedAvoidAreas: SavedAvoidArea[];
+	canSaveAvoidAreas: boolean;
+	// Corners placed so far while drawing an area, null when not drawing
+	draftAvoidArea: Array<{ lat: number; lng: number }> | null;
 
 	// Drawer state
 	isDrawerOpen: boolean;
@@ -159,16 +412,27 @@ type MapContextType = {
 	canRedo: boolean;
 
 	// Actions
-	handleMapClick: (latlng: LatLng) => void;
+	// `direct` reaches the new point in a straight line instead of along the network
+	handleMapClick: (latlng: LatLng, options?: { direct?: boolean }) => void;
 	handleRouteClick: (latlng: LatLng) => void;
 	handleRemovePoint: (index: number) => void;
+	toggleDirectLeg: (index: number) => void;
+	toggleOvernightStop: (index: number) => void;
+	setStagePlan: (plan: StagePlan | null) => void;
+	exportStage: (stageNumber: number) => void;
+	exportSection: () => void;
+	moveToSnappedLocation: (index: number) => void;
 	handleMovePoint: (
 		index: number,
 		newLatLng: { lat: number; lng: number },
 	) => void;
 	undo: () => void;
 	redo: () => void;
-	exportGpx: () => void;
+	exportRoute: (
+		format: ExportFormat,
+		options?: { includeRoute?: boolean; includeCues?: boolean },
+	) => void;
+	exportCueSheet: (format: "csv" | "print") => void;
 	toggleDrawer: (open: boolean) => void;
 	shareRoute: () => void;
 	clearRoute: () => void;
@@ -180,27 +444,84 @@ type MapContextType = {
 	loadRoute: (
 		savedRouteId: number,
 		routeData: RoutePoint[],
-		routePreference?: string,
+		activityProfile?: ActivityProfileId,
+		routingPreferences?: RoutingPreferences,
+		avoidAreas?: AvoidArea[],
+		stagePlan?: StagePlan | null,
 	) => void;
-	duplicateRoute: (routeData: RoutePoint[]) => void;
+	duplicateRoute: (
+		routeData: RoutePoint[],
+		activityProfile?: ActivityProfileId,
+		routingPreferences?: RoutingPreferences,
+		avoidAreas?: AvoidArea[],
+		stagePlan?: StagePlan | null,
+	) => void;
+	importRoute: (file: File) => Promise<void>;
 	setPointFromSearch: (
 		latlng: { lat: number; lng: number },
 		pointType: RoutePoint["type"],
 		name?: string,
 	) => void;
-	setPreferOffRoad: (preferOffRoad: boolean) => void;
+	setActivityProfile: (profile: ActivityProfileId) => void;
+	setRoutingPreferences: (preferences: RoutingPreferences) => void;
+	showComparisonRoute: (
+		routeData: RoutePoint[],
+		profile: ActivityProfileId,
+		label: string,
+		preferences?: RoutingPreferences,
+		avoidAreas?: AvoidArea[],
+	) => void;
+	clearComparisonRoute: () => void;
+	rerouteWithLatestMapData: () => void;
+	generateLoops: (
+		start: { lat: number; lng: number },
+		distance: number,
+		heading?: number,
+	) => void;
+	applyLoopCandidate: (index: number) => void;
+	clearLoopCandidates: () => void;
+	// `loop` returns to the start instead of finishing at the end point
+	optimiseCheckpointOrder: (loop: boolean) => void;
+	applyCheckpointOrder: () => void;
+	discardCheckpointOrder: () => void;
+	setHighlightedAlternative: (index: number | null) => void;
+	promoteAlternativeRoute: (index: number) => void;
+	startAvoidArea: (firstCorner: { lat: number; lng: number }) => void;
+	finishAvoidArea: () => void;
+	cancelAvoidArea: () => void;
+	blockRoad: (point: { lat: number; lng: number }) => void;
+	removeAvoidArea: (id: string) => void;
+	saveAvoidAreaForAllRoutes: (id: string) => void;
+	deleteSavedAvoidArea: (id: number) => void;
+};
+
+// Area from the user's own list, applied to every route they plan
+export type SavedAvoidArea = Omit<AvoidArea, "id"> & { id: number };
+
+// Alternative path from the routing engine, drawn muted beside the active route
+export type AlternativeRoute = {
+	coordinates: [number, number][]; // [lat, lng]
+	summary: RouteSummary;
 };
 
 const MapContext = createContext<MapContextType | null>(null);
 
 type MapProviderProps = {
 	children: ReactNode;
+	/** Show a published route read-only instead of the route in the URL */
+	sharedRoute?: SharedRoute;
+	/** Signed-in users' saved avoid areas apply to every route */
+	isSignedIn?: boolean;
 };
 
 // Type for the API response
 type RouteApiResponse = z.infer<typeof RouteResponseSchema>;
 
-export const MapProvider = ({ children }: MapProviderProps) => {
+export const MapProvider = ({
+	children,
+	sharedRoute,
+	isSignedIn = false,
+}: MapProviderProps) => {
 	// Store the complete API response
 	const [routeApiData, setRouteApiData] = useState<RouteApiResponse | null>(
 		null,
@@ -214,14 +535,39 @@ export const MapProvider = ({ children }: MapProviderProps) => {
 		? apiCoordinates.map((coord) => [coord[1], coord[0]] as [number, number])
 		: [];
 
-	const elevationStats = apiCoordinates
-		? processElevationData(apiCoordinates)
-		: null;
+	// Noise is smoothed out of the elevations before anything is worked out from them
+	const [storedElevationSmoothing, setElevationSmoothing] =
+		useLocalStorage<ElevationSmoothing>(
+			"route-planner-elevation-smoothing",
+			DEFAULT_ELEVATION_SMOOTHING,
+		);
+	const elevationSmoothing = parseStoredElevationSmoothing(
+		storedElevationSmoothing,
+	);
+	const smoothedCoordinates = useMemo(
+		() => smoothCoordinateElevations(apiCoordinates ?? [], elevationSmoothing),
+		[apiCoordinates, elevationSmoothing],
+	);
+	const elevationStats = useMemo(
+		() =>
+			apiCoordinates
+				? processElevationData(apiCoordinates, elevationSmoothing)
+				: null,
+		[apiCoordinates, elevationSmoothing],
+	);
 	const elevationData: ElevationChartData = elevationStats?.chartData ?? [];
 	const elevationGain = elevationStats?.stats.totalGain ?? 0;
 	const elevationLoss = elevationStats?.stats.totalLoss ?? 0;
 	const routeDistance = firstPath?.distance ?? 0;
 	const surfaceData = firstPath?.details?.surface ?? [];
+	const routeInstructions = firstPath?.instructions ?? [];
+	const cues = useMemo(
+		() => buildCueSheet(firstPath?.instructions ?? [], apiCoordinates ?? []),
+		[firstPath, apiCoordinates],
+	);
+	const [highlightedAlternative, setHighlightedAlternative] = useState<
+		number | null
+	>(null);
 	const [isDrawerOpen, setIsDrawerOpen] = useState(false);
 	const [drawerDirty, setDrawerDirty] = useState(false);
 	const ignoreMapClickRef = useRef(false);
@@ -250,11 +596,25 @@ export const MapProvider = ({ children }: MapProviderProps) => {
 		currentIndex: -1,
 	});
 
-	// Compute routePoints from URL (source of truth)
+	// Compute routePoints from URL (source of truth), or the shared route when read-only
 	const routePoints = useMemo(() => {
+		if (sharedRoute) return sharedRoute.routePoints;
 		const encoded = searchParams.get("route");
 		return encoded ? (decodeRouteFromUrl(encoded) ?? []) : [];
-	}, [searchParams]);
+	}, [searchParams, sharedRoute]);
+
+	// How far each point is from where the engine joined it to the network
+	const snapGaps = useMemo(
+		() => getSnapGaps(routePoints, firstPath?.snapped_waypoints?.coordinates),
+		[routePoints, firstPath],
+	);
+	const [
+		snapWarningDistance = DEFAULT_SNAP_WARNING_DISTANCE,
+		setSnapWarningDistance,
+	] = useLocalStorage(
+		"route-planner-snap-warning-distance",
+		DEFAULT_SNAP_WARNING_DISTANCE,
+	);
 
 	// Get current routeId from URL (indicates editing existing route)
 	const routeId = useMemo(() => {
@@ -262,20 +622,302 @@ export const MapProvider = ({ children }: MapProviderProps) => {
 		return id ? Number.parseInt(id, 10) : null;
 	}, [searchParams]);
 
-	// Get offroad preference from URL (defaults to true if not specified)
-	const urlPreferOffRoad = useMemo(() => {
+	// Activity profile from the URL, or the shared route's
+	const activityProfile = useMemo((): ActivityProfileId => {
+		if (sharedRoute) return sharedRoute.activityProfile;
+		const profile = searchParams.get("profile");
+		if (profile && isActivityProfileId(profile)) return profile;
+		// Links from before profiles only carry the off-road flag
 		const offroad = searchParams.get("offroad");
-		return offroad !== "0"; // Default to true (offroad=1 or not present)
-	}, [searchParams]);
+		return offroad !== null
+			? getLegacyActivityProfile(offroad !== "0")
+			: DEFAULT_ACTIVITY_PROFILE;
+	}, [searchParams, sharedRoute]);
+
+	// The user's own speeds on each surface, used for every time estimate
+	const [storedSurfaceSpeeds, setStoredSurfaceSpeeds] =
+		useLocalStorage<CustomSurfaceSpeeds>("route-planner-surface-speeds", {});
+	const customSurfaceSpeeds = useMemo(
+		() => parseStoredSurfaceSpeeds(storedSurfaceSpeeds),
+		[storedSurfaceSpeeds],
+	);
+	const surfaceSpeeds = useMemo(
+		() => getSurfaceSpeeds(activityProfile, customSurfaceSpeeds),
+		[activityProfile, customSurfaceSpeeds],
+	);
+	const movingTime = useMemo(
+		() =>
+			firstPath
+				? estimateMovingTime(
+						smoothedCoordinates,
+						firstPath.details.surface,
+						activityProfile,
+						surfaceSpeeds,
+					)
+				: 0,
+		[firstPath, smoothedCoordinates, activityProfile, surfaceSpeeds],
+	);
 
-	// State for prefer off-road, initialized from URL
-	const [preferOffRoad, setPreferOffRoadState] = useState(urlPreferOffRoad);
+	// Only speeds that differ from the defaults are kept, so default changes still apply
+	const setSurfaceSpeeds = useCallback(
+		(speeds: SurfaceSpeeds | null) => {
+			const defaults = getSurfaceSpeeds(activityProfile);
+			const overrides = speeds
+				? Object.fromEntries(
+						Object.entries(speeds).filter(
+							([category, speed]) =>
+								speed !== defaults[category as keyof SurfaceSpeeds],
+						),
+					)
+				: {};
+			setStoredSurfaceSpeeds({
+				...customSurfaceSpeeds,
+				[activityProfile]: overrides,
+			});
+		},
+		[activityProfile, customSurfaceSpeeds, setStoredSurfaceSpeeds],
+	);
+
+	// Summaries estimate time for the profile, so they follow it
+	const activeRouteSummary = useMemo(
+		() =>
+			firstPath
+				? summarizeRoutePath(
+						firstPath,
+						activityProfile,
+						surfaceSpeeds,
+						elevationSmoothing,
+					)
+				: null,
+		[firstPath, activityProfile, surfaceSpeeds, elevationSmoothing],
+	);
+	const alternativeRoutes = useMemo(
+		(): AlternativeRoute[] =>
+			(routeApiData?.paths.slice(1) ?? []).map((path) => ({
+				coordinates: path.points.coordinates.map(
+					([lng, lat]) => [lat, lng] as [number, number],
+				),
+				summary: summarizeRoutePath(
+					path,
+					activityProfile,
+					surfaceSpeeds,
+					elevationSmoothing,
+				),
+			})),
+		[routeApiData, activityProfile, surfaceSpeeds, elevationSmoothing],
+	);
+
+	// Surface and road-type preferences from the URL, or the shared route's
+	const routingPreferences = useMemo(() => {
+		if (sharedRoute) return sharedRoute.routingPreferences;
+		const encoded = searchParams.get("prefs");
+		return (
+			(encoded ? decodePreferencesFromUrl(encoded) : null) ??
+			DEFAULT_ROUTING_PREFERENCES
+		);
+	}, [searchParams, sharedRoute]);
+
+	// The route's own avoid areas from the URL, or the shared route's
+	const routeAvoidAreas = useMemo(() => {
+		if (sharedRoute) return sharedRoute.avoidAreas;
+		const encoded = searchParams.get("avoid");
+		return (encoded ? decodeAvoidAreasFromUrl(encoded) : null) ?? [];
+	}, [searchParams, sharedRoute]);
+
+	// How the route is split into days, from the URL or the shared route
+	const stagePlan = useMemo(() => {
+		if (sharedRoute) return sharedRoute.stagePlan;
+		const encoded = searchParams.get("stages");
+		return encoded ? decodeStagePlanFromUrl(encoded) : null;
+	}, [searchParams, sharedRoute]);
+
+	const stages = useMemo(
+		() =>
+			stagePlan && firstPath
+				? buildStages(
+						firstPath.points.coordinates,
+						firstPath.details.surface,
+						routePoints,
+						stagePlan,
+						activityProfile,
+						surfaceSpeeds,
+						elevationSmoothing,
+					)
+				: [],
+		[
+			stagePlan,
+			firstPath,
+			routePoints,
+			activityProfile,
+			surfaceSpeeds,
+			elevationSmoothing,
+		],
+	);
+
+	const [storedGradientWindow, setGradientWindow] =
+		useLocalStorage<GradientWindow>(
+			"route-planner-gradient-window",
+			DEFAULT_GRADIENT_WINDOW,
+		);
+	const gradientWindow = isGradientWindow(storedGradientWindow)
+		? storedGradientWindow
+		: DEFAULT_GRADIENT_WINDOW;
+	const segmentGrades = useMemo(
+		() => computeSegmentGrades(smoothedCoordinates, gradientWindow),
+		[smoothedCoordinates, gradientWindow],
+	);
+	const climbs = useMemo(
+		() => detectClimbs(smoothedCoordinates, gradientWindow),
+		[smoothedCoordinates, gradientWindow],
+	);
+	// Only kept while the route is still the one it was picked on
+	const [sectionSelection, setSectionSelection] = useState<{
+		basedOn: RouteApiResponse;
+		section: RouteSection;
+	} | null>(null);
+	const selectedSection =
+		sectionSelection && sectionSelection.basedOn === routeApiData
+			? sectionSelection.section
+			: null;
+	const setSelectedSection = useCallback(
+		(section: RouteSection | null) =>
+			setSectionSelection(
+				section && routeApiData ? { basedOn: routeApiData, section } : null,
+			),
+		[routeApiData],
+	);
+	const sectionStats = useMemo(
+		() =>
+			selectedSection
+				? getSectionStats(
+						smoothedCoordinates,
+						surfaceData,
+						segmentGrades,
+						selectedSection.startIndex,
+						selectedSection.endIndex,
+					)
+				: null,
+		[selectedSection, smoothedCoordinates, surfaceData, segmentGrades],
+	);
+
+	// Also only kept for the route it was on
+	const [cursorState, setCursorState] = useState<{
+		basedOn: RouteApiResponse;
+		cursor: RouteCursor;
+	} | null>(null);
+	const routeCursor =
+		cursorState && cursorState.basedOn === routeApiData
+			? cursorState.cursor
+			: null;
+	const setRouteCursor = useCallback(
+		(cursor: RouteCursor | null) =>
+			setCursorState(
+				cursor && routeApiData ? { basedOn: routeApiData, cursor } : null,
+			),
+		[routeApiData],
+	);
+	// Hovering the route on the map puts the cursor at the nearest point along it
+	const moveRouteCursorTo = useCallback(
+		(latlng: { lat: number; lng: number }) => {
+			const projected = projectOntoPath(routeCoordinates, latlng);
+			if (!projected) return;
+
+			const from = elevationData[projected.index]?.distance ?? 0;
+			const to = elevationData[projected.index + 1]?.distance ?? from;
+			setRouteCursor({
+				distance: from + (to - from) * projected.fraction,
+				source: "map",
+			});
+		},
+		[routeCoordinates, elevationData, setRouteCursor],
+	);
+
+	const [routeColorMode = "surface", setRouteColorMode] =
+		useLocalStorage<RouteColorMode>("route-planner-route-colour", "surface");
+
+	// Areas the signed-in user avoids on every route
+	const savedAvoidAreasQuery = api.routePlanner.getAvoidAreas.useQuery(
+		undefined,
+		{ enabled: isSignedIn && !sharedRoute, refetchOnWindowFocus: false },
+	);
+	const savedAvoidAreas = useMemo(
+		() => savedAvoidAreasQuery.data ?? [],
+		[savedAvoidAreasQuery.data],
+	);
+
+	const accountAvoidAreas = useMemo(
+		(): AvoidArea[] =>
+			savedAvoidAreas.map((area) => ({ ...area, id: `saved-${area.id}` })),
+		[savedAvoidAreas],
+	);
+
+	// Everything routing has to avoid, sent with every calculation
+	const avoidAreas = useMemo(
+		() => [...routeAvoidAreas, ...accountAvoidAreas],
+		[routeAvoidAreas, accountAvoidAreas],
+	);
+
+	// Saved route with its stored geometry (shares the cache with SaveRouteDialog)
+	const savedRoute = api.routePlanner.getRoute.useQuery(
+		{ id: routeId ?? 0 },
+		{
+			enabled: routeId !== null && !sharedRoute,
+			retry: false,
+			staleTime: Number.POSITIVE_INFINITY,
+			refetchOnWindowFocus: false,
+		},
+	);
+
+	// Stored geometry for the route being viewed, with the input it was computed from
+	const storedRoute = useMemo(() => {
+		if (sharedRoute) {
+			return sharedRoute.routeResponse
+				? {
+						routePoints: sharedRoute.routePoints,
+						activityProfile: sharedRoute.activityProfile,
+						routingPreferences: sharedRoute.routingPreferences,
+						avoidAreas: sharedRoute.avoidAreas,
+						response: sharedRoute.routeResponse,
+					}
+				: null;
+		}
+
+		const saved = savedRoute.data;
+		return saved?.routeResponse
+			? {
+					routePoints: saved.routeData as RoutePoint[],
+					activityProfile: saved.activityProfile,
+					routingPreferences: parseStoredPreferences(saved.routingPreferences),
+					avoidAreas: parseStoredAvoidAreas(saved.avoidAreas),
+					response: saved.routeResponse,
+				}
+			: null;
+	}, [sharedRoute, savedRoute.data]);
+
+	const [isStoredRoute, setIsStoredRoute] = useState(false);
+	// Set once the user re-routes, so the stored geometry isn't applied again
+	const bypassStoredRouteRef = useRef(false);
+
+	useEffect(() => {
+		// Newly loaded or re-saved geometry applies again
+		if (storedRoute) bypassStoredRouteRef.current = false;
+	}, [storedRoute]);
+
+	// Why the last calculation failed, pointing at the route point at fault if known
+	const [routeError, setRouteError] = useState<RouteError | null>(null);
 
 	// tRPC mutation for route calculation
+	// Transient failures (timeouts, busy engine) are retried with backoff before reporting
 	const calculateRoute = api.routePlanner.calculate.useMutation({
+		retry: (failureCount, error) =>
+			failureCount < MAX_ROUTING_RETRIES &&
+			!!error.data?.routingError?.retryable,
+		retryDelay: getRoutingRetryDelay,
 		onSuccess: (data) => {
 			// Store the complete API response
 			setRouteApiData(data);
+			setIsStoredRoute(false);
+			setRouteError(null);
 		},
 		onError: (error) => {
 			toast.error("Failed to calculate route", {
@@ -283,34 +925,122 @@ export const MapProvider = ({ children }: MapProviderProps) => {
 			});
 			// Clear route data on error
 			setRouteApiData(null);
+			const routingError = error.data?.routingError;
+			setRouteError(
+				routingError ? { ...routingError, message: error.message } : null,
+			);
 		},
 	});
 
-	// tRPC mutation for GPX generation from existing route coordinates
-	const generateGpxMutation = api.routePlanner.generateGpx.useMutation({
-		onSuccess: (gpxData) => {
-			// Create and download the GPX file
-			const blob = new Blob([gpxData], { type: "application/gpx+xml" });
-			const url = URL.createObjectURL(blob);
-			const link = document.createElement("a");
-			link.href = url;
-			link.download = "route.gpx";
-			document.body.appendChild(link);
-			link.click();
-			document.body.removeChild(link);
-			URL.revokeObjectURL(url);
-
-			// Show success message
-			toast.success("Route exported successfully", {
-				description: "Your GPX file has been downloaded",
+	// Comparison route - calculated separately so it never replaces the active route
+	const [comparison, setComparison] = useState<{
+		label: string;
+		path?: RoutePath;
+	} | null>(null);
+	// Candidate loops shown on the map until one is picked
+	const [loopCandidates, setLoopCandidates] = useState<LoopCandidate[]>([]);
+	const generateLoopsMutation = api.routePlanner.generateLoops.useMutation({
+		onSuccess: (candidates) => {
+			setLoopCandidates(candidates);
+			// Frame every candidate
+			const coordinates = candidates.flatMap((candidate) =>
+				candidate.path.points.coordinates.map(
+					([lng, lat]) => [lat, lng] as [number, number],
+				),
+			);
+			if (coordinates.length > 0) {
+				mapInstanceRef.current?.fitBounds(coordinates, { padding: [20, 20] });
+			}
+		},
+		onError: (error) => {
+			toast.error("Failed to generate loops", {
+				description: error.message || "Please try again",
 			});
 		},
+	});
+
+	const calculateComparison = api.routePlanner.calculate.useMutation({
+		retry: (failureCount, error) =>
+			failureCount < MAX_ROUTING_RETRIES &&
+			!!error.data?.routingError?.retryable,
+		retryDelay: getRoutingRetryDelay,
 		onError: (error) => {
-			toast.error("Failed to export route", {
+			toast.error("Failed to calculate comparison route", {
 				description: error.message || "Please try again",
 			});
+			setComparison(null);
 		},
 	});
+	const comparisonRoute = useMemo((): ComparisonRoute | null => {
+		if (!comparison?.path) return null;
+		const { coordinates } = comparison.path.points;
+		return {
+			label: comparison.label,
+			coordinates: coordinates.map(
+				([lng, lat]) => [lat, lng] as [number, number],
+			),
+			distance: comparison.path.distance,
+			elevationGain: processElevationData(coordinates, elevationSmoothing).stats
+				.totalGain,
+		};
+	}, [comparison, elevationSmoothing]);
+
+	// Only shown while the route is still the one it was worked out for
+	const [checkpointOrder, setCheckpointOrder] = useState<{
+		basedOn: RoutePoint[];
+		preview: CheckpointOrderPreview;
+	} | null>(null);
+	const checkpointOrderPreview =
+		checkpointOrder && isSameRoutePoints(checkpointOrder.basedOn, routePoints)
+			? checkpointOrder.preview
+			: null;
+	const optimiseCheckpointOrderMutation =
+		api.routePlanner.optimiseCheckpointOrder.useMutation({
+			onError: (error) => {
+				toast.error("Failed to optimise checkpoint order", {
+					description: error.message || "Please try again",
+				});
+			},
+		});
+
+	// Shared error handling for every export format
+	const onExportError = (error: { message: string }) => {
+		toast.error("Failed to export route", {
+			description: error.message || "Please try again",
+		});
+	};
+
+	// tRPC mutations for each export format from existing route coordinates
+	const generateGpxMutation = api.routePlanner.generateGpx.useMutation({
+		onSuccess: (data) => downloadExport(data, "gpx"),
+		onError: onExportError,
+	});
+	// Part of the route as its own GPX, named after the part
+	const generateSectionGpxMutation = api.routePlanner.generateGpx.useMutation({
+		onSuccess: (data, { section }) =>
+			downloadExport(
+				data,
+				"gpx",
+				`route-${(section ?? "section").toLowerCase().replace(/\W+/g, "-")}`,
+			),
+		onError: onExportError,
+	});
+	const generateTcxMutation = api.routePlanner.generateTcx.useMutation({
+		onSuccess: (data) => downloadExport(data, "tcx"),
+		onError: onExportError,
+	});
+	const generateFitMutation = api.routePlanner.generateFit.useMutation({
+		onSuccess: (data) => downloadExport(data, "fit"),
+		onError: onExportError,
+	});
+	const generateKmlMutation = api.routePlanner.generateKml.useMutation({
+		onSuccess: (data) => downloadExport(data, "kml"),
+		onError: onExportError,
+	});
+	const generateGeoJsonMutation = api.routePlanner.generateGeoJson.useMutation({
+		onSuccess: (data) => downloadExport(data, "geojson"),
+		onError: onExportError,
+	});
 
 	// Add entry to history - now much simpler!
 	const addToHistory = useCallback((points: RoutePoint[]) => {
@@ -322,8 +1052,14 @@ export const MapProvider = ({ children }: MapProviderProps) => {
 		(
 			newPoints: RoutePoint[],
 			newRouteId?: number | null,
-			newPreferOffRoad?: boolean,
+			newProfile?: ActivityProfileId,
+			newPreferences?: RoutingPreferences,
+			newAvoidAreas?: AvoidArea[],
+			newStagePlan?: StagePlan | null,
 		) => {
+			// Shared routes are read-only, so every edit stops here
+			if (sharedRoute) return;
+
 			const params = new URLSearchParams(searchParams.toString());
 
 			if (newPoints.length === 0) {
@@ -345,14 +1081,42 @@ export const MapProvider = ({ children }: MapProviderProps) => {
 				}
 			}
 
-			// Handle offroad parameter
-			if (newPreferOffRoad !== undefined) {
-				params.set("offroad", newPreferOffRoad ? "1" : "0");
+			// Handle activity profile, replacing the legacy offroad flag
+			if (newProfile !== undefined) {
+				params.set("profile", newProfile);
+				params.delete("offroad");
+			}
+
+			// Handle routing preferences, leaving defaults out of the URL
+			if (newPreferences !== undefined) {
+				if (isDefaultPreferences(newPreferences)) {
+					params.delete("prefs");
+				} else {
+					params.set("prefs", encodePreferencesForUrl(newPreferences));
+				}
+			}
+
+			// Handle the route's avoid areas
+			if (newAvoidAreas !== undefined) {
+				if (newAvoidAreas.length === 0) {
+					params.delete("avoid");
+				} else {
+					params.set("avoid", encodeAvoidAreasForUrl(newAvoidAreas));
+				}
+			}
+
+			// Handle the stage plan, with null going back to a single day
+			if (newStagePlan !== undefined) {
+				if (newStagePlan === null) {
+					params.delete("stages");
+				} else {
+					params.set("stages", encodeStagePlanForUrl(newStagePlan));
+				}
 			}
 
 			router.replace(`${pathname}?${params.toString()}`, { scroll: false });
 		},
-		[searchParams, pathname, router],
+		[searchParams, pathname, router, sharedRoute],
 	);
 
 	// Add initial state to history on mount
@@ -365,29 +1129,172 @@ export const MapProvider = ({ children }: MapProviderProps) => {
 	// Debounced route calculation using react-use
 	useDebounce(
 		() => {
-			if (routePoints.length >= 2) {
-				calculateRoute.mutate({
-					points: routePoints,
-					...getRouteOptions(preferOffRoad),
-				});
-			} else {
+			if (routePoints.length < 2) {
 				// Clear API data when no route
 				setRouteApiData(null);
+				setIsStoredRoute(false);
+				return;
+			}
+
+			// Wait for a saved route's stored geometry and the user's avoid areas
+			if (savedRoute.isLoading || savedAvoidAreasQuery.isLoading) return;
+
+			// Unchanged saved routes load from their stored geometry
+			if (
+				storedRoute &&
+				!bypassStoredRouteRef.current &&
+				storedRoute.activityProfile === activityProfile &&
+				isSamePreferences(storedRoute.routingPreferences, routingPreferences) &&
+				isSameAvoidAreas(storedRoute.avoidAreas, routeAvoidAreas) &&
+				isSameRoutePoints(storedRoute.routePoints, routePoints)
+			) {
+				setRouteApiData(storedRoute.response);
+				setIsStoredRoute(true);
+				setRouteError(null);
+				return;
 			}
+
+			calculateRoute.mutate({
+				points: routePoints,
+				...getRouteOptions(activityProfile, routingPreferences, avoidAreas),
+				alternatives: true,
+			});
 		},
 		200,
-		[routePoints, preferOffRoad],
+		[
+			routePoints,
+			activityProfile,
+			routingPreferences,
+			routeAvoidAreas,
+			avoidAreas,
+			storedRoute,
+			savedRoute.isLoading,
+			savedAvoidAreasQuery.isLoading,
+		],
 	);
 
-	// Wrapper function to update preferOffRoad state and URL
-	const setPreferOffRoad = useCallback(
-		(newPreferOffRoad: boolean) => {
-			setPreferOffRoadState(newPreferOffRoad);
-			updateRouteInUrl(routePoints, routeId, newPreferOffRoad);
+	const setActivityProfile = useCallback(
+		(profile: ActivityProfileId) => {
+			updateRouteInUrl(routePoints, routeId, profile);
 		},
 		[routePoints, routeId, updateRouteInUrl],
 	);
 
+	const setRoutingPreferences = useCallback(
+		(preferences: RoutingPreferences) => {
+			updateRouteInUrl(routePoints, routeId, undefined, preferences);
+		},
+		[routePoints, routeId, updateRouteInUrl],
+	);
+
+	// Avoid areas - the route's own live in the URL, saved ones on the account
+	const utils = api.useUtils();
+	const [draftAvoidArea, setDraftAvoidArea] = useState<Array<{
+		lat: number;
+		lng: number;
+	}> | null>(null);
+
+	const setRouteAvoidAreas = useCallback(
+		(areas: AvoidArea[]) => {
+			updateRouteInUrl(routePoints, routeId, undefined, undefined, areas);
+		},
+		[routePoints, routeId, updateRouteInUrl],
+	);
+
+	const addAvoidArea = useCallback(
+		(area: AvoidArea) => {
+			if (avoidAreas.length >= MAX_AVOID_AREAS) {
+				toast.error("Too many avoid areas", {
+					description: `Routes can avoid up to ${MAX_AVOID_AREAS} areas - remove one first`,
+				});
+				return;
+			}
+			setRouteAvoidAreas([...routeAvoidAreas, area]);
+		},
+		[avoidAreas.length, routeAvoidAreas, setRouteAvoidAreas],
+	);
+
+	const startAvoidArea = useCallback(
+		(firstCorner: { lat: number; lng: number }) => {
+			setDraftAvoidArea([firstCorner]);
+		},
+		[],
+	);
+
+	const cancelAvoidArea = useCallback(() => {
+		setDraftAvoidArea(null);
+	}, []);
+
+	const finishAvoidArea = useCallback(() => {
+		if (!draftAvoidArea || draftAvoidArea.length < 3) return;
+		addAvoidArea({
+			id: createAvoidAreaId(),
+			kind: "area",
+			polygon: draftAvoidArea,
+		});
+		setDraftAvoidArea(null);
+	}, [draftAvoidArea, addAvoidArea]);
+
+	const blockRoad = useCallback(
+		(point: { lat: number; lng: number }) => {
+			addAvoidArea(createBlockedRoad(point));
+		},
+		[addAvoidArea],
+	);
+
+	const removeAvoidArea = useCallback(
+		(id: string) => {
+			setRouteAvoidAreas(routeAvoidAreas.filter((area) => area.id !== id));
+		},
+		[routeAvoidAreas, setRouteAvoidAreas],
+	);
+
+	const saveAvoidAreaMutation = api.routePlanner.saveAvoidArea.useMutation({
+		onError: (error) => {
+			toast.error("Failed to save area", {
+				description: error.message || "Please try again",
+			});
+		},
+	});
+	const deleteAvoidAreaMutation = api.routePlanner.deleteAvoidArea.useMutation({
+		onSuccess: () => utils.routePlanner.getAvoidAreas.invalidate(),
+		onError: (error) => {
+			toast.error("Failed to delete area", {
+				description: error.message || "Please try again",
+			});
+		},
+	});
+
+	// Moves one of the route's areas onto the account, so every route avoids it
+	const saveAvoidAreaForAllRoutes = useCallback(
+		(id: string) => {
+			const area = routeAvoidAreas.find((routeArea) => routeArea.id === id);
+			if (!area) return;
+
+			saveAvoidAreaMutation.mutate(
+				{ kind: area.kind, polygon: area.polygon },
+				{
+					onSuccess: async () => {
+						// Refetch first so the area is never briefly missing from routing
+						await utils.routePlanner.getAvoidAreas.invalidate();
+						removeAvoidArea(id);
+						toast.success("Area saved", {
+							description: "It will be avoided on all your routes",
+						});
+					},
+				},
+			);
+		},
+		[routeAvoidAreas, saveAvoidAreaMutation, utils, removeAvoidArea],
+	);
+
+	const deleteSavedAvoidArea = useCallback(
+		(id: number) => {
+			deleteAvoidAreaMutation.mutate({ id });
+		},
+		[deleteAvoidAreaMutation],
+	);
+
 	// Update points and recalculate route (with history tracking)
 	const updatePointsAndRoute = useCallback(
 		(newPoints: RoutePoint[], skipHistory = false) => {
@@ -461,18 +1368,34 @@ export const MapProvider = ({ children }: MapProviderProps) => {
 
 	// Handle map clicks to add start/waypoints/end points
 	const handleMapClick = useCallback(
-		(latlng: LatLng) => {
+		(latlng: LatLng, options?: { direct?: boolean }) => {
 			if (ignoreMapClickRef.current) {
 				return;
 			}
 
+			// While drawing an avoid area, clicks place its corners
+			if (draftAvoidArea) {
+				setDraftAvoidArea([...draftAvoidArea, latlng]);
+				return;
+			}
+
 			const pointType = routePoints.length === 0 ? "start" : "end";
 			const newPoint = createRoutePoint(latlng, pointType);
-			const updatedPoints = addEndPoint(newPoint);
+			const updatedPoints = addEndPoint(
+				options?.direct && routePoints.length > 0
+					? { ...newPoint, direct: true }
+					: newPoint,
+			);
 
 			updatePointsAndRoute(updatedPoints);
 		},
-		[routePoints, createRoutePoint, addEndPoint, updatePointsAndRoute],
+		[
+			routePoints,
+			draftAvoidArea,
+			createRoutePoint,
+			addEndPoint,
+			updatePointsAndRoute,
+		],
 	);
 
 	// Handle route line clicks to insert waypoints
@@ -485,10 +1408,19 @@ export const MapProvider = ({ children }: MapProviderProps) => {
 				ignoreMapClickRef.current = false;
 			}, 100);
 
+			// Corners can sit on the route line too
+			if (draftAvoidArea) {
+				setDraftAvoidArea([...draftAvoidArea, latlng]);
+				return;
+			}
+
 			if (routePoints.length < 2) return; // Need at least start and end
 
-			const newWaypoint = createRoutePoint(latlng, "waypoint");
 			const bestIndex = findBestInsertionIndex(latlng);
+			// Splitting a straight leg keeps both halves straight
+			const newWaypoint = routePoints[bestIndex]?.direct
+				? { ...createRoutePoint(latlng, "waypoint"), direct: true }
+				: createRoutePoint(latlng, "waypoint");
 			const updatedPoints = [
 				...routePoints.slice(0, bestIndex),
 				newWaypoint,
@@ -499,6 +1431,7 @@ export const MapProvider = ({ children }: MapProviderProps) => {
 		},
 		[
 			routePoints,
+			draftAvoidArea,
 			createRoutePoint,
 			findBestInsertionIndex,
 			updatePointsAndRoute,
@@ -541,6 +1474,60 @@ export const MapProvider = ({ children }: MapProviderProps) => {
 		[routePoints, updatePointsAndRoute, updateRouteInUrl],
 	);
 
+	// Switch the leg arriving at a point between routed and straight
+	const toggleDirectLeg = useCallback(
+		(index: number) => {
+			if (index === 0) return;
+
+			const updatedPoints = routePoints.map((point, i) => {
+				if (i !== index) return point;
+				const { direct, ...rest } = point;
+				return direct ? rest : { ...rest, direct: true };
+			});
+
+			updatePointsAndRoute(updatedPoints);
+		},
+		[routePoints, updatePointsAndRoute],
+	);
+
+	// Mark a checkpoint as a night's stop, splitting the route there by default
+	const toggleOvernightStop = useCallback(
+		(index: number) => {
+			if (routePoints[index]?.type !== "checkpoint") return;
+
+			const updatedPoints = routePoints.map((point, i) => {
+				if (i !== index) return point;
+				const { overnight, ...rest } = point;
+				return overnight ? rest : { ...rest, overnight: true };
+			});
+
+			updateRouteInUrl(
+				updatedPoints,
+				undefined,
+				undefined,
+				undefined,
+				undefined,
+				stagePlan ?? { method: "overnight" },
+			);
+			addToHistory(updatedPoints);
+		},
+		[routePoints, stagePlan, updateRouteInUrl, addToHistory],
+	);
+
+	const setStagePlan = useCallback(
+		(plan: StagePlan | null) => {
+			updateRouteInUrl(
+				routePoints,
+				undefined,
+				undefined,
+				undefined,
+				undefined,
+				plan,
+			);
+		},
+		[routePoints, updateRouteInUrl],
+	);
+
 	// Handle waypoint movement (dragging)
 	const handleMovePoint = useCallback(
 		(index: number, newLatLng: { lat: number; lng: number }) => {
@@ -555,6 +1542,15 @@ export const MapProvider = ({ children }: MapProviderProps) => {
 		[routePoints, updatePointsAndRoute],
 	);
 
+	// Move a point onto the network where the engine joined it
+	const moveToSnappedLocation = useCallback(
+		(index: number) => {
+			const gap = snapGaps.find((snapGap) => snapGap.index === index);
+			if (gap) handleMovePoint(index, gap.snapped);
+		},
+		[snapGaps, handleMovePoint],
+	);
+
 	// History management
 	const undo = useCallback(() => {
 		const prevEntry = historyState.entries[historyState.currentIndex - 1];
@@ -577,27 +1573,176 @@ export const MapProvider = ({ children }: MapProviderProps) => {
 	const canUndo = historyState.currentIndex > 0;
 	const canRedo = historyState.currentIndex < historyState.entries.length - 1;
 
-	// GPX export function
-	const exportGpx = useCallback(() => {
-		if (routePoints.length < 2) {
-			toast.error("Cannot export route", {
-				description: "Need at least 2 points to create a route",
-			});
-			return;
-		}
+	// Route export function (format picked from the export menu)
+	const exportRoute = useCallback(
+		(
+			format: ExportFormat,
+			options?: { includeRoute?: boolean; includeCues?: boolean },
+		) => {
+			if (routePoints.length < 2) {
+				toast.error("Cannot export route", {
+					description: "Need at least 2 points to create a route",
+				});
+				return;
+			}
 
-		if (!apiCoordinates || apiCoordinates.length === 0) {
-			toast.error("Cannot export route", {
-				description: "Route calculation in progress, please wait",
+			if (!apiCoordinates || apiCoordinates.length === 0) {
+				toast.error("Cannot export route", {
+					description: "Route calculation in progress, please wait",
+				});
+				return;
+			}
+
+			const input = {
+				coordinates: apiCoordinates,
+				routeName: sharedRoute?.title ?? DEFAULT_ROUTE_NAME,
+				routeId: routeId ?? undefined,
+				routePoints,
+				surface: surfaceData,
+				instructions: routeInstructions,
+				activityProfile,
+			};
+
+			switch (format) {
+				case "gpx":
+					generateGpxMutation.mutate({
+						...input,
+						includeRoute: options?.includeRoute ?? false,
+						includeCues: options?.includeCues ?? false,
+					});
+					break;
+				case "tcx":
+					generateTcxMutation.mutate(input);
+					break;
+				case "fit":
+					generateFitMutation.mutate(input);
+					break;
+				case "kml":
+					generateKmlMutation.mutate(input);
+					break;
+				case "geojson":
+					generateGeoJsonMutation.mutate(input);
+					break;
+			}
+		},
+		[
+			routePoints,
+			routeId,
+			sharedRoute,
+			apiCoordinates,
+			surfaceData,
+			routeInstructions,
+			activityProfile,
+			generateGpxMutation,
+			generateTcxMutation,
+			generateFitMutation,
+			generateKmlMutation,
+			generateGeoJsonMutation,
+		],
+	);
+
+	// One stage as its own GPX, with the checkpoints and turns along it
+	const exportSectionGpx = useCallback(
+		(startIndex: number, endIndex: number, section: string) => {
+			if (!apiCoordinates) return;
+
+			generateSectionGpxMutation.mutate({
+				coordinates: apiCoordinates.slice(startIndex, endIndex + 1),
+				routeName: sharedRoute?.title ?? DEFAULT_ROUTE_NAME,
+				routeId: routeId ?? undefined,
+				routePoints: getRoutePointsInSection(
+					apiCoordinates,
+					routePoints,
+					startIndex,
+					endIndex,
+				),
+				surface: sliceIntervalDetails(surfaceData, startIndex, endIndex),
+				instructions: sliceInstructions(
+					routeInstructions,
+					startIndex,
+					endIndex,
+				),
+				activityProfile,
+				section,
 			});
-			return;
-		}
+		},
+		[
+			apiCoordinates,
+			sharedRoute,
+			routeId,
+			routePoints,
+			surfaceData,
+			routeInstructions,
+			activityProfile,
+			generateSectionGpxMutation,
+		],
+	);
 
-		generateGpxMutation.mutate({
-			coordinates: apiCoordinates,
-			routeName: "All Terrain Route",
-		});
-	}, [routePoints.length, apiCoordinates, generateGpxMutation]);
+	const exportStage = useCallback(
+		(stageNumber: number) => {
+			const stage = stages.find((s) => s.number === stageNumber);
+			if (!stage) return;
+
+			exportSectionGpx(
+				stage.startIndex,
+				stage.endIndex,
+				`Stage ${stage.number} of ${stages.length}`,
+			);
+		},
+		[stages, exportSectionGpx],
+	);
+
+	const exportSection = useCallback(() => {
+		if (!selectedSection) return;
+
+		// Named by where it runs, e.g. "12.5km to 30.2km"
+		const { startIndex, endIndex } = selectedSection;
+		const from = (elevationData[startIndex]?.distance ?? 0) * 1000;
+		const to = (elevationData[endIndex]?.distance ?? 0) * 1000;
+		exportSectionGpx(
+			startIndex,
+			endIndex,
+			`${formatDistance(from)} to ${formatDistance(to)}`,
+		);
+	}, [selectedSection, elevationData, exportSectionGpx]);
+
+	// Cue sheet export - generated client-side from the current instructions
+	const exportCueSheet = useCallback(
+		(format: "csv" | "print") => {
+			if (cues.length === 0) {
+				toast.error("Cannot export cue sheet", {
+					description: "The current route has no turn instructions",
+				});
+				return;
+			}
+
+			if (format === "csv") {
+				downloadBlob(
+					new Blob([generateCueSheetCsv(cues)], { type: "text/csv" }),
+					"cue-sheet.csv",
+				);
+				return;
+			}
+
+			// Open the printable sheet in a new tab and bring up the print dialog
+			const html = generateCueSheetHtml(cues, {
+				name: sharedRoute?.title ?? DEFAULT_ROUTE_NAME,
+				totalDistance: routeDistance,
+			});
+			const printWindow = window.open("", "_blank");
+			if (!printWindow) {
+				toast.error("Cannot open cue sheet", {
+					description: "Allow pop-ups for this site to print the cue sheet",
+				});
+				return;
+			}
+			printWindow.document.write(html);
+			printWindow.document.close();
+			printWindow.focus();
+			printWindow.print();
+		},
+		[cues, routeDistance, sharedRoute],
+	);
 
 	// Drawer handlers
 	const toggleDrawer = useCallback((open: boolean) => {
@@ -622,13 +1767,22 @@ export const MapProvider = ({ children }: MapProviderProps) => {
 			return;
 		}
 
-		// Build URL with route data, optionally routeId, and offroad preference
+		// Build URL with route data, optionally routeId, and everything that shapes the route
 		const params = new URLSearchParams();
 		params.set("route", encoded);
 		if (routeId) {
 			params.set("routeId", routeId.toString());
 		}
-		params.set("offroad", preferOffRoad ? "1" : "0");
+		params.set("profile", activityProfile);
+		if (!isDefaultPreferences(routingPreferences)) {
+			params.set("prefs", encodePreferencesForUrl(routingPreferences));
+		}
+		if (routeAvoidAreas.length > 0) {
+			params.set("avoid", encodeAvoidAreasForUrl(routeAvoidAreas));
+		}
+		if (stagePlan) {
+			params.set("stages", encodeStagePlanForUrl(stagePlan));
+		}
 
 		const url = `${window.location.origin}${pathname}?${params.toString()}`;
 		copyToClipboard(url);
@@ -645,7 +1799,10 @@ export const MapProvider = ({ children }: MapProviderProps) => {
 	}, [
 		routePoints,
 		routeId,
-		preferOffRoad,
+		activityProfile,
+		routingPreferences,
+		routeAvoidAreas,
+		stagePlan,
 		pathname,
 		copyToClipboard,
 		clipboardState.error,
@@ -684,12 +1841,20 @@ export const MapProvider = ({ children }: MapProviderProps) => {
 		(
 			savedRouteId: number,
 			routeData: RoutePoint[],
-			routePreference?: string,
+			profile = DEFAULT_ACTIVITY_PROFILE,
+			routingPreferences = DEFAULT_ROUTING_PREFERENCES,
+			routeAreas: AvoidArea[] = [],
+			routeStagePlan: StagePlan | null = null,
 		) => {
-			const preferOffRoadValue = routePreference === "off-road";
-			updateRouteInUrl(routeData, savedRouteId, preferOffRoadValue);
-			// Update the state to match the loaded route preference
-			setPreferOffRoadState(preferOffRoadValue);
+			updateRouteInUrl(
+				routeData,
+				savedRouteId,
+				profile,
+				routingPreferences,
+				routeAreas,
+				routeStagePlan,
+			);
+			setComparison(null);
 			// Position map to show the loaded route immediately with the provided data
 			setTimeout(() => {
 				positionMap(routeData);
@@ -701,8 +1866,21 @@ export const MapProvider = ({ children }: MapProviderProps) => {
 
 	// Duplicate route function (creates new route from existing data)
 	const duplicateRoute = useCallback(
-		(routeData: RoutePoint[]) => {
-			updateRouteInUrl(routeData, null);
+		(
+			routeData: RoutePoint[],
+			profile = DEFAULT_ACTIVITY_PROFILE,
+			routingPreferences = DEFAULT_ROUTING_PREFERENCES,
+			routeAreas: AvoidArea[] = [],
+			routeStagePlan: StagePlan | null = null,
+		) => {
+			updateRouteInUrl(
+				routeData,
+				null,
+				profile,
+				routingPreferences,
+				routeAreas,
+				routeStagePlan,
+			);
 			// Position map to show the duplicated route immediately with the provided data
 			setTimeout(() => {
 				positionMap(routeData);
@@ -712,12 +1890,237 @@ export const MapProvider = ({ children }: MapProviderProps) => {
 		[updateRouteInUrl, positionMap],
 	);
 
+	// Import route function (rebuilds editable points from a GPX/TCX file)
+	const importRoute = useCallback(
+		async (file: File) => {
+			try {
+				const imported = parseRouteFile(await file.text(), file.name);
+				const importedPoints = buildRoutePointsFromTrack(
+					imported,
+					env.NEXT_PUBLIC_MAX_ROUTE_POINTS,
+				);
+
+				// Imported routes are new routes, so clear any routeId
+				updateRouteInUrl(importedPoints, null);
+				addToHistory(importedPoints);
+				setTimeout(() => {
+					positionMap(importedPoints);
+				}, 100);
+				setDrawerDirty(false);
+
+				toast.success("Route imported successfully", {
+					description: `${imported.name ?? file.name} was converted to ${importedPoints.length} editable points`,
+				});
+			} catch (error) {
+				toast.error("Failed to import route", {
+					description:
+						error instanceof Error ? error.message : "Please try again",
+				});
+			}
+		},
+		[updateRouteInUrl, addToHistory, positionMap],
+	);
+
 	// Clear route function
 	const clearRoute = useCallback(() => {
 		router.push("/");
 		setDrawerDirty(false);
+		setComparison(null);
+		setLoopCandidates([]);
+		setCheckpointOrder(null);
+		setDraftAvoidArea(null);
 	}, [router]);
 
+	// Draw another version of the route underneath the active one
+	const showComparisonRoute = useCallback(
+		(
+			routeData: RoutePoint[],
+			compareProfile: ActivityProfileId,
+			label: string,
+			comparePreferences = DEFAULT_ROUTING_PREFERENCES,
+			compareAvoidAreas: AvoidArea[] = [],
+		) => {
+			setComparison({ label });
+			calculateComparison.mutate(
+				{
+					points: routeData,
+					// The user's saved areas apply to the other version too
+					...getRouteOptions(compareProfile, comparePreferences, [
+						...compareAvoidAreas,
+						...accountAvoidAreas,
+					]),
+				},
+				{
+					// Ignore results for a comparison that has since been replaced
+					onSuccess: (data) =>
+						setComparison((current) =>
+							current?.label === label
+								? { label, path: data.paths[0] }
+								: current,
+						),
+				},
+			);
+		},
+		[calculateComparison, accountAvoidAreas],
+	);
+
+	const clearComparisonRoute = useCallback(() => {
+		setComparison(null);
+	}, []);
+
+	const generateLoops = useCallback(
+		(
+			start: { lat: number; lng: number },
+			distance: number,
+			heading?: number,
+		) => {
+			setComparison(null);
+			setLoopCandidates([]);
+			generateLoopsMutation.mutate({
+				start,
+				distance,
+				heading,
+				...getRouteOptions(activityProfile, routingPreferences, avoidAreas),
+			});
+		},
+		[generateLoopsMutation, activityProfile, routingPreferences, avoidAreas],
+	);
+
+	// Replace the route with a generated loop, as a new unsaved route
+	const applyLoopCandidate = useCallback(
+		(index: number) => {
+			const candidate = loopCandidates[index];
+			if (!candidate) return;
+
+			updateRouteInUrl(candidate.routePoints, null);
+			addToHistory(candidate.routePoints);
+			setLoopCandidates([]);
+			setDrawerDirty(false);
+		},
+		[loopCandidates, updateRouteInUrl, addToHistory],
+	);
+
+	const clearLoopCandidates = useCallback(() => {
+		setLoopCandidates([]);
+	}, []);
+
+	const optimiseCheckpointOrder = useCallback(
+		(loop: boolean) => {
+			const start = routePoints.find((point) => point.type === "start");
+			const end = routePoints.find((point) => point.type === "end");
+			const checkpoints = routePoints.filter(
+				(point) => point.type === "checkpoint",
+			);
+			if (!start || (!loop && !end)) return;
+
+			setCheckpointOrder(null);
+			optimiseCheckpointOrderMutation.mutate(
+				{
+					start,
+					checkpoints,
+					end: loop ? undefined : end,
+					profile: activityProfile,
+				},
+				{
+					onSuccess: (result) => {
+						const reordered = buildReorderedRoutePoints(
+							routePoints,
+							result.order,
+							loop,
+						);
+						setCheckpointOrder({
+							basedOn: routePoints,
+							preview: { ...result, loop, routePoints: reordered },
+						});
+						if (result.optimisedDistance < result.currentDistance) {
+							showComparisonRoute(
+								reordered,
+								activityProfile,
+								"Optimised order",
+								routingPreferences,
+								routeAvoidAreas,
+							);
+						}
+					},
+				},
+			);
+		},
+		[
+			routePoints,
+			optimiseCheckpointOrderMutation,
+			activityProfile,
+			showComparisonRoute,
+			routingPreferences,
+			routeAvoidAreas,
+		],
+	);
+
+	const applyCheckpointOrder = useCallback(() => {
+		if (!checkpointOrderPreview) return;
+		updatePointsAndRoute(checkpointOrderPreview.routePoints);
+		setCheckpointOrder(null);
+		setComparison(null);
+	}, [checkpointOrderPreview, updatePointsAndRoute]);
+
+	const discardCheckpointOrder = useCallback(() => {
+		setCheckpointOrder(null);
+		setComparison(null);
+	}, []);
+
+	// Re-route the stored route against current map data, keeping the old one for comparison
+	const rerouteWithLatestMapData = useCallback(() => {
+		const storedPath = routeApiData?.paths[0];
+		if (routePoints.length < 2 || !storedPath) return;
+
+		bypassStoredRouteRef.current = true;
+		calculateRoute.mutate(
+			{
+				points: routePoints,
+				...getRouteOptions(activityProfile, routingPreferences, avoidAreas),
+				alternatives: true,
+			},
+			{
+				onSuccess: (data) => {
+					const latestPath = data.paths[0];
+					if (!latestPath) return;
+
+					const unchanged =
+						latestPath.distance === storedPath.distance &&
+						latestPath.points.coordinates.length ===
+							storedPath.points.coordinates.length;
+					if (unchanged) {
+						toast.success("Route is up to date", {
+							description: "Latest map data gives the same route",
+						});
+						return;
+					}
+
+					setComparison({ label: "saved route", path: storedPath });
+					const climbingDelta =
+						processElevationData(
+							latestPath.points.coordinates,
+							elevationSmoothing,
+						).stats.totalGain -
+						processElevationData(
+							storedPath.points.coordinates,
+							elevationSmoothing,
+						).stats.totalGain;
+					toast.success("Re-routed with latest map data", {
+						description: `${formatDelta(latestPath.distance - storedPath.distance, formatDistance)} distance, ${formatDelta(climbingDelta, formatElevation)} climbing. Save to keep the new route.`,
+					});
+				},
+			},
+		);
+	}, [
+		routeApiData,
+		routePoints,
+		activityProfile,
+		routingPreferences,
+		avoidAreas,
+		calculateRoute,
+		elevationSmoothing,
+	]);
+
 	// Reverse route function
 	const reverseRoute = useCallback(() => {
 		if (routePoints.length < 2) {
@@ -725,19 +2128,38 @@ export const MapProvider = ({ children }: MapProviderProps) => {
 		}
 
 		const reversedPoints = [...routePoints].reverse().map((point, index) => {
+			// A straight leg is flagged on the point it arrives at, which is now its other end
+			const { direct: _direct, ...rest } = point;
+			const arrivingLeg = routePoints[routePoints.length - index];
+			const reversed: RoutePoint = arrivingLeg?.direct
+				? { ...rest, direct: true }
+				: rest;
+
 			// Swap start and end points
 			if (index === 0 && point.type === "end") {
-				return { ...point, type: "start" as const };
+				return { ...reversed, type: "start" as const };
 			}
 			if (index === routePoints.length - 1 && point.type === "start") {
-				return { ...point, type: "end" as const };
+				return { ...reversed, type: "end" as const };
 			}
-			return point;
+			return reversed;
 		});
 
 		updatePointsAndRoute(reversedPoints);
 	}, [routePoints, updatePointsAndRoute]);
 
+	// Make an alternative the active route by routing through points along it
+	const promoteAlternativeRoute = useCallback(
+		(index: number) => {
+			const path = routeApiData?.paths[index + 1];
+			if (!path) return;
+
+			setHighlightedAlternative(null);
+			updatePointsAndRoute(buildAlternativeRoutePoints(routePoints, path));
+		},
+		[routeApiData, routePoints, updatePointsAndRoute],
+	);
+
 	// Set map instance (called from components)
 	const setMapInstance = useCallback((map: L.Map) => {
 		mapInstanceRef.current = map;
@@ -830,11 +2252,6 @@ export const MapProvider = ({ children }: MapProviderProps) => {
 		}
 	}, [addToHistory, historyState.entries.length]);
 
-	// Sync preferOffRoad state with URL parameter
-	useEffect(() => {
-		setPreferOffRoadState(urlPreferOffRoad);
-	}, [urlPreferOffRoad]);
-
 	// Auto-open drawer when there are 2+ route points (only if user hasn't interacted with it)
 	useEffect(() => {
 		if (routePoints.length >= 2 && !isDrawerOpen && !drawerDirty) {
@@ -847,18 +2264,64 @@ export const MapProvider = ({ children }: MapProviderProps) => {
 		routePoints,
 		routeCoordinates,
 		isCalculating: calculateRoute.isPending,
-		isExporting: generateGpxMutation.isPending,
+		isExporting:
+			generateGpxMutation.isPending ||
+			generateTcxMutation.isPending ||
+			generateFitMutation.isPending ||
+			generateKmlMutation.isPending ||
+			generateGeoJsonMutation.isPending ||
+			generateSectionGpxMutation.isPending,
 		hasRoute: routePoints.length >= 2,
+		routeResponse: routeApiData,
+
+		// Stored geometry state
+		isStoredRoute,
+		routeError,
+		snapGaps,
+		snapWarningDistance,
+		setSnapWarningDistance,
+		storedRoadDataTimestamp: isStoredRoute
+			? (routeApiData?.info.road_data_timestamp ?? null)
+			: null,
 
 		// Elevation data
 		elevationData,
 		elevationGain,
 		elevationLoss,
 		routeDistance,
+		elevationSmoothing,
+		setElevationSmoothing,
+
+		// Moving time
+		movingTime,
+		surfaceSpeeds,
+		customSurfaceSpeeds,
+		setSurfaceSpeeds,
 
 		// Surface data
 		surfaceData,
 
+		// Turn-by-turn cues
+		cues,
+
+		// Stage state
+		stagePlan,
+		stages,
+
+		// Gradient state
+		segmentGrades,
+		climbs,
+		gradientWindow,
+		setGradientWindow,
+		selectedSection,
+		sectionStats,
+		setSelectedSection,
+		routeCursor,
+		setRouteCursor,
+		moveRouteCursorTo,
+		routeColorMode,
+		setRouteColorMode,
+
 		// Location state
 		userLocation,
 		mapCenter,
@@ -866,8 +2329,35 @@ export const MapProvider = ({ children }: MapProviderProps) => {
 		// Current route state
 		routeId,
 
-		// Vehicle preference state
-		preferOffRoad,
+		// Read-only share page state
+		sharedRoute: sharedRoute ?? null,
+		isReadOnly: !!sharedRoute,
+
+		// Route comparison state
+		comparisonRoute,
+
+		// Alternative routes
+		activeRouteSummary,
+		alternativeRoutes,
+		highlightedAlternative,
+
+		// Loop generator state
+		loopCandidates,
+		isGeneratingLoops: generateLoopsMutation.isPending,
+
+		// Checkpoint order state
+		checkpointOrderPreview,
+		isOptimisingCheckpoints: optimiseCheckpointOrderMutation.isPending,
+
+		// Activity profile and routing preference state
+		activityProfile,
+		routingPreferences,
+
+		// Avoid areas
+		routeAvoidAreas,
+		savedAvoidAreas,
+		canSaveAvoidAreas: isSignedIn && !sharedRoute,
+		draftAvoidArea,
 
 		// Drawer state
 		isDrawerOpen,
@@ -880,10 +2370,17 @@ export const MapProvider = ({ children }: MapProviderProps) => {
 		handleMapClick,
 		handleRouteClick,
 		handleRemovePoint,
+		toggleDirectLeg,
+		toggleOvernightStop,
+		setStagePlan,
+		exportStage,
+		exportSection,
+		moveToSnappedLocation,
 		handleMovePoint,
 		undo,
 		redo,
-		exportGpx,
+		exportRoute,
+		exportCueSheet,
 		toggleDrawer,
 		shareRoute,
 		clearRoute,
@@ -894,8 +2391,28 @@ export const MapProvider = ({ children }: MapProviderProps) => {
 		positionMap,
 		loadRoute,
 		duplicateRoute,
+		importRoute,
 		setPointFromSearch,
-		setPreferOffRoad,
+		setActivityProfile,
+		setRoutingPreferences,
+		showComparisonRoute,
+		clearComparisonRoute,
+		rerouteWithLatestMapData,
+		generateLoops,
+		applyLoopCandidate,
+		clearLoopCandidates,
+		optimiseCheckpointOrder,
+		applyCheckpointOrder,
+		discardCheckpointOrder,
+		setHighlightedAlternative,
+		promoteAlternativeRoute,
+		startAvoidArea,
+		finishAvoidArea,
+		cancelAvoidArea,
+		blockRoad,
+		removeAvoidArea,
+		saveAvoidAreaForAllRoutes,
+		deleteSavedAvoidArea,
 	};
 
 	return <MapContext.Provider value={value}>{children}</MapContext.Provider>;
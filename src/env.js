@@ -15,6 +15,14 @@ export const env = createEnv({
 		AUTH_GOOGLE_CLIENT_SECRET: z.string(),
 		DATABASE_URL: z.string().url(),
 		GRAPHHOPPER_API_KEY: z.string(),
+		ROUTING_PROVIDER: z
+			.enum(["graphhopper", "osrm", "valhalla", "brouter"])
+			.default("graphhopper"),
+		OSRM_API_ROOT: z.string().url().optional(),
+		VALHALLA_API_ROOT: z.string().url().optional(),
+		BROUTER_API_ROOT: z.string().url().optional(),
+		ELEVATION_API_ROOT: z.string().url().default("https://api.open-meteo.com"),
+		METRICS_TOKEN: z.string().min(16).optional(),
 		NODE_ENV: z
 			.enum(["development", "test", "production"])
 			.default("development"),
@@ -26,7 +34,9 @@ export const env = createEnv({
 	 * `NEXT_PUBLIC_`.
 	 */
 	client: {
-		// NEXT_PUBLIC_CLIENTVAR: z.string(),
+		// Most points a route can have - the planner and the engine both enforce it,
+		// so set it to the engine plan's per-request limit
+		NEXT_PUBLIC_MAX_ROUTE_POINTS: z.coerce.number().int().min(2).default(30),
 	},
 
 	/**
@@ -39,6 +49,13 @@ export const env = createEnv({
 		AUTH_GOOGLE_CLIENT_SECRET: process.env.AUTH_GOOGLE_CLIENT_SECRET,
 		DATABASE_URL: process.env.DATABASE_URL,
 		GRAPHHOPPER_API_KEY: process.env.GRAPHHOPPER_API_KEY,
+		ROUTING_PROVIDER: process.env.ROUTING_PROVIDER,
+		OSRM_API_ROOT: process.env.OSRM_API_ROOT,
+		VALHALLA_API_ROOT: process.env.VALHALLA_API_ROOT,
+		BROUTER_API_ROOT: process.env.BROUTER_API_ROOT,
+		ELEVATION_API_ROOT: process.env.ELEVATION_API_ROOT,
+		METRICS_TOKEN: process.env.METRICS_TOKEN,
+		NEXT_PUBLIC_MAX_ROUTE_POINTS: process.env.NEXT_PUBLIC_MAX_ROUTE_POINTS,
 		NODE_ENV: process.env.NODE_ENV,
 	},
 	/**
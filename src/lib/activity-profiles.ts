@@ -0,0 +1,87 @@
+import { z } from "zod";
+
+export const ACTIVITY_PROFILE_IDS = [
+	"road",
+	"gravel",
+	"mtb",
+	"ebike",
+	"running",
+	"walking",
+] as const;
+
+export const ActivityProfileSchema = z.enum(ACTIVITY_PROFILE_IDS);
+
+export type ActivityProfileId = z.infer<typeof ActivityProfileSchema>;
+
+export type ActivityProfile = {
+	label: string;
+	/** Average moving speed on the flat, km/h */
+	speed: number;
+	/** Climbing rate on top of the flat speed, meters per hour */
+	climbRate: number;
+	/** Route colour where there's no surface data, and the profile's accent in lists */
+	color: string;
+	/** Sport recorded in course exports */
+	sport: "cycling" | "e_biking" | "running" | "walking";
+};
+
+// Engine profiles for each activity live with each routing adapter
+export const ACTIVITY_PROFILES: Record<ActivityProfileId, ActivityProfile> = {
+	road: {
+		label: "Road bike",
+		speed: 25,
+		climbRate: 800,
+		color: "#0ea5e9",
+		sport: "cycling",
+	},
+	gravel: {
+		label: "Gravel bike",
+		speed: 20,
+		climbRate: 700,
+		color: "#f59e0b",
+		sport: "cycling",
+	},
+	mtb: {
+		label: "Mountain bike",
+		speed: 14,
+		climbRate: 600,
+		color: "#22c55e",
+		sport: "cycling",
+	},
+	ebike: {
+		label: "E-bike",
+		speed: 22,
+		climbRate: 1200,
+		color: "#8b5cf6",
+		sport: "e_biking",
+	},
+	running: {
+		label: "Running",
+		speed: 10,
+		climbRate: 700,
+		color: "#ef4444",
+		sport: "running",
+	},
+	walking: {
+		label: "Walking",
+		speed: 4.5,
+		climbRate: 400,
+		color: "#78716c",
+		sport: "walking",
+	},
+};
+
+export const DEFAULT_ACTIVITY_PROFILE: ActivityProfileId = "gravel";
+
+export const isActivityProfileId = (
+	value: string | null | undefined,
+): value is ActivityProfileId =>
+	ACTIVITY_PROFILE_IDS.includes(value as ActivityProfileId);
+
+/**
+ * Profile for routes saved before activity profiles, which only had the
+ * off-road switch - off-road routed as a hiker, road as a general bike
+ */
+export const getLegacyActivityProfile = (
+	offRoad: boolean,
+): ActivityProfileId => (offRoad ? "walking" : "gravel");
@@ -0,0 +1,101 @@
+import { deflate, inflate } from "pako";
+import { z } from "zod";
+import { destinationPoint } from "./geo-utils";
+
+// Kept small so every calculate request stays a reasonable size
+export const MAX_AVOID_AREAS = 25;
+const MAX_AREA_VERTICES = 50;
+
+// Blocking a road drops a small polygon over it, wide enough to cover the carriageway
+export const BLOCKED_ROAD_RADIUS = 15; // meters
+const BLOCKED_ROAD_SIDES = 8;
+
+export const AVOID_AREA_KINDS = {
+	area: "Avoided area",
+	block: "Blocked road",
+} as const;
+
+export const AvoidAreaSchema = z.object({
+	id: z.string().min(1).max(40),
+	kind: z.enum(["area", "block"]),
+	polygon: z
+		.array(z.object({ lat: z.number(), lng: z.number() }))
+		.min(3)
+		.max(MAX_AREA_VERTICES),
+});
+
+export type AvoidArea = z.infer<typeof AvoidAreaSchema>;
+
+export const AvoidAreasSchema = z.array(AvoidAreaSchema).max(MAX_AVOID_AREAS);
+
+export const createAvoidAreaId = () => crypto.randomUUID();
+
+/**
+ * Small polygon around a clicked road, so routing can't pass through that point
+ */
+export const createBlockedRoad = (point: {
+	lat: number;
+	lng: number;
+}): AvoidArea => ({
+	id: createAvoidAreaId(),
+	kind: "block",
+	polygon: Array.from({ length: BLOCKED_ROAD_SIDES }, (_, index) =>
+		destinationPoint(
+			point,
+			(index * 360) / BLOCKED_ROAD_SIDES,
+			BLOCKED_ROAD_RADIUS,
+		),
+	),
+});
+
+/**
+ * Closed [lng, lat] ring of an area, as GeoJSON and most engines expect it
+ */
+export const toLngLatRing = (area: AvoidArea): Array<[number, number]> => {
+	const ring = area.polygon.map(
+		({ lat, lng }) => [lng, lat] as [number, number],
+	);
+	const first = ring[0];
+	return first ? [...ring, first] : ring;
+};
+
+/**
+ * Whether two lists of areas avoid the same places
+ */
+export const isSameAvoidAreas = (a: AvoidArea[], b: AvoidArea[]): boolean =>
+	a.length === b.length &&
+	a.every(
+		(area, index) =>
+			JSON.stringify(area.polygon) === JSON.stringify(b[index]?.polygon),
+	);
+
+/**
+ * Reads areas stored as JSON, dropping anything that no longer validates
+ */
+export const parseStoredAvoidAreas = (value: unknown): AvoidArea[] => {
+	const result = AvoidAreasSchema.safeParse(value);
+	return result.success ? result.data : [];
+};
+
+/**
+ * Compresses areas for the URL the same way route points are encoded
+ */
+export const encodeAvoidAreasForUrl = (areas: AvoidArea[]): string =>
+	btoa(String.fromCharCode(...deflate(JSON.stringify(areas))));
+
+/**
+ * Decodes areas from the URL, returning null for anything malformed
+ */
+export const decodeAvoidAreasFromUrl = (
+	encoded: string,
+): AvoidArea[] | null => {
+	try {
+		const compressed = Uint8Array.from(atob(encoded), (c) => c.charCodeAt(0));
+		const result = AvoidAreasSchema.safeParse(
+			JSON.parse(inflate(compressed, { to: "string" })),
+		);
+		return result.success ? result.data : null;
+	} catch {
+		return null;
+	}
+};
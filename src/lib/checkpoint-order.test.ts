@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import {
+	buildReorderedRoutePoints,
+	fillUnreachableDistances,
+	findShortestOrder,
+	getOrderDistance,
+	isLoopRoute,
+} from "./checkpoint-order";
+import type { RoutePoint } from "./graphhopper";
+
+// Small seeded generator, so failures can be replayed
+const createRandom = (seed: number) => {
+	let state = seed;
+	return () => {
+		state = (state * 1_103_515_245 + 12_345) % 2 ** 31;
+		return state / 2 ** 31;
+	};
+};
+
+/**
+ * Distances between a start, `count` checkpoints and an end - one way
+ * distances differ, like a road network's
+ */
+const buildMatrix = (count: number, seed: number): number[][] => {
+	const random = createRandom(seed);
+	return Array.from({ length: count + 2 }, (_, i) =>
+		Array.from({ length: count + 2 }, (_, j) =>
+			i === j ? 0 : Math.round(random() * 10_000),
+		),
+	);
+};
+
+const permutations = (items: number[]): number[][] =>
+	items.length <= 1
+		? [items]
+		: items.flatMap((item, index) =>
+				permutations(items.filter((_, other) => other !== index)).map(
+					(rest) => [item, ...rest],
+				),
+			);
+
+const bruteForceDistance = (matrix: number[][], count: number, loop: boolean) =>
+	Math.min(
+		...permutations(Array.from({ length: count }, (_, i) => i)).map((order) =>
+			getOrderDistance(matrix, order, loop),
+		),
+	);
+
+describe("getOrderDistance", () => {
+	it("adds up the legs from the start through the checkpoints", () => {
+		const matrix = [
+			[0, 1, 2, 3],
+			[10, 0, 20, 30],
+			[100, 200, 0, 300],
+			[0, 0, 0, 0],
+		];
+
+		expect(getOrderDistance(matrix, [0, 1], false)).toBe(1 + 20 + 300);
+		expect(getOrderDistance(matrix, [1, 0], false)).toBe(2 + 200 + 30);
+		// Loops finish back at the start
+		expect(getOrderDistance(matrix, [1, 0], true)).toBe(2 + 200 + 10);
+	});
+});
+
+describe("findShortestOrder", () => {
+	for (const loop of [false, true]) {
+		it(`matches trying every order${loop ? " on loops" : ""}`, () => {
+			for (let count = 1; count <= 8; count++) {
+				for (let seed = 1; seed <= 5; seed++) {
+					const matrix = buildMatrix(count, seed * 100 + count);
+					const order = findShortestOrder(matrix, count, loop);
+
+					expect([...order].sort((a, b) => a - b)).toEqual(
+						Array.from({ length: count }, (_, i) => i),
+					);
+					expect(getOrderDistance(matrix, order, loop)).toBe(
+						bruteForceDistance(matrix, count, loop),
+					);
+				}
+			}
+		});
+	}
+
+	it("keeps the current order when nothing is shorter", () => {
+		// Checkpoints already in a line from start to end
+		const positions = [0, 1, 2, 3, 4, 5];
+		const matrix = positions.map((from) =>
+			positions.map((to) => Math.abs(to - from)),
+		);
+
+		expect(findShortestOrder(matrix, 4, false)).toEqual([0, 1, 2, 3]);
+	});
+
+	it("never makes long routes worse than their current order", () => {
+		const count = 15;
+		for (let seed = 1; seed <= 3; seed++) {
+			const matrix = buildMatrix(count, seed);
+			const current = Array.from({ length: count }, (_, i) => i);
+			const order = findShortestOrder(matrix, count, false);
+
+			expect([...order].sort((a, b) => a - b)).toEqual(current);
+			expect(getOrderDistance(matrix, order, false)).toBeLessThanOrEqual(
+				getOrderDistance(matrix, current, false),
+			);
+		}
+	});
+});
+
+describe("fillUnreachableDistances", () => {
+	it("counts unreachable pairs as long detours", () => {
+		expect(
+			fillUnreachableDistances(
+				[
+					[0, null],
+					[5, 0],
+				],
+				[
+					[0, 3],
+					[3, 0],
+				],
+			),
+		).toEqual([
+			[0, 30],
+			[5, 0],
+		]);
+	});
+});
+
+describe("isLoopRoute", () => {
+	it("treats routes finishing near their start as loops", () => {
+		const start: RoutePoint = { lat: 51, lng: -1, type: "start" };
+
+		expect(isLoopRoute([start, { lat: 51.0005, lng: -1, type: "end" }])).toBe(
+			true,
+		);
+		expect(isLoopRoute([start, { lat: 51.01, lng: -1, type: "end" }])).toBe(
+			false,
+		);
+		expect(isLoopRoute([start])).toBe(false);
+	});
+});
+
+describe("buildReorderedRoutePoints", () => {
+	const routePoints: RoutePoint[] = [
+		{ lat: 0, lng: 0, type: "start" },
+		{ lat: 1, lng: 0, type: "checkpoint", name: "A" },
+		{ lat: 1.5, lng: 0, type: "waypoint" },
+		{ lat: 2, lng: 0, type: "checkpoint", name: "B", direct: true },
+		{ lat: 3, lng: 0, type: "end", name: "Finish" },
+	];
+
+	it("visits the checkpoints in the new order, dropping shaping points", () => {
+		expect(buildReorderedRoutePoints(routePoints, [1, 0], false)).toEqual([
+			{ lat: 0, lng: 0, type: "start" },
+			{ lat: 2, lng: 0, type: "checkpoint", name: "B" },
+			{ lat: 1, lng: 0, type: "checkpoint", name: "A" },
+			{ lat: 3, lng: 0, type: "end", name: "Finish" },
+		]);
+	});
+
+	it("finishes loops back at the start", () => {
+		expect(buildReorderedRoutePoints(routePoints, [0, 1], true).at(-1)).toEqual(
+			{ lat: 0, lng: 0, type: "end" },
+		);
+	});
+});
@@ -0,0 +1,270 @@
+import { z } from "zod";
+import { ActivityProfileSchema } from "./activity-profiles";
+import { calculateDistance } from "./geo-utils";
+import type { LatLngPoint } from "./geometry";
+import type { RoutePoint } from "./graphhopper";
+
+// Every order is tried exactly up to this many checkpoints, beyond it a heuristic is used
+const MAX_EXACT_CHECKPOINTS = 10;
+export const MAX_OPTIMISED_CHECKPOINTS = 25;
+
+const LatLngSchema = z.object({ lat: z.number(), lng: z.number() });
+
+// Checkpoints are visited between a fixed start and end, or from the start back to it
+export const OptimiseCheckpointOrderSchema = z.object({
+	start: LatLngSchema,
+	checkpoints: z.array(LatLngSchema).min(2).max(MAX_OPTIMISED_CHECKPOINTS),
+	end: LatLngSchema.optional(), // Omitted for a loop back to the start
+	profile: ActivityProfileSchema,
+});
+
+export type OptimiseCheckpointOrderInput = z.infer<
+	typeof OptimiseCheckpointOrderSchema
+>;
+
+export const CheckpointOrderSchema = z.object({
+	/** Indices into the input checkpoints, in visiting order */
+	order: z.array(z.number().int()),
+	currentDistance: z.number(), // meters
+	optimisedDistance: z.number(), // meters
+	/** Whether distances came from the routing engine or straight lines */
+	source: z.enum(["network", "straight_line"]),
+});
+
+export type CheckpointOrder = z.infer<typeof CheckpointOrderSchema>;
+
+// A suggested order waiting to be applied, with the route points it produces
+export type CheckpointOrderPreview = CheckpointOrder & {
+	loop: boolean;
+	routePoints: RoutePoint[];
+};
+
+// Routes finishing this close to their start are treated as loops
+const LOOP_CLOSURE_DISTANCE = 100; // meters
+
+/**
+ * Whether the route already finishes back where it started
+ */
+export const isLoopRoute = (routePoints: RoutePoint[]): boolean => {
+	const start = routePoints.find((point) => point.type === "start");
+	const end = routePoints.find((point) => point.type === "end");
+	return (
+		!!start &&
+		!!end &&
+		calculateDistance({ from: start, to: end, unit: "m" }) <=
+			LOOP_CLOSURE_DISTANCE
+	);
+};
+
+/**
+ * Matrix of straight-line distances (meters) between every pair of points
+ */
+export const getStraightLineMatrix = (points: LatLngPoint[]): number[][] =>
+	points.map((from) =>
+		points.map((to) => calculateDistance({ from, to, unit: "m" })),
+	);
+
+// Pairs the engine can't connect count as this many times their straight-line distance
+const UNREACHABLE_DETOUR_FACTOR = 10;
+
+/**
+ * Network distance matrix with unreachable pairs filled in as long detours,
+ * so the order search still has a cost for them
+ */
+export const fillUnreachableDistances = (
+	distances: Array<Array<number | null>>,
+	straightLines: number[][],
+): number[][] =>
+	distances.map((row, i) =>
+		row.map(
+			(distance, j) =>
+				distance ?? (straightLines[i]?.[j] ?? 0) * UNREACHABLE_DETOUR_FACTOR,
+		),
+	);
+
+/**
+ * Total distance of visiting checkpoints in `order`. Matrix nodes are laid out
+ * as 0 = start, 1..n = checkpoints and n + 1 = end; loops return to node 0
+ */
+export const getOrderDistance = (
+	matrix: number[][],
+	order: number[],
+	loop: boolean,
+): number => {
+	const end = loop ? 0 : order.length + 1;
+	const nodes = [...order.map((index) => index + 1), end];
+
+	let total = 0;
+	let previous = 0;
+	for (const node of nodes) {
+		total += matrix[previous]?.[node] ?? 0;
+		previous = node;
+	}
+	return total;
+};
+
+/**
+ * Held-Karp dynamic programme over subsets of checkpoints - exact, and quick
+ * for the handful of checkpoints a ride usually has
+ */
+function solveExact(matrix: number[][], count: number, end: number): number[] {
+	const distance = (from: number, to: number) =>
+		matrix[from]?.[to] ?? Number.POSITIVE_INFINITY;
+	const size = 1 << count;
+	// cost[mask][j]: shortest path from the start through `mask`, ending at checkpoint j
+	const cost = Array.from({ length: size }, () =>
+		new Array<number>(count).fill(Number.POSITIVE_INFINITY),
+	);
+	const parent = Array.from({ length: size }, () =>
+		new Array<number>(count).fill(-1),
+	);
+
+	for (let j = 0; j < count; j++) {
+		const row = cost[1 << j];
+		if (row) row[j] = distance(0, j + 1);
+	}
+
+	for (let mask = 1; mask < size; mask++) {
+		for (let j = 0; j < count; j++) {
+			const current = cost[mask]?.[j] ?? Number.POSITIVE_INFINITY;
+			if (!(mask & (1 << j)) || current === Number.POSITIVE_INFINITY) continue;
+
+			for (let k = 0; k < count; k++) {
+				if (mask & (1 << k)) continue;
+				const next = mask | (1 << k);
+				const candidate = current + distance(j + 1, k + 1);
+				const nextRow = cost[next];
+				const nextParents = parent[next];
+				if (nextRow && nextParents && candidate < (nextRow[k] ?? 0)) {
+					nextRow[k] = candidate;
+					nextParents[k] = j;
+				}
+			}
+		}
+	}
+
+	// Pick the best last checkpoint, then walk the parents back to the start
+	const full = size - 1;
+	let last = 0;
+	for (let j = 1; j < count; j++) {
+		const best = (cost[full]?.[last] ?? 0) + distance(last + 1, end);
+		if ((cost[full]?.[j] ?? 0) + distance(j + 1, end) < best) last = j;
+	}
+
+	const order: number[] = [];
+	let mask = full;
+	let current = last;
+	while (current !== -1) {
+		order.unshift(current);
+		const previous = parent[mask]?.[current] ?? -1;
+		mask &= ~(1 << current);
+		current = previous;
+	}
+	return order;
+}
+
+/**
+ * Nearest-neighbour tour improved with 2-opt segment reversals, for routes
+ * with too many checkpoints to try every order
+ */
+function solveHeuristic(
+	matrix: number[][],
+	count: number,
+	loop: boolean,
+): number[] {
+	const remaining = new Set(Array.from({ length: count }, (_, i) => i));
+	let order: number[] = [];
+	let previous = 0;
+	while (remaining.size > 0) {
+		let nearest = -1;
+		for (const index of remaining) {
+			if (
+				nearest === -1 ||
+				(matrix[previous]?.[index + 1] ?? 0) <
+					(matrix[previous]?.[nearest + 1] ?? 0)
+			) {
+				nearest = index;
+			}
+		}
+		order.push(nearest);
+		remaining.delete(nearest);
+		previous = nearest + 1;
+	}
+
+	let best = getOrderDistance(matrix, order, loop);
+	let improved = true;
+	while (improved) {
+		improved = false;
+		for (let i = 0; i < count - 1; i++) {
+			for (let j = i + 1; j < count; j++) {
+				const candidate = [
+					...order.slice(0, i),
+					...order.slice(i, j + 1).reverse(),
+					...order.slice(j + 1),
+				];
+				const distance = getOrderDistance(matrix, candidate, loop);
+				if (distance < best - 1e-6) {
+					order = candidate;
+					best = distance;
+					improved = true;
+				}
+			}
+		}
+	}
+	return order;
+}
+
+/**
+ * Shortest order to visit `count` checkpoints, given a distance matrix laid
+ * out as described in `getOrderDistance`. Never worse than the current order
+ */
+export const findShortestOrder = (
+	matrix: number[][],
+	count: number,
+	loop: boolean,
+): number[] => {
+	const current = Array.from({ length: count }, (_, i) => i);
+	const candidate =
+		count <= MAX_EXACT_CHECKPOINTS
+			? solveExact(matrix, count, loop ? 0 : count + 1)
+			: solveHeuristic(matrix, count, loop);
+
+	return getOrderDistance(matrix, candidate, loop) <
+		getOrderDistance(matrix, current, loop)
+		? candidate
+		: current;
+};
+
+/**
+ * Route points visiting the checkpoints in a new order. Shaping waypoints
+ * are dropped, as the legs they shaped no longer exist; loops finish back
+ * at the start
+ */
+export const buildReorderedRoutePoints = (
+	routePoints: RoutePoint[],
+	order: number[],
+	loop: boolean,
+): RoutePoint[] => {
+	const start = routePoints.find((point) => point.type === "start");
+	const end = routePoints.find((point) => point.type === "end");
+	const checkpoints = routePoints.filter(
+		(point) => point.type === "checkpoint",
+	);
+	if (!start) return routePoints;
+
+	const finish: RoutePoint | undefined = loop
+		? { lat: start.lat, lng: start.lng, type: "end" }
+		: end && { lat: end.lat, lng: end.lng, type: "end", name: end.name };
+
+	return [
+		start,
+		...order.flatMap((index) => {
+			const checkpoint = checkpoints[index];
+			if (!checkpoint) return [];
+			// Legs are new, so straight-line flags from the old order don't carry over
+			const { direct: _direct, ...rest } = checkpoint;
+			return [rest];
+		}),
+		...(finish ? [finish] : []),
+	];
+};
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import {
+	type Cue,
+	buildCueSheet,
+	generateCueSheetCsv,
+	generateCueSheetHtml,
+	getCueType,
+	getTurnCues,
+} from "./cue-sheet";
+import type { Instruction } from "./graphhopper";
+
+type Coordinate = [number, number, number];
+
+const coordinates: Coordinate[] = [
+	[-1, 51, 0],
+	[-1, 51.01, 0],
+	[-1.01, 51.01, 0],
+];
+
+const instruction = (
+	sign: number,
+	text: string,
+	distance: number,
+	from: number,
+	street_name?: string,
+): Instruction => ({
+	distance,
+	time: 0,
+	sign,
+	text,
+	interval: [from, from + 1],
+	street_name,
+});
+
+const cue = (overrides: Partial<Cue>): Cue => ({
+	type: "continue",
+	text: "Continue",
+	distanceFromStart: 0,
+	distance: 0,
+	coordinateIndex: 0,
+	lat: 51,
+	lng: -1,
+	...overrides,
+});
+
+describe("getCueType", () => {
+	it("maps GraphHopper signs, treating unknown ones as straight on", () => {
+		expect(getCueType(-2)).toBe("left");
+		expect(getCueType(6)).toBe("roundabout");
+		expect(getCueType(4)).toBe("finish");
+		expect(getCueType(42)).toBe("continue");
+	});
+});
+
+describe("buildCueSheet", () => {
+	it("places each cue at the sum of the instructions before it", () => {
+		const cues = buildCueSheet(
+			[
+				instruction(0, "Continue onto Main Street", 1100, 0, "Main Street"),
+				instruction(-2, "Turn left", 700, 1, ""),
+				instruction(4, "Arrive at destination", 0, 2),
+			],
+			coordinates,
+		);
+
+		expect(cues).toEqual([
+			cue({
+				text: "Continue onto Main Street",
+				streetName: "Main Street",
+				distance: 1100,
+			}),
+			cue({
+				type: "left",
+				text: "Turn left",
+				distanceFromStart: 1100,
+				distance: 700,
+				coordinateIndex: 1,
+				lat: 51.01,
+			}),
+			cue({
+				type: "finish",
+				text: "Arrive at destination",
+				distanceFromStart: 1800,
+				coordinateIndex: 2,
+				lat: 51.01,
+				lng: -1.01,
+			}),
+		]);
+	});
+
+	it("skips instructions outside the route but still counts their distance", () => {
+		const cues = buildCueSheet(
+			[instruction(0, "Lost", 500, 10), instruction(2, "Turn right", 0, 1)],
+			coordinates,
+		);
+
+		expect(cues).toHaveLength(1);
+		expect(cues[0]).toMatchObject({ type: "right", distanceFromStart: 500 });
+	});
+});
+
+describe("getTurnCues", () => {
+	it("drops plain continue cues", () => {
+		const turn = cue({ type: "left" });
+		expect(getTurnCues([cue({}), turn])).toEqual([turn]);
+	});
+});
+
+describe("generateCueSheetCsv", () => {
+	it("writes a row per cue in kilometers, quoting where needed", () => {
+		const csv = generateCueSheetCsv([
+			cue({ text: "Continue", distance: 1234 }),
+			cue({
+				type: "left",
+				text: 'Turn left onto "High Street", then stop',
+				streetName: "High Street",
+				distanceFromStart: 1234,
+				distance: 50,
+			}),
+		]);
+
+		expect(csv.split("\n")).toEqual([
+			"#,Distance (km),Turn,Instruction,Street,Next (km)",
+			"1,0.00,Straight,Continue,,1.23",
+			'2,1.23,Left,"Turn left onto ""High Street"", then stop",High Street,0.05',
+		]);
+	});
+});
+
+describe("generateCueSheetHtml", () => {
+	it("escapes the route name and instructions", () => {
+		const html = generateCueSheetHtml(
+			[cue({ type: "left", text: "Turn left <here> & on", distance: 0 })],
+			{ name: "Tom's <Ride>", totalDistance: 12_345 },
+		);
+
+		expect(html).toContain(
+			"<title>Tom&apos;s &lt;Ride&gt; - Cue sheet</title>",
+		);
+		expect(html).toContain("<td>Turn left &lt;here&gt; &amp; on</td>");
+		expect(html).toContain("12.3km &middot; 1 cues");
+		expect(html).not.toContain("<here>");
+	});
+});
@@ -0,0 +1,193 @@
+import type { Instruction } from "./graphhopper";
+import { escapeXml } from "./route-export";
+import { formatDistance } from "./route-utils";
+
+type Coordinate = [number, number, number]; // [lng, lat, elevation]
+
+export type CueType =
+	| "continue"
+	| "slight_left"
+	| "left"
+	| "sharp_left"
+	| "slight_right"
+	| "right"
+	| "sharp_right"
+	| "keep_left"
+	| "keep_right"
+	| "u_turn"
+	| "roundabout"
+	| "via"
+	| "finish";
+
+// GraphHopper instruction signs, see https://docs.graphhopper.com/#operation/postRoute
+const CUE_TYPE_BY_SIGN: Record<number, CueType> = {
+	[-98]: "u_turn",
+	[-8]: "u_turn",
+	[-7]: "keep_left",
+	[-6]: "roundabout",
+	[-3]: "sharp_left",
+	[-2]: "left",
+	[-1]: "slight_left",
+	0: "continue",
+	1: "slight_right",
+	2: "right",
+	3: "sharp_right",
+	4: "finish",
+	5: "via",
+	6: "roundabout",
+	7: "keep_right",
+	8: "u_turn",
+};
+
+export const CUE_TYPE_LABELS: Record<CueType, string> = {
+	continue: "Straight",
+	slight_left: "Slight left",
+	left: "Left",
+	sharp_left: "Sharp left",
+	slight_right: "Slight right",
+	right: "Right",
+	sharp_right: "Sharp right",
+	keep_left: "Keep left",
+	keep_right: "Keep right",
+	u_turn: "U-turn",
+	roundabout: "Roundabout",
+	via: "Via",
+	finish: "Finish",
+};
+
+export type Cue = {
+	type: CueType;
+	text: string;
+	streetName?: string;
+	/** Meters from the route start to this cue */
+	distanceFromStart: number;
+	/** Meters until the next cue */
+	distance: number;
+	/** Index into the route coordinates where the cue applies */
+	coordinateIndex: number;
+	lat: number;
+	lng: number;
+};
+
+export const getCueType = (sign: number): CueType =>
+	CUE_TYPE_BY_SIGN[sign] ?? "continue";
+
+/**
+ * Turns routing instructions into cues positioned along the route
+ * Each instruction's distance covers the stretch after its manoeuvre,
+ * so a cue's distance from start is the sum of all earlier instructions
+ */
+export function buildCueSheet(
+	instructions: Instruction[],
+	coordinates: Coordinate[],
+): Cue[] {
+	let distanceFromStart = 0;
+
+	return instructions.flatMap((instruction) => {
+		const coordinateIndex = instruction.interval[0];
+		const coordinate = coordinates[coordinateIndex];
+		const cueDistanceFromStart = distanceFromStart;
+		distanceFromStart += instruction.distance;
+
+		if (!coordinate) return [];
+
+		return [
+			{
+				type: getCueType(instruction.sign),
+				text: instruction.text,
+				streetName: instruction.street_name || undefined,
+				distanceFromStart: cueDistanceFromStart,
+				distance: instruction.distance,
+				coordinateIndex,
+				lat: coordinate[1],
+				lng: coordinate[0],
+			},
+		];
+	});
+}
+
+/**
+ * Cues worth a course point on a device - plain "continue" cues are noise
+ */
+export const getTurnCues = (cues: Cue[]) =>
+	cues.filter((cue) => cue.type !== "continue");
+
+const escapeCsv = (value: string) =>
+	/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * CSV cue sheet with distances in kilometers
+ */
+export function generateCueSheetCsv(cues: Cue[]): string {
+	const header = [
+		"#",
+		"Distance (km)",
+		"Turn",
+		"Instruction",
+		"Street",
+		"Next (km)",
+	];
+	const rows = cues.map((cue, index) => [
+		String(index + 1),
+		(cue.distanceFromStart / 1000).toFixed(2),
+		CUE_TYPE_LABELS[cue.type],
+		cue.text,
+		cue.streetName ?? "",
+		(cue.distance / 1000).toFixed(2),
+	]);
+
+	return [header, ...rows]
+		.map((row) => row.map(escapeCsv).join(","))
+		.join("\n");
+}
+
+/**
+ * Standalone HTML cue sheet styled for printing (or saving as PDF)
+ */
+export function generateCueSheetHtml(
+	cues: Cue[],
+	{ name, totalDistance }: { name: string; totalDistance: number },
+): string {
+	const rows = cues
+		.map(
+			(cue, index) => `        <tr>
+          <td>${index + 1}</td>
+          <td>${formatDistance(cue.distanceFromStart)}</td>
+          <td>${escapeXml(CUE_TYPE_LABELS[cue.type])}</td>
+          <td>${escapeXml(cue.text)}</td>
+          <td>${cue.distance > 0 ? formatDistance(cue.distance) : ""}</td>
+        </tr>`,
+		)
+		.join("\n");
+
+	return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeXml(name)} - Cue sheet</title>
+    <style>
+      body { font-family: system-ui, sans-serif; margin: 2rem; color: #111; }
+      h1 { font-size: 1.25rem; margin: 0 0 0.25rem; }
+      p { margin: 0 0 1rem; color: #555; }
+      table { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+      th, td { text-align: left; padding: 0.25rem 0.5rem; border-bottom: 1px solid #ddd; }
+      th { border-bottom: 2px solid #111; }
+      tr { break-inside: avoid; }
+      @page { margin: 1.5cm; }
+      @media print { body { margin: 0; } }
+    </style>
+  </head>
+  <body>
+    <h1>${escapeXml(name)}</h1>
+    <p>${formatDistance(totalDistance)} &middot; ${cues.length} cues</p>
+    <table>
+      <thead>
+        <tr><th>#</th><th>At</th><th>Turn</th><th>Instruction</th><th>Then</th></tr>
+      </thead>
+      <tbody>
+${rows}
+      </tbody>
+    </table>
+  </body>
+</html>`;
+}
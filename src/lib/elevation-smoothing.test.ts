@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+	DEFAULT_ELEVATION_SMOOTHING,
+	parseStoredElevationSmoothing,
+	smoothCoordinateElevations,
+	smoothElevations,
+} from "./elevation-smoothing";
+
+type Coordinate = [number, number, number];
+
+// Points every 50m
+const distancesFor = (elevations: number[]) =>
+	elevations.map((_, index) => index * 50);
+
+describe("smoothElevations", () => {
+	it("leaves the elevations alone without a method or enough points", () => {
+		const elevations = [0, 10, 0, 10];
+
+		expect(
+			smoothElevations(distancesFor(elevations), elevations, "none"),
+		).toEqual(elevations);
+		expect(smoothElevations([0, 50], [0, 10], "hysteresis")).toEqual([0, 10]);
+	});
+
+	it("averages each point with the 200m around it", () => {
+		const elevations = [0, 0, 0, 0, 20, 0, 0, 0, 0];
+		const smoothed = smoothElevations(
+			distancesFor(elevations),
+			elevations,
+			"moving-average",
+		);
+
+		// The spike is shared between the five points within 100m either side
+		expect(smoothed.slice(2, 7)).toEqual([4, 4, 4, 4, 4]);
+		expect(smoothed[0]).toBe(0);
+		expect(smoothed[8]).toBe(0);
+	});
+
+	it("keeps an even slope as it is, away from the ends", () => {
+		const elevations = Array.from({ length: 11 }, (_, index) => index * 5);
+		const smoothed = smoothElevations(
+			distancesFor(elevations),
+			elevations,
+			"moving-average",
+		);
+
+		expect(smoothed.slice(2, -2)).toEqual(elevations.slice(2, -2));
+	});
+
+	it("only follows changes bigger than the 5m threshold", () => {
+		const elevations = [0, 3, -3, 2, 10, 12, 4, -20];
+
+		expect(
+			smoothElevations(distancesFor(elevations), elevations, "hysteresis"),
+		).toEqual([0, 0, 0, 0, 5, 7, 7, -15]);
+	});
+
+	it("puts points within 5m of the simplified profile onto it", () => {
+		const wobbly = [0, 2, 0, -2, 0];
+		const peak = [0, 12, 20, 12, 0];
+
+		expect(
+			smoothElevations(distancesFor(wobbly), wobbly, "douglas-peucker"),
+		).toEqual([0, 0, 0, 0, 0]);
+		expect(
+			smoothElevations(distancesFor(peak), peak, "douglas-peucker"),
+		).toEqual([0, 10, 20, 10, 0]);
+	});
+});
+
+describe("smoothCoordinateElevations", () => {
+	it("smooths the elevations of route coordinates, keeping their positions", () => {
+		const coordinates: Coordinate[] = [
+			[-1, 51, 100],
+			[-1, 51.001, 103],
+			[-1, 51.002, 98],
+			[-1, 51.003, 120],
+		];
+
+		expect(smoothCoordinateElevations(coordinates, "hysteresis")).toEqual([
+			[-1, 51, 100],
+			[-1, 51.001, 100],
+			[-1, 51.002, 100],
+			[-1, 51.003, 115],
+		]);
+		expect(smoothCoordinateElevations(coordinates, "none")).toBe(coordinates);
+	});
+});
+
+describe("parseStoredElevationSmoothing", () => {
+	it("falls back to the default for unknown methods", () => {
+		expect(parseStoredElevationSmoothing("moving-average")).toBe(
+			"moving-average",
+		);
+		expect(parseStoredElevationSmoothing("kalman")).toBe(
+			DEFAULT_ELEVATION_SMOOTHING,
+		);
+		expect(parseStoredElevationSmoothing(undefined)).toBe(
+			DEFAULT_ELEVATION_SMOOTHING,
+		);
+	});
+});
@@ -0,0 +1,197 @@
+import { z } from "zod";
+import { calculateDistance } from "./geo-utils";
+
+type Coordinate = [number, number, number]; // [lng, lat, elevation]
+
+export const ELEVATION_SMOOTHING_METHODS = {
+	none: {
+		label: "None",
+		description: "Every up and down in the elevation data counts.",
+	},
+	"moving-average": {
+		label: "Moving average",
+		description: "Each point is averaged with the 200m of route around it.",
+	},
+	hysteresis: {
+		label: "Threshold",
+		description:
+			"Climbing only counts once the road has risen 5m, like most GPS devices.",
+	},
+	"douglas-peucker": {
+		label: "Simplified profile",
+		description:
+			"The profile is cut down to the points that shape it to within 5m.",
+	},
+} as const;
+
+export const ElevationSmoothingSchema = z.enum([
+	"none",
+	"moving-average",
+	"hysteresis",
+	"douglas-peucker",
+]);
+
+export type ElevationSmoothing = z.infer<typeof ElevationSmoothingSchema>;
+
+// Close to what Strava and Garmin report
+export const DEFAULT_ELEVATION_SMOOTHING: ElevationSmoothing = "hysteresis";
+
+const MOVING_AVERAGE_WINDOW = 200; // meters
+const HYSTERESIS_THRESHOLD = 5; // meters
+const SIMPLIFY_TOLERANCE = 5; // meters
+
+/**
+ * Reads a method stored in the browser, falling back to the default
+ */
+export const parseStoredElevationSmoothing = (
+	value: unknown,
+): ElevationSmoothing => {
+	const result = ElevationSmoothingSchema.safeParse(value);
+	return result.success ? result.data : DEFAULT_ELEVATION_SMOOTHING;
+};
+
+/**
+ * Average of the elevations within half the window either side of each point
+ */
+const movingAverage = (distances: number[], elevations: number[]): number[] => {
+	const half = MOVING_AVERAGE_WINDOW / 2;
+	let from = 0;
+	let to = 0;
+	let sum = 0;
+
+	return elevations.map((_, index) => {
+		const distance = distances[index] ?? 0;
+		while (to < elevations.length && (distances[to] ?? 0) <= distance + half) {
+			sum += elevations[to] ?? 0;
+			to++;
+		}
+		while ((distances[from] ?? 0) < distance - half) {
+			sum -= elevations[from] ?? 0;
+			from++;
+		}
+		return sum / (to - from);
+	});
+};
+
+/**
+ * Follows the elevation only once it has moved further than the threshold
+ * from the line, so wobbles smaller than that never add up to climbing
+ */
+const hysteresis = (elevations: number[]): number[] => {
+	let held = elevations[0] ?? 0;
+
+	return elevations.map((elevation) => {
+		if (elevation > held + HYSTERESIS_THRESHOLD) {
+			held = elevation - HYSTERESIS_THRESHOLD;
+		} else if (elevation < held - HYSTERESIS_THRESHOLD) {
+			held = elevation + HYSTERESIS_THRESHOLD;
+		}
+		return held;
+	});
+};
+
+/**
+ * Douglas-Peucker on the profile: keeps the points more than the tolerance
+ * above or below the line between their neighbours, with the rest put back
+ * on that line so every point still has an elevation
+ */
+const simplifyProfile = (
+	distances: number[],
+	elevations: number[],
+): number[] => {
+	const last = elevations.length - 1;
+	const keep = new Set([0, last]);
+	const elevationAt = (index: number) => elevations[index] ?? 0;
+	const distanceAt = (index: number) => distances[index] ?? 0;
+	const lineAt = (index: number, start: number, end: number) => {
+		const run = distanceAt(end) - distanceAt(start);
+		const share = run > 0 ? (distanceAt(index) - distanceAt(start)) / run : 0;
+		return elevationAt(start) + (elevationAt(end) - elevationAt(start)) * share;
+	};
+
+	// A stack rather than recursion, as long routes have many thousands of points
+	const stack: Array<[number, number]> = [[0, last]];
+	while (stack.length > 0) {
+		const [start, end] = stack.pop() ?? [0, 0];
+		let furthest = -1;
+		let furthestOffset = SIMPLIFY_TOLERANCE;
+		for (let index = start + 1; index < end; index++) {
+			const offset = Math.abs(elevationAt(index) - lineAt(index, start, end));
+			if (offset > furthestOffset) {
+				furthest = index;
+				furthestOffset = offset;
+			}
+		}
+		if (furthest !== -1) {
+			keep.add(furthest);
+			stack.push([start, furthest], [furthest, end]);
+		}
+	}
+
+	const kept = [...keep].sort((a, b) => a - b);
+	let segment = 0;
+	return elevations.map((elevation, index) => {
+		while ((kept[segment + 1] ?? last) < index) segment++;
+		const start = kept[segment] ?? 0;
+		const end = kept[segment + 1] ?? last;
+		return keep.has(index) ? elevation : lineAt(index, start, end);
+	});
+};
+
+/**
+ * Elevations along a route with the noise taken out by the chosen method.
+ * `distances` are running totals from the start, in meters
+ */
+export const smoothElevations = (
+	distances: number[],
+	elevations: number[],
+	method: ElevationSmoothing,
+): number[] => {
+	if (elevations.length < 3) return elevations;
+
+	switch (method) {
+		case "moving-average":
+			return movingAverage(distances, elevations);
+		case "hysteresis":
+			return hysteresis(elevations);
+		case "douglas-peucker":
+			return simplifyProfile(distances, elevations);
+		default:
+			return elevations;
+	}
+};
+
+/**
+ * Route coordinates with their elevations smoothed, ready for the profile,
+ * climbing totals and climb detection
+ */
+export const smoothCoordinateElevations = (
+	coordinates: Coordinate[],
+	method: ElevationSmoothing,
+): Coordinate[] => {
+	if (method === "none") return coordinates;
+
+	let total = 0;
+	const distances = coordinates.map(([lng, lat], index) => {
+		const previous = coordinates[index - 1];
+		if (previous) {
+			total += calculateDistance({
+				from: { lat: previous[1], lng: previous[0] },
+				to: { lat, lng },
+				unit: "m",
+			});
+		}
+		return total;
+	});
+	const elevations = smoothElevations(
+		distances,
+		coordinates.map(([, , elevation]) => elevation),
+		method,
+	);
+
+	return coordinates.map(([lng, lat, elevation], index) => [
+		lng,
+		lat,
+		elevations[index] ?? elevation,
+	]);
+};
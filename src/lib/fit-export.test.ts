@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { generateFitFromCoordinates } from "./fit-export";
+import type { RoutePoint } from "./graphhopper";
+
+type Coordinate = [number, number, number];
+
+const coordinates: Coordinate[] = [
+	[-1, 51, 100],
+	[-1, 51.001, 105],
+	[-1, 51.002, 110],
+];
+
+// Reads the null-terminated string field that starts with `prefix`
+const readStringField = (bytes: Uint8Array, prefix: string, size: number) => {
+	const needle = new TextEncoder().encode(prefix);
+	const start = bytes.findIndex((_, index) =>
+		needle.every((byte, offset) => bytes[index + offset] === byte),
+	);
+	expect(start).toBeGreaterThanOrEqual(0);
+
+	const field = bytes.subarray(start, start + size);
+	const end = field.indexOf(0);
+	expect(end).toBeGreaterThanOrEqual(0);
+	return new TextDecoder("utf-8", { fatal: true }).decode(
+		field.subarray(0, end),
+	);
+};
+
+describe("generateFitFromCoordinates", () => {
+	it("writes a FIT header and trailing CRC", () => {
+		const bytes = generateFitFromCoordinates(coordinates, { name: "Loop" });
+		const view = new DataView(bytes.buffer);
+
+		expect(bytes[0]).toBe(14);
+		expect(new TextDecoder().decode(bytes.subarray(8, 12))).toBe(".FIT");
+		// The data size excludes the header and the CRC
+		expect(view.getUint32(4, true)).toBe(bytes.length - 16);
+	});
+
+	it("cuts non-ASCII names on a character boundary", () => {
+		const routePoints: RoutePoint[] = [
+			{ lat: 51, lng: -1, type: "start" },
+			// 14 bytes before the coffee cup, which takes 3 more
+			{ lat: 51.001, lng: -1, type: "checkpoint", name: "Café au lait ☕" },
+			{ lat: 51.002, lng: -1, type: "end" },
+		];
+		const bytes = generateFitFromCoordinates(coordinates, {
+			name: "Loop",
+			routePoints,
+		});
+
+		// Course point names get 16 bytes, null terminator included
+		expect(readStringField(bytes, "Café", 16)).toBe("Café au lait ");
+	});
+});
@@ -0,0 +1,374 @@
+import {
+	ACTIVITY_PROFILES,
+	type ActivityProfile,
+	DEFAULT_ACTIVITY_PROFILE,
+} from "./activity-profiles";
+import type { CueType } from "./cue-sheet";
+import {
+	DEFAULT_ROUTE_NAME,
+	type RouteExportOptions,
+	findNearestCoordinateIndex,
+	getCumulativeDistances,
+	getExportSeconds,
+	getMarkedPoints,
+} from "./route-export";
+
+type Coordinate = [number, number, number]; // [lng, lat, elevation]
+
+// FIT epoch is 1989-12-31T00:00:00Z
+const FIT_EPOCH_OFFSET_SECONDS = 631065600;
+const FIT_PROTOCOL_VERSION = 0x20; // 2.0
+const FIT_PROFILE_VERSION = 2132; // 21.32
+
+// Global message numbers from the FIT profile
+const MESG = {
+	fileId: 0,
+	lap: 19,
+	record: 20,
+	event: 21,
+	course: 31,
+	coursePoint: 32,
+} as const;
+
+// FIT base types
+const BASE_TYPE = {
+	enum: 0x00,
+	uint8: 0x02,
+	sint32: 0x85,
+	uint16: 0x84,
+	uint32: 0x86,
+	string: 0x07,
+	uint32z: 0x8c,
+} as const;
+
+type BaseType = keyof typeof BASE_TYPE;
+
+// FIT sport enum values
+const FIT_SPORTS: Record<ActivityProfile["sport"], number> = {
+	running: 1,
+	cycling: 2,
+	walking: 11,
+	e_biking: 21,
+};
+
+type FieldDefinition = {
+	num: number;
+	type: BaseType;
+	/** Byte size, only needed for strings */
+	size?: number;
+};
+
+const BASE_TYPE_SIZE: Record<BaseType, number> = {
+	enum: 1,
+	uint8: 1,
+	sint32: 4,
+	uint16: 2,
+	uint32: 4,
+	string: 1,
+	uint32z: 4,
+};
+
+const CRC_TABLE = [
+	0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401, 0xa001,
+	0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400,
+];
+
+/**
+ * FIT's CRC-16 over a byte range
+ */
+function calculateCrc(bytes: Uint8Array, crc = 0): number {
+	let result = crc;
+	for (const byte of bytes) {
+		let tmp = CRC_TABLE[result & 0xf] ?? 0;
+		result = (result >> 4) & 0x0fff;
+		result = result ^ tmp ^ (CRC_TABLE[byte & 0xf] ?? 0);
+
+		tmp = CRC_TABLE[result & 0xf] ?? 0;
+		result = (result >> 4) & 0x0fff;
+		result = result ^ tmp ^ (CRC_TABLE[(byte >> 4) & 0xf] ?? 0);
+	}
+	return result;
+}
+
+const toFitTimestamp = (unixMs: number) =>
+	Math.round(unixMs / 1000) - FIT_EPOCH_OFFSET_SECONDS;
+
+const toSemicircles = (degrees: number) =>
+	Math.round(degrees * (2 ** 31 / 180));
+
+/**
+ * UTF-8 bytes of as many whole characters as fit in `maxBytes`, so a cut
+ * never splits a multi-byte character
+ */
+const encodeTruncated = (value: string, maxBytes: number): Uint8Array => {
+	const encoder = new TextEncoder();
+	let byteLength = 0;
+	let text = "";
+	// Iterating a string walks code points, not UTF-16 units
+	for (const char of value) {
+		const charBytes = encoder.encode(char).length;
+		if (byteLength + charBytes > maxBytes) break;
+		byteLength += charBytes;
+		text += char;
+	}
+	return encoder.encode(text);
+};
+
+/**
+ * Minimal FIT writer - each message type gets its own local message number
+ * and is defined once before its first data message
+ */
+const createFitWriter = () => {
+	const chunks: number[] = [];
+	const definitions = new Map<
+		number,
+		{ local: number; fields: FieldDefinition[] }
+	>();
+
+	const writeValue = (value: number | string, field: FieldDefinition) => {
+		const size = field.size ?? BASE_TYPE_SIZE[field.type];
+
+		if (field.type === "string") {
+			// Truncate to leave room for the null terminator
+			const bytes = encodeTruncated(String(value), size - 1);
+			chunks.push(...bytes);
+			for (let i = bytes.length; i < size; i++) chunks.push(0);
+			return;
+		}
+
+		const view = new DataView(new ArrayBuffer(size));
+		const numeric = Number(value);
+		if (field.type === "sint32") view.setInt32(0, numeric, true);
+		else if (size === 4) view.setUint32(0, numeric, true);
+		else if (size === 2) view.setUint16(0, numeric, true);
+		else view.setUint8(0, numeric);
+		chunks.push(...new Uint8Array(view.buffer));
+	};
+
+	const write = (
+		globalMesg: number,
+		fields: FieldDefinition[],
+		values: Array<number | string>,
+	) => {
+		let definition = definitions.get(globalMesg);
+
+		if (!definition) {
+			definition = { local: definitions.size, fields };
+			definitions.set(globalMesg, definition);
+
+			// Definition message: header, reserved, little-endian, global number, fields
+			chunks.push(0x40 | definition.local, 0, 0);
+			chunks.push(globalMesg & 0xff, (globalMesg >> 8) & 0xff);
+			chunks.push(fields.length);
+			for (const field of fields) {
+				chunks.push(
+					field.num,
+					field.size ?? BASE_TYPE_SIZE[field.type],
+					BASE_TYPE[field.type],
+				);
+			}
+		}
+
+		chunks.push(definition.local);
+		definition.fields.forEach((field, index) => {
+			writeValue(values[index] ?? 0, field);
+		});
+	};
+
+	const toBytes = (): Uint8Array => {
+		const data = Uint8Array.from(chunks);
+		const header = new Uint8Array(14);
+		const headerView = new DataView(header.buffer);
+		header[0] = 14;
+		header[1] = FIT_PROTOCOL_VERSION;
+		headerView.setUint16(2, FIT_PROFILE_VERSION, true);
+		headerView.setUint32(4, data.length, true);
+		header.set(new TextEncoder().encode(".FIT"), 8);
+		headerView.setUint16(12, calculateCrc(header.subarray(0, 12)), true);
+
+		const file = new Uint8Array(header.length + data.length + 2);
+		file.set(header, 0);
+		file.set(data, header.length);
+		const crc = calculateCrc(file.subarray(0, header.length + data.length));
+		new DataView(file.buffer).setUint16(file.length - 2, crc, true);
+
+		return file;
+	};
+
+	return { write, toBytes };
+};
+
+// FIT course_point types for each cue (0 = generic)
+const FIT_COURSE_POINT_TYPES: Record<CueType, number> = {
+	continue: 8,
+	slight_left: 19,
+	left: 6,
+	sharp_left: 20,
+	keep_left: 16,
+	slight_right: 21,
+	right: 7,
+	sharp_right: 22,
+	keep_right: 17,
+	u_turn: 23,
+	roundabout: 0,
+	via: 0,
+	finish: 0,
+};
+
+const COURSE_NAME_BYTES = 32;
+const COURSE_POINT_NAME_BYTES = 16;
+
+/**
+ * Generates a binary FIT course file for head units (Garmin, Wahoo, Hammerhead)
+ * Records carry synthetic timestamps at the activity profile's pace
+ */
+export function generateFitFromCoordinates(
+	coordinates: Coordinate[],
+	{
+		name = DEFAULT_ROUTE_NAME,
+		routePoints = [],
+		cues = [],
+		activityProfile = DEFAULT_ACTIVITY_PROFILE,
+	}: RouteExportOptions = {},
+): Uint8Array {
+	const writer = createFitWriter();
+	const distances = getCumulativeDistances(coordinates);
+	const totalDistance = distances.at(-1) ?? 0;
+	const startTime = Date.now();
+	const timestampAt = (index: number) =>
+		toFitTimestamp(
+			startTime +
+				getExportSeconds(distances[index] ?? 0, activityProfile) * 1000,
+		);
+	const startTimestamp = timestampAt(0);
+	const endTimestamp = timestampAt(coordinates.length - 1);
+
+	const first = coordinates[0] ?? [0, 0, 0];
+	const last = coordinates.at(-1) ?? first;
+
+	// file_id: type 6 = course, manufacturer 255 = development
+	writer.write(
+		MESG.fileId,
+		[
+			{ num: 0, type: "enum" },
+			{ num: 1, type: "uint16" },
+			{ num: 2, type: "uint16" },
+			{ num: 3, type: "uint32z" },
+			{ num: 4, type: "uint32" },
+		],
+		[6, 255, 0, startTimestamp, startTimestamp],
+	);
+
+	writer.write(
+		MESG.course,
+		[
+			{ num: 4, type: "enum" },
+			{ num: 5, type: "string", size: COURSE_NAME_BYTES },
+		],
+		[FIT_SPORTS[ACTIVITY_PROFILES[activityProfile].sport], name],
+	);
+
+	const elapsedMs = (endTimestamp - startTimestamp) * 1000;
+	writer.write(
+		MESG.lap,
+		[
+			{ num: 253, type: "uint32" },
+			{ num: 2, type: "uint32" },
+			{ num: 3, type: "sint32" },
+			{ num: 4, type: "sint32" },
+			{ num: 5, type: "sint32" },
+			{ num: 6, type: "sint32" },
+			{ num: 7, type: "uint32" },
+			{ num: 8, type: "uint32" },
+			{ num: 9, type: "uint32" },
+		],
+		[
+			endTimestamp,
+			startTimestamp,
+			toSemicircles(first[1]),
+			toSemicircles(first[0]),
+			toSemicircles(last[1]),
+			toSemicircles(last[0]),
+			elapsedMs,
+			elapsedMs,
+			Math.round(totalDistance * 100),
+		],
+	);
+
+	const eventFields: FieldDefinition[] = [
+		{ num: 253, type: "uint32" },
+		{ num: 0, type: "enum" },
+		{ num: 1, type: "enum" },
+	];
+
+	// event: timer (0) start (0)
+	writer.write(MESG.event, eventFields, [startTimestamp, 0, 0]);
+
+	coordinates.forEach(([lng, lat, elevation], index) => {
+		writer.write(
+			MESG.record,
+			[
+				{ num: 253, type: "uint32" },
+				{ num: 0, type: "sint32" },
+				{ num: 1, type: "sint32" },
+				{ num: 2, type: "uint16" },
+				{ num: 5, type: "uint32" },
+			],
+			[
+				timestampAt(index),
+				toSemicircles(lat),
+				toSemicircles(lng),
+				// altitude: scale 5, offset 500
+				Math.max(0, Math.round((elevation + 500) * 5)),
+				Math.round((distances[index] ?? 0) * 100),
+			],
+		);
+	});
+
+	// Course points are merged by position so they follow the track
+	const coursePoints = [
+		...getMarkedPoints(routePoints).map((point) => ({
+			coordinateIndex: findNearestCoordinateIndex(coordinates, point),
+			lat: point.lat,
+			lng: point.lng,
+			name: point.label,
+			type: 0, // generic
+		})),
+		...cues.map((cue) => ({
+			coordinateIndex: cue.coordinateIndex,
+			lat: cue.lat,
+			lng: cue.lng,
+			name: cue.streetName ?? cue.text,
+			type: FIT_COURSE_POINT_TYPES[cue.type],
+		})),
+	].sort((a, b) => a.coordinateIndex - b.coordinateIndex);
+
+	coursePoints.forEach((point, index) => {
+		writer.write(
+			MESG.coursePoint,
+			[
+				{ num: 254, type: "uint16" },
+				{ num: 1, type: "uint32" },
+				{ num: 2, type: "sint32" },
+				{ num: 3, type: "sint32" },
+				{ num: 4, type: "uint32" },
+				{ num: 5, type: "enum" },
+				{ num: 6, type: "string", size: COURSE_POINT_NAME_BYTES },
+			],
+			[
+				index,
+				timestampAt(point.coordinateIndex),
+				toSemicircles(point.lat),
+				toSemicircles(point.lng),
+				Math.round((distances[point.coordinateIndex] ?? 0) * 100),
+				point.type,
+				point.name,
+			],
+		);
+	});
+
+	// event: timer (0) stop_all (4)
+	writer.write(MESG.event, eventFields, [endTimestamp, 0, 4]);
+
+	return writer.toBytes();
+}
@@ -31,3 +31,150 @@ export const calculateDistance = ({
 
 	return unit === "m" ? distanceKm * 1000 : distanceKm;
 };
+
+/**
+ * Point reached by travelling `distance` meters from `from` along a compass bearing (degrees)
+ */
+export const destinationPoint = (
+	from: LatLngPoint,
+	bearing: number,
+	distance: number,
+): LatLngPoint => {
+	const R = 6371000; // Earth's radius in meters
+	const angular = distance / R;
+	const theta = (bearing * Math.PI) / 180;
+	const lat1 = (from.lat * Math.PI) / 180;
+	const lng1 = (from.lng * Math.PI) / 180;
+
+	const lat2 = Math.asin(
+		Math.sin(lat1) * Math.cos(angular) +
+			Math.cos(lat1) * Math.sin(angular) * Math.cos(theta),
+	);
+	const lng2 =
+		lng1 +
+		Math.atan2(
+			Math.sin(theta) * Math.sin(angular) * Math.cos(lat1),
+			Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2),
+		);
+
+	return {
+		lat: (lat2 * 180) / Math.PI,
+		// Normalise to -180..180
+		lng: (((lng2 * 180) / Math.PI + 540) % 360) - 180,
+	};
+};
+
+/**
+ * Picks `count` points spaced evenly by distance along a [lng, lat, elevation] path,
+ * excluding its ends
+ */
+export const samplePointsAlongPath = (
+	coordinates: Array<[number, number, number]>,
+	count: number,
+): LatLngPoint[] => {
+	// Cumulative distance at each coordinate
+	const cumulative = [0];
+	for (let i = 1; i < coordinates.length; i++) {
+		const prev = coordinates[i - 1];
+		const current = coordinates[i];
+		if (!prev || !current) continue;
+		cumulative.push(
+			(cumulative[i - 1] ?? 0) +
+				calculateDistance({
+					from: { lat: prev[1], lng: prev[0] },
+					to: { lat: current[1], lng: current[0] },
+					unit: "m",
+				}),
+		);
+	}
+
+	const total = cumulative.at(-1) ?? 0;
+	const points: LatLngPoint[] = [];
+	let index = 0;
+	for (let i = 1; i <= count; i++) {
+		const target = (total * i) / (count + 1);
+		while (index < cumulative.length - 1 && (cumulative[index] ?? 0) < target) {
+			index++;
+		}
+		const coordinate = coordinates[index];
+		if (coordinate) points.push({ lat: coordinate[1], lng: coordinate[0] });
+	}
+
+	return points;
+};
+
+/**
+ * Where a location falls on a path of [lat, lng] positions: the segment
+ * nearest to it and how far along that segment (0-1) its closest point is.
+ * Longitudes are scaled for the latitude, so this holds away from the equator
+ */
+export const projectOntoPath = (
+	positions: Array<[number, number]>,
+	point: LatLngPoint,
+): { index: number; fraction: number } | null => {
+	const scale = Math.cos((point.lat * Math.PI) / 180);
+	let nearest: { index: number; fraction: number } | null = null;
+	let nearestDistance = Number.POSITIVE_INFINITY;
+
+	for (let index = 0; index < positions.length - 1; index++) {
+		const start = positions[index];
+		const end = positions[index + 1];
+		if (!start || !end) continue;
+
+		const dx = (end[1] - start[1]) * scale;
+		const dy = end[0] - start[0];
+		const px = (point.lng - start[1]) * scale;
+		const py = point.lat - start[0];
+		const lengthSquared = dx * dx + dy * dy;
+		const fraction =
+			lengthSquared > 0
+				? Math.max(0, Math.min(1, (px * dx + py * dy) / lengthSquared))
+				: 0;
+
+		const offsetX = px - fraction * dx;
+		const offsetY = py - fraction * dy;
+		const distance = offsetX * offsetX + offsetY * offsetY;
+		if (distance < nearestDistance) {
+			nearest = { index, fraction };
+			nearestDistance = distance;
+		}
+	}
+
+	return nearest;
+};
+
+/**
+ * Position a given distance along a path of [lat, lng] positions, from the
+ * running distance at each position - in whatever unit those use
+ */
+export const interpolateAlongPath = (
+	positions: Array<[number, number]>,
+	distances: number[],
+	distance: number,
+): [number, number] | null => {
+	// First position at or past the distance
+	let low = 0;
+	let high = positions.length - 1;
+	while (low < high) {
+		const middle = Math.floor((low + high) / 2);
+		if ((distances[middle] ?? 0) < distance) {
+			low = middle + 1;
+		} else {
+			high = middle;
+		}
+	}
+
+	const end = positions[low];
+	const start = positions[low - 1];
+	if (!end) return null;
+	if (!start) return end;
+
+	const from = distances[low - 1] ?? 0;
+	const to = distances[low] ?? 0;
+	const fraction =
+		to > from ? Math.max(0, Math.min(1, (distance - from) / (to - from))) : 0;
+	return [
+		start[0] + (end[0] - start[0]) * fraction,
+		start[1] + (end[1] - start[1]) * fraction,
+	];
+};
@@ -41,3 +41,50 @@ export const calculateDistanceToSegment = (
 
 	return Math.sqrt(distX * distX + distY * distY);
 };
+
+/**
+ * Simplify a path with the Ramer-Douglas-Peucker algorithm
+ * Returns the indices of the points to keep (always includes first and last)
+ * Tolerance is in the same Euclidean degree units as calculateDistanceToSegment
+ */
+export const simplifyPath = (
+	points: LatLngPoint[],
+	tolerance: number,
+): number[] => {
+	if (points.length <= 2) {
+		return points.map((_, index) => index);
+	}
+
+	const keep = new Set<number>([0, points.length - 1]);
+	const stack: Array<[number, number]> = [[0, points.length - 1]];
+
+	while (stack.length > 0) {
+		const range = stack.pop();
+		if (!range) break;
+		const [first, last] = range;
+		const start = points[first];
+		const end = points[last];
+		if (!start || !end) continue;
+
+		let maxDistance = 0;
+		let maxIndex = -1;
+
+		for (let i = first + 1; i < last; i++) {
+			const point = points[i];
+			if (!point) continue;
+
+			const distance = calculateDistanceToSegment(point, start, end);
+			if (distance > maxDistance) {
+				maxDistance = distance;
+				maxIndex = i;
+			}
+		}
+
+		if (maxIndex >= 0 && maxDistance > tolerance) {
+			keep.add(maxIndex);
+			stack.push([first, maxIndex], [maxIndex, last]);
+		}
+	}
+
+	return Array.from(keep).sort((a, b) => a - b);
+};
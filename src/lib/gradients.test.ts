@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import {
+	computeSegmentGrades,
+	detectClimbs,
+	getClimbCategory,
+	getFietsIndex,
+	getGradientBand,
+	gradientsToRouteSegments,
+} from "./gradients";
+
+type Coordinate = [number, number, number];
+
+// Points a thousandth of a degree of latitude apart are about 111.2m apart
+const SPACING = 111.2;
+
+/**
+ * A line north with one point per entry of `rises` after the first, each
+ * rising by that many meters
+ */
+const buildProfile = (rises: number[], step = 0.001): Coordinate[] => {
+	let elevation = 100;
+	return [
+		[0, 0, elevation],
+		...rises.map((rise, index): Coordinate => {
+			elevation += rise;
+			return [0, (index + 1) * step, elevation];
+		}),
+	];
+};
+
+const repeat = (count: number, rise: number) =>
+	Array.from({ length: count }, () => rise);
+
+describe("computeSegmentGrades", () => {
+	it("gives a grade per segment", () => {
+		const grades = computeSegmentGrades(buildProfile(repeat(20, 5.56)));
+
+		expect(grades).toHaveLength(20);
+		for (const grade of grades) expect(grade).toBeCloseTo(5, 1);
+	});
+
+	it("spreads a single noisy sample over the window", () => {
+		const profile = buildProfile([...repeat(20, 0), 20, -20, ...repeat(20, 0)]);
+		const steepest = (window: number) =>
+			Math.max(...computeSegmentGrades(profile, window));
+
+		expect(steepest(50)).toBeCloseTo((20 / SPACING) * 100, 0);
+		expect(steepest(500)).toBeLessThan(steepest(50) / 2);
+	});
+
+	it("is empty for routes without segments", () => {
+		expect(computeSegmentGrades([])).toEqual([]);
+		expect(computeSegmentGrades([[0, 0, 0]])).toEqual([]);
+	});
+});
+
+describe("getGradientBand", () => {
+	it("picks the band each grade falls in", () => {
+		expect(getGradientBand(-8).id).toBe("descent");
+		expect(getGradientBand(0).id).toBe("flat");
+		expect(getGradientBand(7).id).toBe("hard");
+		expect(getGradientBand(30).id).toBe("brutal");
+	});
+});
+
+describe("gradientsToRouteSegments", () => {
+	it("joins neighbouring segments in the same band", () => {
+		const positions: [number, number][] = [
+			[0, 0],
+			[0, 1],
+			[0, 2],
+			[0, 3],
+		];
+		const segments = gradientsToRouteSegments([1, 2, 7], positions);
+
+		expect(segments.map(({ coordinates }) => coordinates)).toEqual([
+			positions.slice(0, 3),
+			positions.slice(2, 4),
+		]);
+		expect(segments.map(({ color }) => color)).toEqual([
+			getGradientBand(1).color,
+			getGradientBand(7).color,
+		]);
+	});
+});
+
+describe("getClimbCategory", () => {
+	it("categorises by length times average grade", () => {
+		expect(getClimbCategory(10_000, 8)).toBe("HC");
+		expect(getClimbCategory(5000, 7)).toBe("2");
+		expect(getClimbCategory(2000, 4)).toBe("4");
+		expect(getClimbCategory(1000, 4)).toBeNull();
+	});
+});
+
+describe("getFietsIndex", () => {
+	it("adds a bonus for tops above 1000m", () => {
+		expect(getFietsIndex(500, 10_000, 800)).toBeCloseTo(2.5);
+		expect(getFietsIndex(500, 10_000, 2000)).toBeCloseTo(3.5);
+		expect(getFietsIndex(500, 0, 800)).toBe(0);
+	});
+});
+
+describe("detectClimbs", () => {
+	it("finds a climb from its foot to its top", () => {
+		// Flat, 30 points at 5%, then down again
+		const profile = buildProfile([
+			...repeat(20, 0),
+			...repeat(30, 5.56),
+			...repeat(20, -5),
+		]);
+		const [climb, ...others] = detectClimbs(profile);
+
+		expect(others).toEqual([]);
+		expect(climb).toMatchObject({
+			startIndex: 20,
+			endIndex: 50,
+			category: "3",
+		});
+		expect(climb?.topElevation).toBeCloseTo(100 + 30 * 5.56);
+		expect(climb?.length).toBeCloseTo(30 * SPACING, -1);
+		expect(climb?.elevationGain).toBeCloseTo(30 * 5.56);
+		expect(climb?.averageGrade).toBeCloseTo(5, 1);
+		expect(climb?.maxGrade).toBeCloseTo(5, 1);
+	});
+
+	it("splits climbs at a clear drop and ignores small rises", () => {
+		const profile = buildProfile([
+			// A 10m bump is too small to count
+			...repeat(5, 2),
+			...repeat(5, -2),
+			...repeat(10, 5.56),
+			...repeat(5, -10),
+			...repeat(10, 5.56),
+		]);
+
+		expect(
+			detectClimbs(profile).map(({ startIndex, endIndex }) => [
+				startIndex,
+				endIndex,
+			]),
+		).toEqual([
+			[10, 20],
+			[25, 35],
+		]);
+	});
+
+	it("keeps going through a small dip", () => {
+		const profile = buildProfile([
+			...repeat(10, 5.56),
+			...repeat(2, -5),
+			...repeat(10, 5.56),
+		]);
+
+		expect(detectClimbs(profile)).toMatchObject([
+			{ startIndex: 0, endIndex: 22 },
+		]);
+	});
+
+	it("handles climbs with more points than a spread can take", () => {
+		// About 1.1m apart, so 200,000 points climb 222km at 5%
+		const profile = buildProfile(repeat(200_000, 0.0556), 0.00001);
+
+		expect(detectClimbs(profile, 500)).toMatchObject([
+			{ startIndex: 0, endIndex: 200_000, category: "HC" },
+		]);
+	});
+});
@@ -0,0 +1,231 @@
+import { getCumulativeDistances } from "./route-export";
+import type { RouteSegment } from "./surface-utils";
+
+type Coordinate = [number, number, number]; // [lng, lat, elevation]
+
+// Lengths a grade can be measured over, meters - shorter shows more detail and more noise
+export const GRADIENT_WINDOWS = [50, 100, 200, 500] as const;
+export type GradientWindow = (typeof GRADIENT_WINDOWS)[number];
+export const DEFAULT_GRADIENT_WINDOW: GradientWindow = 100;
+
+export const isGradientWindow = (value: unknown): value is GradientWindow =>
+	GRADIENT_WINDOWS.includes(value as GradientWindow);
+
+// Colours for the route line when it shows steepness, by the grade (%) each band goes up to
+export const GRADIENT_BANDS = [
+	{ id: "descent", label: "Descent", max: -3, color: "#3b82f6" },
+	{ id: "flat", label: "Flat", max: 3, color: "#22c55e" },
+	{ id: "moderate", label: "3-6%", max: 6, color: "#eab308" },
+	{ id: "hard", label: "6-9%", max: 9, color: "#f97316" },
+	{ id: "steep", label: "9-12%", max: 12, color: "#ef4444" },
+	{
+		id: "brutal",
+		label: "12%+",
+		max: Number.POSITIVE_INFINITY,
+		color: "#7f1d1d",
+	},
+] as const;
+
+export type GradientBand = (typeof GRADIENT_BANDS)[number];
+
+// What counts as a climb rather than a rise in the road
+const MIN_CLIMB_LENGTH = 300; // meters
+const MIN_CLIMB_GAIN = 20; // meters
+const MIN_CLIMB_GRADE = 3; // percent
+// A climb is over once the road drops this far below its top - the larger of the two
+const CLIMB_END_DROP = 20; // meters
+const CLIMB_END_DROP_SHARE = 0.1; // of the gain so far
+
+// Categories by length (m) times average grade (%), hardest first
+export const CLIMB_CATEGORIES = [
+	{ id: "HC", label: "HC", minScore: 80_000, color: "#7f1d1d" },
+	{ id: "1", label: "Cat 1", minScore: 64_000, color: "#dc2626" },
+	{ id: "2", label: "Cat 2", minScore: 32_000, color: "#f97316" },
+	{ id: "3", label: "Cat 3", minScore: 16_000, color: "#eab308" },
+	{ id: "4", label: "Cat 4", minScore: 8000, color: "#84cc16" },
+] as const;
+
+export type ClimbCategory = (typeof CLIMB_CATEGORIES)[number]["id"];
+
+// Colour for climbs too small for a category
+export const UNCATEGORISED_CLIMB_COLOR = "#a3a3a3";
+
+export type Climb = {
+	/** Route coordinates at the foot and top of the climb */
+	startIndex: number;
+	endIndex: number;
+	startDistance: number; // meters from the route start
+	endDistance: number; // meters from the route start
+	length: number; // meters
+	elevationGain: number; // meters, foot to top
+	topElevation: number; // meters
+	averageGrade: number; // percent
+	maxGrade: number; // percent, over the gradient window
+	category: ClimbCategory | null;
+	/** Climbbybike's fiets index - around 2 is a stiff climb, 7+ a famous one */
+	fietsIndex: number;
+};
+
+/**
+ * Grade (%) of each segment of the route - `grades[i]` runs from coordinate
+ * `i` to `i + 1` - measured over the window centred on it, so single noisy
+ * elevation samples don't show up as walls
+ */
+export const computeSegmentGrades = (
+	coordinates: Coordinate[],
+	window: number = DEFAULT_GRADIENT_WINDOW,
+): number[] => {
+	const distances = getCumulativeDistances(coordinates);
+	const last = coordinates.length - 1;
+
+	const grades: number[] = [];
+	let from = 0;
+	let to = 0;
+	for (let i = 0; i < last; i++) {
+		const middle = ((distances[i] ?? 0) + (distances[i + 1] ?? 0)) / 2;
+		// Both ends only move forward, so this is a single pass over the route
+		while (from < i && (distances[from + 1] ?? 0) <= middle - window / 2) {
+			from++;
+		}
+		to = Math.max(to, i + 1);
+		while (to < last && (distances[to] ?? 0) < middle + window / 2) to++;
+
+		const run = (distances[to] ?? 0) - (distances[from] ?? 0);
+		const rise = (coordinates[to]?.[2] ?? 0) - (coordinates[from]?.[2] ?? 0);
+		grades.push(run > 0 ? (rise / run) * 100 : 0);
+	}
+	return grades;
+};
+
+export const getGradientBand = (grade: number): GradientBand =>
+	GRADIENT_BANDS.find((band) => grade < band.max) ?? GRADIENT_BANDS[5];
+
+/**
+ * Route line pieces coloured by steepness, merging neighbouring segments in
+ * the same band
+ */
+export const gradientsToRouteSegments = (
+	grades: number[],
+	routeCoordinates: [number, number][],
+): RouteSegment[] => {
+	const segments: RouteSegment[] = [];
+	let startIndex = 0;
+
+	grades.forEach((grade, index) => {
+		const band = getGradientBand(grade);
+		const next = grades[index + 1];
+		if (next !== undefined && getGradientBand(next).id === band.id) return;
+
+		segments.push({
+			coordinates: routeCoordinates.slice(startIndex, index + 2),
+			color: band.color,
+			key: `${band.id}-${startIndex}-${index + 1}`,
+		});
+		startIndex = index + 1;
+	});
+
+	return segments;
+};
+
+export const getClimbCategory = (
+	length: number,
+	averageGrade: number,
+): ClimbCategory | null =>
+	CLIMB_CATEGORIES.find(({ minScore }) => length * averageGrade >= minScore)
+		?.id ?? null;
+
+export const getClimbCategoryDetails = (category: ClimbCategory | null) =>
+	CLIMB_CATEGORIES.find(({ id }) => id === category) ?? {
+		id: null,
+		label: "Uncategorised",
+		color: UNCATEGORISED_CLIMB_COLOR,
+	};
+
+/**
+ * Fiets index: height² / (length × 10), plus a bonus for tops above 1000m
+ */
+export const getFietsIndex = (
+	elevationGain: number,
+	length: number,
+	topElevation: number,
+): number =>
+	length > 0
+		? (elevationGain * elevationGain) / (length * 10) +
+			Math.max(0, (topElevation - 1000) / 1000)
+		: 0;
+
+/**
+ * Finds the climbs along a route: each runs from a low point to the top it
+ * leads to, ending once the road drops clearly below that top. Rises too
+ * short, shallow or small to matter are left out
+ */
+export const detectClimbs = (
+	coordinates: Coordinate[],
+	window: number = DEFAULT_GRADIENT_WINDOW,
+): Climb[] => {
+	if (coordinates.length < 2) return [];
+
+	const distances = getCumulativeDistances(coordinates);
+	const grades = computeSegmentGrades(coordinates, window);
+	const elevation = (index: number) => coordinates[index]?.[2] ?? 0;
+
+	const climbs: Climb[] = [];
+	const addClimb = (startIndex: number, endIndex: number) => {
+		const startDistance = distances[startIndex] ?? 0;
+		const endDistance = distances[endIndex] ?? 0;
+		const length = endDistance - startDistance;
+		const elevationGain = elevation(endIndex) - elevation(startIndex);
+		const averageGrade = length > 0 ? (elevationGain / length) * 100 : 0;
+		if (
+			length < MIN_CLIMB_LENGTH ||
+			elevationGain < MIN_CLIMB_GAIN ||
+			averageGrade < MIN_CLIMB_GRADE
+		) {
+			return;
+		}
+
+		climbs.push({
+			startIndex,
+			endIndex,
+			startDistance,
+			endDistance,
+			length,
+			elevationGain,
+			topElevation: elevation(endIndex),
+			averageGrade,
+			// Reduced rather than spread, as long climbs have more grades than
+			// Math.max takes arguments
+			maxGrade: grades
+				.slice(startIndex, endIndex)
+				.reduce((max, grade) => Math.max(max, grade), 0),
+			category: getClimbCategory(length, averageGrade),
+			fietsIndex: getFietsIndex(elevationGain, length, elevation(endIndex)),
+		});
+	};
+
+	let start = 0;
+	let top = 0;
+	for (let i = 1; i < coordinates.length; i++) {
+		if (elevation(i) >= elevation(top)) {
+			// Still level with the foot, so the climb hasn't started yet
+			if (elevation(i) <= elevation(start)) start = i;
+			top = i;
+			continue;
+		}
+
+		const gain = elevation(top) - elevation(start);
+		const drop = elevation(top) - elevation(i);
+		if (drop >= Math.max(CLIMB_END_DROP, gain * CLIMB_END_DROP_SHARE)) {
+			if (top > start) addClimb(start, top);
+			start = i;
+			top = i;
+		} else if (elevation(i) <= elevation(start)) {
+			// Back down to the foot before anything came of it - start again lower
+			start = i;
+			top = i;
+		}
+	}
+	if (top > start) addClimb(start, top);
+
+	return climbs;
+};
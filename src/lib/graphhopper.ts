@@ -1,6 +1,21 @@
 import { z } from "zod";
 import { env } from "~/env";
+import {
+	type ActivityProfileId,
+	ActivityProfileSchema,
+} from "./activity-profiles";
+import { type AvoidArea, AvoidAreasSchema, toLngLatRing } from "./avoid-areas";
+import {
+	DEFAULT_ELEVATION_SMOOTHING,
+	type ElevationSmoothing,
+	smoothCoordinateElevations,
+} from "./elevation-smoothing";
 import { calculateDistance } from "./geo-utils";
+import {
+	type RoutingPreferences,
+	RoutingPreferencesSchema,
+	getSurfaceWeights,
+} from "./routing-preferences";
 
 // GraphHopper API constants
 export const GRAPHHOPPER_API_ROOT = "https://graphhopper.com/api/1";
@@ -11,6 +26,10 @@ export const RoutePointSchema = z.object({
 	lng: z.number(),
 	type: z.enum(["start", "waypoint", "end", "checkpoint"]),
 	name: z.string().optional(),
+	// Reach this point in a straight line from the previous one instead of along the network
+	direct: z.boolean().optional(),
+	// Checkpoint where a multi-day route stops for the night
+	overnight: z.boolean().optional(),
 });
 
 // Infer TypeScript type from Zod schema - single source of truth
@@ -19,7 +38,26 @@ export type RoutePoint = z.infer<typeof RoutePointSchema>;
 export const CalculateRouteSchema = z.object({
 	points: z.array(RoutePointSchema).min(2, "At least 2 points required"),
 	elevation: z.boolean().default(true),
-	vehicle: z.enum(["hike", "bike"]),
+	profile: ActivityProfileSchema,
+	// Also return alternative paths - engines only offer these between two points
+	alternatives: z.boolean().default(false),
+	preferences: RoutingPreferencesSchema.optional(), // Omitted for the engine's defaults
+	avoidAreas: AvoidAreasSchema.default([]), // Drawn areas and blocked roads to route around
+});
+
+// Loop from a start point - several candidates are generated around the target distance
+export const GenerateLoopSchema = z.object({
+	start: z.object({
+		lat: z.number(),
+		lng: z.number(),
+	}),
+	distance: z.number().min(1000).max(300_000), // meters
+	heading: z.number().min(0).max(360).optional(), // degrees clockwise from north
+	candidates: z.number().int().min(1).max(5).default(3),
+	elevation: z.boolean().default(true),
+	profile: ActivityProfileSchema,
+	preferences: RoutingPreferencesSchema.optional(),
+	avoidAreas: AvoidAreasSchema.default([]),
 });
 
 export const GeocodeSchema = z.object({
@@ -44,12 +82,27 @@ export const ReverseGeocodeSchema = z.object({
 	lng: z.number(),
 });
 
+// Turn instruction as returned by GraphHopper with `instructions=true`
+// `interval` holds [fromIndex, toIndex] into the path coordinates
+export const InstructionSchema = z.object({
+	distance: z.number(),
+	time: z.number(),
+	sign: z.number(),
+	text: z.string(),
+	street_name: z.string().optional(),
+	interval: z.tuple([z.number(), z.number()]),
+	exit_number: z.number().optional(),
+	turn_angle: z.number().optional(),
+});
+
+export type Instruction = z.infer<typeof InstructionSchema>;
+
 export const RoutePathSchema = z.object({
 	distance: z.number(),
 	weight: z.number(),
 	time: z.number(),
 	transfers: z.number(),
-	legs: z.array(z.any()), // Can be empty array
+	legs: z.array(z.unknown()), // Always empty unless pt routing is used
 	points_encoded: z.boolean(),
 	bbox: z.array(z.number()),
 	points: z.object({
@@ -61,6 +114,7 @@ export const RoutePathSchema = z.object({
 	}),
 	ascend: z.number().optional(),
 	descend: z.number().optional(),
+	instructions: z.array(InstructionSchema).optional(),
 	snapped_waypoints: z
 		.object({
 			type: z.string(),
@@ -84,6 +138,14 @@ export const RouteResponseSchema = z.object({
 	paths: z.array(RoutePathSchema),
 });
 
+// A generated loop - `routePoints` reproduce `path` when loaded into the planner
+export const LoopCandidateSchema = z.object({
+	routePoints: z.array(RoutePointSchema),
+	path: RoutePathSchema,
+});
+
+export type LoopCandidate = z.infer<typeof LoopCandidateSchema>;
+
 export const GeocodeResponseSchema = z.object({
 	hits: z.array(
 		z.object({
@@ -101,26 +163,218 @@ export const GeocodeResponseSchema = z.object({
 	),
 });
 
-// GraphHopper API helper functions
-export async function callGraphHopperAPI(url: string) {
-	const response = await fetch(url);
+// GraphHopper vehicle profile behind each activity (e-bikes route as bikes)
+const GRAPHHOPPER_PROFILES: Record<ActivityProfileId, string> = {
+	road: "racingbike",
+	gravel: "bike",
+	mtb: "mtb",
+	ebike: "bike",
+	running: "foot",
+	walking: "hike",
+};
+
+export function buildRouteUrl(
+	points: Array<{ lat: number; lng: number }>,
+	elevation: boolean,
+	profile: ActivityProfileId,
+	alternatives = false,
+) {
+	const pointParams = points.map((p) => `point=${p.lat},${p.lng}`).join("&");
+	// GraphHopper can't combine alternative routes with via points
+	const alternativeParams =
+		alternatives && points.length === 2
+			? "&algorithm=alternative_route&alternative_route.max_paths=3&ch.disable=true"
+			: "";
+	return `${GRAPHHOPPER_API_ROOT}/route?${pointParams}${alternativeParams}&vehicle=${GRAPHHOPPER_PROFILES[profile]}&details=surface&instructions=true&locale=en&points_encoded=false&elevation=${elevation}&key=${env.GRAPHHOPPER_API_KEY}&type=json`;
+}
+
+export function buildRoundTripUrl(
+	start: { lat: number; lng: number },
+	options: {
+		distance: number;
+		seed: number;
+		heading?: number;
+		elevation: boolean;
+		profile: ActivityProfileId;
+	},
+) {
+	const { distance, seed, heading, elevation, profile } = options;
+	const headingParam =
+		heading === undefined ? "" : `&heading=${Math.round(heading)}`;
+	return `${GRAPHHOPPER_API_ROOT}/route?point=${start.lat},${start.lng}&algorithm=round_trip&round_trip.distance=${Math.round(distance)}&round_trip.seed=${seed}${headingParam}&ch.disable=true&vehicle=${GRAPHHOPPER_PROFILES[profile]}&details=surface&instructions=true&locale=en&points_encoded=false&elevation=${elevation}&key=${env.GRAPHHOPPER_API_KEY}&type=json`;
+}
+
+// GraphHopper surface values behind each surface slider
+const GRAPHHOPPER_SURFACE_GROUPS = {
+	paved: ["ASPHALT", "CONCRETE", "PAVED", "PAVING_STONES", "COBBLESTONE"],
+	gravel: ["COMPACTED", "FINE_GRAVEL", "GRAVEL", "UNPAVED"],
+	dirt: ["DIRT", "GROUND", "GRASS", "SAND"],
+} as const;
+
+type CustomModelStatement = { if: string; multiply_by: number };
+
+export type GraphHopperCustomModel = {
+	priority: CustomModelStatement[];
+	areas?: {
+		type: "FeatureCollection";
+		features: Array<{
+			type: "Feature";
+			id: string;
+			properties: Record<string, never>;
+			geometry: {
+				type: "Polygon";
+				coordinates: Array<Array<[number, number]>>;
+			};
+		}>;
+	};
+};
+
+const roundFactor = (factor: number) => Math.round(factor * 100) / 100;
+
+/**
+ * Compiles routing preferences and avoid areas into a GraphHopper custom model
+ * Priorities can only lower a road's desirability, so preferred surfaces stay at 1
+ */
+export function buildCustomModel(
+	preferences: RoutingPreferences | undefined,
+	avoidAreas: AvoidArea[] = [],
+): GraphHopperCustomModel {
+	const priority: CustomModelStatement[] = [];
+
+	// Roads inside an avoid area get no priority at all, so they're never used
+	const areaIds = avoidAreas.map((_, index) => `avoid_${index}`);
+	for (const id of areaIds) {
+		priority.push({ if: `in_${id}`, multiply_by: 0 });
+	}
+	const areas: GraphHopperCustomModel["areas"] =
+		avoidAreas.length > 0
+			? {
+					type: "FeatureCollection",
+					features: avoidAreas.map((area, index) => ({
+						type: "Feature",
+						id: areaIds[index] ?? "",
+						properties: {},
+						geometry: { type: "Polygon", coordinates: [toLngLatRing(area)] },
+					})),
+				}
+			: undefined;
+
+	if (!preferences) return { priority, areas };
 
-	if (!response.ok) {
-		throw new Error(
-			`GraphHopper API error: ${response.status} ${response.statusText}`,
+	const weights = getSurfaceWeights(preferences);
+
+	for (const [group, surfaces] of Object.entries(GRAPHHOPPER_SURFACE_GROUPS)) {
+		const weight = weights[group as keyof typeof weights];
+		if (weight < 1) {
+			priority.push({
+				if: surfaces.map((surface) => `surface == ${surface}`).join(" || "),
+				multiply_by: roundFactor(weight),
+			});
+		}
+	}
+
+	if (preferences.avoidMainRoads > 0) {
+		const avoid = preferences.avoidMainRoads / 100;
+		priority.push(
+			{
+				if: "road_class == MOTORWAY || road_class == TRUNK || road_class == PRIMARY",
+				multiply_by: roundFactor(1 - 0.9 * avoid),
+			},
+			{
+				if: "road_class == SECONDARY",
+				multiply_by: roundFactor(1 - 0.5 * avoid),
+			},
 		);
 	}
+	if (preferences.avoidSteps) {
+		priority.push({ if: "road_class == STEPS", multiply_by: 0 });
+	}
+	if (preferences.avoidBridleways) {
+		priority.push({ if: "road_class == BRIDLEWAY", multiply_by: 0 });
+	}
 
-	return response.json();
+	return { priority, areas };
 }
 
-export function buildRouteUrl(
+export function buildCustomRouteUrl() {
+	return `${GRAPHHOPPER_API_ROOT}/route?key=${env.GRAPHHOPPER_API_KEY}`;
+}
+
+export function buildMatrixUrl() {
+	return `${GRAPHHOPPER_API_ROOT}/matrix?key=${env.GRAPHHOPPER_API_KEY}`;
+}
+
+/**
+ * POST body for a distance matrix between every pair of points
+ * Preferences and avoid areas aren't applied - the matrix only ranks visiting orders
+ */
+export function buildMatrixBody(
 	points: Array<{ lat: number; lng: number }>,
-	elevation: boolean,
-	vehicle: "hike" | "bike",
+	profile: ActivityProfileId,
 ) {
-	const pointParams = points.map((p) => `point=${p.lat},${p.lng}`).join("&");
-	return `${GRAPHHOPPER_API_ROOT}/route?${pointParams}&vehicle=${vehicle}&details=surface&points_encoded=false&elevation=${elevation}&key=${env.GRAPHHOPPER_API_KEY}&type=json`;
+	return {
+		points: points.map((p) => [p.lng, p.lat]),
+		profile: GRAPHHOPPER_PROFILES[profile],
+		out_arrays: ["distances"],
+		fail_fast: false, // Unreachable pairs come back as null instead of failing
+	};
+}
+
+export const MatrixResponseSchema = z.object({
+	distances: z.array(z.array(z.number().nullable())),
+});
+
+/**
+ * POST body for a route with routing preferences or avoid areas, mirroring the
+ * GET URL parameters
+ */
+export function buildCustomRouteBody(
+	points: Array<{ lat: number; lng: number }>,
+	options: {
+		elevation: boolean;
+		profile: ActivityProfileId;
+		preferences?: RoutingPreferences;
+		avoidAreas?: AvoidArea[];
+		alternatives?: boolean;
+		roundTrip?: { distance: number; seed: number; heading?: number };
+	},
+) {
+	const {
+		elevation,
+		profile,
+		preferences,
+		avoidAreas,
+		alternatives,
+		roundTrip,
+	} = options;
+
+	return {
+		points: points.map((p) => [p.lng, p.lat]),
+		profile: GRAPHHOPPER_PROFILES[profile],
+		elevation,
+		details: ["surface"],
+		instructions: true,
+		locale: "en",
+		points_encoded: false,
+		"ch.disable": true,
+		custom_model: buildCustomModel(preferences, avoidAreas),
+		...(alternatives && points.length === 2
+			? {
+					algorithm: "alternative_route",
+					"alternative_route.max_paths": 3,
+				}
+			: {}),
+		...(roundTrip
+			? {
+					algorithm: "round_trip",
+					"round_trip.distance": Math.round(roundTrip.distance),
+					"round_trip.seed": roundTrip.seed,
+					...(roundTrip.heading === undefined
+						? {}
+						: { headings: [Math.round(roundTrip.heading)] }),
+				}
+			: {}),
+	};
 }
 
 export function buildGeocodeUrl(query: string, limit: number) {
@@ -131,40 +385,6 @@ export function buildReverseGeocodeUrl(lat: number, lng: number) {
 	return `${GRAPHHOPPER_API_ROOT}/geocode?reverse=true&point=${lat},${lng}&key=${env.GRAPHHOPPER_API_KEY}`;
 }
 
-/**
- * Generates a GPX file from route coordinates
- * This creates a clean GPX with just the route track, no waypoints
- */
-export function generateGpxFromCoordinates(
-	coordinates: Array<[number, number, number]>, // [lng, lat, elevation]
-	routeName = "Route",
-): string {
-	const trackPoints = coordinates
-		.map(
-			([lng, lat, elevation]) =>
-				`      <trkpt lat="${lat}" lon="${lng}">
-        <ele>${Math.round(elevation)}</ele>
-      </trkpt>`,
-		)
-		.join("\n");
-
-	return `<?xml version="1.0" encoding="UTF-8"?>
-<gpx version="1.1" creator="All Terrain Route Planner" xmlns="http://www.topografix.com/GPX/1/1" xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v1">
-  <metadata>
-    <name>${routeName}</name>
-    <desc>Route created with All Terrain Route Planner</desc>
-    <time>${new Date().toISOString()}</time>
-  </metadata>
-  <trk>
-    <name>${routeName}</name>
-    <type>ride</type>
-    <trkseg>
-${trackPoints}
-    </trkseg>
-  </trk>
-</gpx>`;
-}
-
 // Elevation processing types and utilities
 export type ElevationChartData = Array<{
 	distance: number;
@@ -177,11 +397,14 @@ export type ElevationStats = {
 };
 
 /**
- * Processes route coordinates to create elevation chart data and calculate stats
+ * Processes route coordinates to create elevation chart data and calculate stats,
+ * both from the elevations after smoothing so they agree with each other
  */
 export function processElevationData(
-	coordinates: Array<[number, number, number]>,
+	rawCoordinates: Array<[number, number, number]>,
+	smoothing: ElevationSmoothing = DEFAULT_ELEVATION_SMOOTHING,
 ): { chartData: ElevationChartData; stats: ElevationStats } {
+	const coordinates = smoothCoordinateElevations(rawCoordinates, smoothing);
 	if (coordinates.length === 0) {
 		return {
 			chartData: [],
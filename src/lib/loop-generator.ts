@@ -0,0 +1,83 @@
+import { destinationPoint, samplePointsAlongPath } from "./geo-utils";
+import type { LatLngPoint } from "./geometry";
+import type { RoutePoint } from "./graphhopper";
+
+// Roads wind, so a loop routed through waypoints ends up longer than the polygon between them
+const ROUTING_DETOUR_FACTOR = 1.3;
+
+// Waypoints placed around the loop, excluding the start/end
+const LOOP_WAYPOINT_COUNT = 3;
+
+// Waypoints taken from a native round trip - enough to hold the loop's shape when re-routed
+const SAMPLED_WAYPOINT_COUNT = 5;
+
+// Angle between candidates when the user picked a heading
+const HEADING_SPREAD = 30;
+
+/**
+ * Heading for candidate `index`: fanned around the requested heading,
+ * or spread evenly around the compass when there is none
+ */
+export const getCandidateHeading = (
+	index: number,
+	count: number,
+	heading?: number,
+): number => {
+	const candidateHeading =
+		heading === undefined
+			? (index * 360) / count
+			: heading + (index - (count - 1) / 2) * HEADING_SPREAD;
+	return (candidateHeading + 360) % 360;
+};
+
+/**
+ * Places waypoints on a circle through the start, with the circle's centre
+ * lying along `heading`, sized so the routed loop comes out near `distance` meters
+ */
+export const generateLoopWaypoints = (
+	start: LatLngPoint,
+	distance: number,
+	heading: number,
+): LatLngPoint[] => {
+	const radius = distance / ROUTING_DETOUR_FACTOR / (2 * Math.PI);
+	const centre = destinationPoint(start, heading, radius);
+	// Bearing from the centre back to the start, where the loop begins and ends
+	const startBearing = (heading + 180) % 360;
+
+	return Array.from({ length: LOOP_WAYPOINT_COUNT }, (_, index) =>
+		destinationPoint(
+			centre,
+			startBearing + ((index + 1) * 360) / (LOOP_WAYPOINT_COUNT + 1),
+			radius,
+		),
+	);
+};
+
+/**
+ * Route points for a loop: start, the waypoints in order, and an end back at the start
+ */
+export const buildLoopRoutePoints = (
+	start: LatLngPoint,
+	waypoints: LatLngPoint[],
+): RoutePoint[] => [
+	{ lat: start.lat, lng: start.lng, type: "start" },
+	...waypoints.map(({ lat, lng }) => ({
+		lat,
+		lng,
+		type: "waypoint" as const,
+	})),
+	{ lat: start.lat, lng: start.lng, type: "end" },
+];
+
+/**
+ * Picks evenly spaced waypoints from a loop's geometry,
+ * so a native round trip can be loaded as editable route points
+ */
+export const sampleLoopRoutePoints = (
+	start: LatLngPoint,
+	coordinates: Array<[number, number, number]>,
+): RoutePoint[] =>
+	buildLoopRoutePoints(
+		start,
+		samplePointsAlongPath(coordinates, SAMPLED_WAYPOINT_COUNT),
+	);
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import {
+	type SurfaceSpeeds,
+	estimateMovingTime,
+	estimateMovingTimeFromTotals,
+	getSurfaceSpeeds,
+	parseStoredSurfaceSpeeds,
+} from "./moving-time";
+import { getCumulativeDistances } from "./route-export";
+import { SURFACE_CATEGORY_IDS } from "./surface-utils";
+
+type Coordinate = [number, number, number];
+
+const HOUR = 3600 * 1000;
+
+const speedsOf = (speed: number, overrides: Partial<SurfaceSpeeds> = {}) =>
+	({
+		...Object.fromEntries(
+			SURFACE_CATEGORY_IDS.map((category) => [category, speed]),
+		),
+		...overrides,
+	}) as SurfaceSpeeds;
+
+// A straight line north of 101 points about 111m apart, rising by `rise` in total
+const buildLine = (rise = 0, count = 101): Coordinate[] =>
+	Array.from({ length: count }, (_, index) => [
+		-1,
+		51 + index * 0.001,
+		(rise * index) / (count - 1),
+	]);
+
+const lengthOf = (coordinates: Coordinate[]) =>
+	getCumulativeDistances(coordinates).at(-1) ?? 0;
+
+describe("estimateMovingTime", () => {
+	it("takes flat routes at the surface speed", () => {
+		const line = buildLine();
+		const time = estimateMovingTime(line, [], "gravel", speedsOf(20));
+
+		expect(time / HOUR).toBeCloseTo(lengthOf(line) / 1000 / 20, 6);
+	});
+
+	it("uses each surface's own speed", () => {
+		const line = buildLine();
+		const time = estimateMovingTime(
+			line,
+			[
+				[0, 50, "asphalt"],
+				[50, 100, "gravel"],
+			],
+			"gravel",
+			speedsOf(10, { road: 20 }),
+		);
+		const half = lengthOf(line.slice(0, 51)) / 1000;
+
+		expect(time / HOUR).toBeCloseTo(half / 20 + half / 10, 6);
+	});
+
+	it("adds time for climbing at the profile's climb rate", () => {
+		const line = buildLine(350);
+		const time = estimateMovingTime(line, [], "gravel", speedsOf(20));
+
+		expect(time / HOUR).toBeCloseTo(lengthOf(line) / 1000 / 20 + 350 / 700, 6);
+	});
+
+	it("climbs at Naismith's 600m an hour when walking", () => {
+		const line = buildLine(300);
+		const time = estimateMovingTime(line, [], "walking", speedsOf(5));
+
+		expect(time / HOUR).toBeCloseTo(lengthOf(line) / 1000 / 5 + 0.5, 6);
+	});
+
+	it("speeds cycling up on descents, to a limit", () => {
+		const flat = estimateMovingTime(buildLine(), [], "gravel", speedsOf(20));
+		const gentle = estimateMovingTime(
+			buildLine(-300),
+			[],
+			"gravel",
+			speedsOf(20),
+		);
+		const steep = estimateMovingTime(
+			buildLine(-2000),
+			[],
+			"gravel",
+			speedsOf(20),
+		);
+
+		expect(gentle).toBeLessThan(flat);
+		expect(steep).toBeCloseTo(flat / 1.6, 0);
+	});
+
+	it("slows walking down steep descents, per Langmuir", () => {
+		const flat = estimateMovingTime(buildLine(), [], "walking", speedsOf(5));
+		const steep = estimateMovingTime(
+			buildLine(-1500),
+			[],
+			"walking",
+			speedsOf(5),
+		);
+
+		// Ten minutes more for every 300m down
+		expect((steep - flat) / HOUR).toBeCloseTo((1500 / 300) * (10 / 60), 6);
+	});
+});
+
+describe("estimateMovingTimeFromTotals", () => {
+	it("adds climbing to the flat time on mixed surfaces", () => {
+		const speeds = speedsOf(10, { unknown: 16 });
+
+		expect(
+			estimateMovingTimeFromTotals(40_000, 700, "gravel", speeds) / HOUR,
+		).toBeCloseTo(40 / 16 + 1, 6);
+		expect(
+			estimateMovingTimeFromTotals(10_000, 600, "walking", speeds) / HOUR,
+		).toBeCloseTo(10 / 16 + 1, 6);
+	});
+});
+
+describe("getSurfaceSpeeds", () => {
+	it("prefers the user's speeds over the defaults", () => {
+		const defaults = getSurfaceSpeeds("road");
+		const custom = getSurfaceSpeeds("road", { road: { dirt: 9 } });
+
+		expect(defaults.road).toBe(25);
+		expect(custom).toEqual({ ...defaults, dirt: 9 });
+	});
+});
+
+describe("parseStoredSurfaceSpeeds", () => {
+	it("keeps valid speeds and drops anything else", () => {
+		expect(parseStoredSurfaceSpeeds({ mtb: { path: 12 } })).toEqual({
+			mtb: { path: 12 },
+		});
+		expect(parseStoredSurfaceSpeeds({ mtb: { path: 500 } })).toEqual({});
+		expect(parseStoredSurfaceSpeeds("fast")).toEqual({});
+	});
+});
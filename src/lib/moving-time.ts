@@ -0,0 +1,178 @@
+import { z } from "zod";
+import {
+	ACTIVITY_PROFILES,
+	type ActivityProfileId,
+	ActivityProfileSchema,
+} from "./activity-profiles";
+import { calculateDistance } from "./geo-utils";
+import { getSurfacePerCoordinate } from "./route-export";
+import {
+	SURFACE_CATEGORY_IDS,
+	type SurfaceCategoryId,
+	getSurfaceCategoryId,
+	getSurfaceSpeedFactor,
+} from "./surface-utils";
+
+type Coordinate = [number, number, number]; // [lng, lat, elevation]
+
+// Speeds a user can set per surface, km/h
+export const MIN_SURFACE_SPEED = 1;
+export const MAX_SURFACE_SPEED = 80;
+
+export type SurfaceSpeeds = Record<SurfaceCategoryId, number>;
+
+// The user's own speeds, per activity and surface - anything unset uses the defaults
+export const CustomSurfaceSpeedsSchema = z.record(
+	ActivityProfileSchema,
+	z
+		.record(
+			z.enum(
+				SURFACE_CATEGORY_IDS as [SurfaceCategoryId, ...SurfaceCategoryId[]],
+			),
+			z.number().min(MIN_SURFACE_SPEED).max(MAX_SURFACE_SPEED),
+		)
+		.optional(),
+);
+
+export type CustomSurfaceSpeeds = z.infer<typeof CustomSurfaceSpeedsSchema>;
+
+// Grades are taken over stretches this long, so elevation noise doesn't count as hills
+const GRADE_WINDOW = 100; // meters
+
+// Naismith's rule for walking - an hour per 600m of ascent on top of the flat time
+const NAISMITH_CLIMB_RATE = 600; // meters per hour
+// Langmuir's corrections for descents, per 300m descended
+const LANGMUIR_DESCENT = 300; // meters
+const LANGMUIR_GENTLE_GRADE = 0.05; // 5-12% descents are quicker than the flat
+const LANGMUIR_STEEP_GRADE = 0.12; // steeper ones are slower
+const LANGMUIR_ADJUSTMENT = 10 / 60; // hours
+
+// Wheels and feet speed up downhill, up to a limit
+const DESCENT_SPEEDUP = {
+	cycling: { perGrade: 8, max: 1.6 },
+	running: { perGrade: 3, max: 1.15 },
+} as const;
+const DESCENT_THRESHOLD = 0.02; // Shallower than this counts as flat
+
+/**
+ * Default speed on each surface for an activity, overridden by the user's own
+ */
+export const getSurfaceSpeeds = (
+	profileId: ActivityProfileId,
+	custom?: CustomSurfaceSpeeds,
+): SurfaceSpeeds => {
+	const { speed } = ACTIVITY_PROFILES[profileId];
+	const overrides = custom?.[profileId] ?? {};
+
+	return Object.fromEntries(
+		SURFACE_CATEGORY_IDS.map((category) => [
+			category,
+			overrides[category] ??
+				Math.round(speed * getSurfaceSpeedFactor(category, profileId) * 10) /
+					10,
+		]),
+	) as SurfaceSpeeds;
+};
+
+/**
+ * Reads speeds stored in the browser, dropping anything that no longer validates
+ */
+export const parseStoredSurfaceSpeeds = (
+	value: unknown,
+): CustomSurfaceSpeeds => {
+	const result = CustomSurfaceSpeedsSchema.safeParse(value);
+	return result.success ? result.data : {};
+};
+
+/**
+ * Hours for one stretch of the route: its flat time adjusted for the grade,
+ * plus time for the climbing
+ */
+const getStretchHours = (
+	flatHours: number,
+	distance: number,
+	rise: number,
+	profileId: ActivityProfileId,
+): number => {
+	const { climbRate, sport } = ACTIVITY_PROFILES[profileId];
+	const grade = distance > 0 ? rise / distance : 0;
+
+	if (sport === "walking") {
+		const climbHours = Math.max(rise, 0) / NAISMITH_CLIMB_RATE;
+		if (grade >= -LANGMUIR_GENTLE_GRADE) return flatHours + climbHours;
+
+		const adjustment = (-rise / LANGMUIR_DESCENT) * LANGMUIR_ADJUSTMENT;
+		if (grade < -LANGMUIR_STEEP_GRADE) return flatHours + adjustment;
+		// Never quicker than twice the flat pace, however long the descent
+		return Math.max(flatHours - adjustment, flatHours / 2);
+	}
+
+	if (rise > 0) return flatHours + rise / climbRate;
+	if (grade > -DESCENT_THRESHOLD) return flatHours;
+
+	const { perGrade, max } =
+		DESCENT_SPEEDUP[sport === "running" ? "running" : "cycling"];
+	return flatHours / Math.min(1 + (-grade - DESCENT_THRESHOLD) * perGrade, max);
+};
+
+/**
+ * Estimated moving time in milliseconds along a route's coordinates: each
+ * stretch at the speed for its surface, slowed by climbing (Naismith's rule
+ * when walking) and sped up on descents
+ */
+export const estimateMovingTime = (
+	coordinates: Coordinate[],
+	surface: Array<[number, number, string]>,
+	profileId: ActivityProfileId,
+	speeds: SurfaceSpeeds = getSurfaceSpeeds(profileId),
+): number => {
+	const surfaces = getSurfacePerCoordinate(surface, coordinates.length);
+
+	let hours = 0;
+	let stretch = { distance: 0, rise: 0, flatHours: 0 };
+	coordinates.forEach(([lng, lat, elevation], index) => {
+		const previous = coordinates[index - 1];
+		if (!previous) return;
+
+		const distance = calculateDistance({
+			from: { lat: previous[1], lng: previous[0] },
+			to: { lat, lng },
+			unit: "m",
+		});
+		const category = getSurfaceCategoryId(surfaces[index - 1]);
+		stretch = {
+			distance: stretch.distance + distance,
+			rise: stretch.rise + elevation - previous[2],
+			flatHours: stretch.flatHours + distance / 1000 / speeds[category],
+		};
+
+		if (stretch.distance >= GRADE_WINDOW || index === coordinates.length - 1) {
+			hours += getStretchHours(
+				stretch.flatHours,
+				stretch.distance,
+				stretch.rise,
+				profileId,
+			);
+			stretch = { distance: 0, rise: 0, flatHours: 0 };
+		}
+	});
+
+	return hours * 3600 * 1000;
+};
+
+/**
+ * Estimated moving time in milliseconds from a route's totals alone, for
+ * saved routes listed without their geometry - assumes a mix of surfaces
+ */
+export const estimateMovingTimeFromTotals = (
+	distance: number,
+	ascend: number,
+	profileId: ActivityProfileId,
+	speeds: SurfaceSpeeds = getSurfaceSpeeds(profileId),
+): number => {
+	const { climbRate, sport } = ACTIVITY_PROFILES[profileId];
+	const hours =
+		distance / 1000 / speeds.unknown +
+		ascend / (sport === "walking" ? NAISMITH_CLIMB_RATE : climbRate);
+	return hours * 3600 * 1000;
+};
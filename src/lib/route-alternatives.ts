@@ -0,0 +1,87 @@
+import type { ActivityProfileId } from "./activity-profiles";
+import {
+	DEFAULT_ELEVATION_SMOOTHING,
+	type ElevationSmoothing,
+	smoothCoordinateElevations,
+} from "./elevation-smoothing";
+import { samplePointsAlongPath } from "./geo-utils";
+import { type RoutePoint, processElevationData } from "./graphhopper";
+import { type SurfaceSpeeds, estimateMovingTime } from "./moving-time";
+import type { RoutePath } from "./routing/types";
+import {
+	type SurfaceShare,
+	getSurfaceMix,
+	processSurfaceData,
+} from "./surface-utils";
+
+// One waypoint per this many meters keeps a promoted alternative on its own roads
+const WAYPOINT_SPACING = 5000;
+const MIN_WAYPOINTS = 2;
+const MAX_WAYPOINTS = 8;
+
+export type RouteSummary = {
+	distance: number; // meters
+	ascend: number; // meters
+	time: number; // milliseconds, estimated for the activity profile
+	surfaceMix: SurfaceShare[];
+};
+
+/**
+ * Distance, climbing, time and surface mix of a path, for side-by-side comparison
+ */
+export const summarizeRoutePath = (
+	path: RoutePath,
+	profile: ActivityProfileId,
+	speeds?: SurfaceSpeeds,
+	smoothing: ElevationSmoothing = DEFAULT_ELEVATION_SMOOTHING,
+): RouteSummary => {
+	// Smoothed like the active route's, rather than the engine's raw elevations
+	const coordinates = smoothCoordinateElevations(
+		path.points.coordinates,
+		smoothing,
+	);
+
+	return {
+		distance: path.distance,
+		ascend: processElevationData(coordinates, "none").stats.totalGain,
+		// Engine times assume the engine's own vehicle, so estimate for the profile
+		time: estimateMovingTime(
+			coordinates,
+			path.details.surface,
+			profile,
+			speeds,
+		),
+		surfaceMix: getSurfaceMix(
+			processSurfaceData(path.details.surface, path.distance / 1000),
+		),
+	};
+};
+
+/**
+ * Turns an alternative path into route points - the original start and end with
+ * waypoints along the alternative, so re-routing follows it
+ */
+export const buildAlternativeRoutePoints = (
+	routePoints: RoutePoint[],
+	path: RoutePath,
+): RoutePoint[] => {
+	const start = routePoints[0];
+	const end = routePoints.at(-1);
+	if (!start || !end) return routePoints;
+
+	const count = Math.min(
+		MAX_WAYPOINTS,
+		Math.max(MIN_WAYPOINTS, Math.round(path.distance / WAYPOINT_SPACING)),
+	);
+	const waypoints = samplePointsAlongPath(path.points.coordinates, count);
+
+	return [
+		start,
+		...waypoints.map(({ lat, lng }) => ({
+			lat,
+			lng,
+			type: "waypoint" as const,
+		})),
+		end,
+	];
+};
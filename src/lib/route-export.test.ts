@@ -0,0 +1,237 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import type { Cue } from "./cue-sheet";
+import type { RoutePoint } from "./graphhopper";
+import {
+	escapeXml,
+	generateGeoJsonFromCoordinates,
+	generateGpxFromCoordinates,
+	generateKmlFromCoordinates,
+	generateTcxFromCoordinates,
+	getCumulativeDistances,
+	getSurfacePerCoordinate,
+} from "./route-export";
+
+type Coordinate = [number, number, number];
+
+const coordinates: Coordinate[] = [
+	[-1, 51, 100],
+	[-1, 51.001, 105],
+	[-1, 51.002, 110],
+	[-1, 51.003, 108],
+];
+
+const routePoints: RoutePoint[] = [
+	{ lat: 51, lng: -1, type: "start" },
+	{ lat: 51.0015, lng: -1, type: "waypoint" },
+	{ lat: 51.002, lng: -1, type: "checkpoint", name: `Tom's "Cafe" & <Bar>` },
+	{ lat: 51.003, lng: -1, type: "end", name: "Home" },
+];
+
+const cues: Cue[] = [
+	{
+		type: "left",
+		text: "Turn left onto A & B Road",
+		streetName: "A & B Road",
+		distanceFromStart: 111,
+		distance: 222,
+		coordinateIndex: 1,
+		lat: 51.001,
+		lng: -1,
+	},
+];
+
+const parseXml = (xml: string) => {
+	const doc = new DOMParser().parseFromString(xml, "application/xml");
+	expect(doc.getElementsByTagName("parsererror")).toHaveLength(0);
+	return doc;
+};
+
+const texts = (doc: Document, tagName: string) =>
+	Array.from(doc.getElementsByTagName(tagName), (el) => el.textContent);
+
+describe("escapeXml", () => {
+	it("escapes every character with meaning in XML", () => {
+		expect(escapeXml(`<a href="x">Tom's & Jerry's</a>`)).toBe(
+			"&lt;a href=&quot;x&quot;&gt;Tom&apos;s &amp; Jerry&apos;s&lt;/a&gt;",
+		);
+	});
+});
+
+describe("getSurfacePerCoordinate", () => {
+	it("expands surface spans, leaving uncovered coordinates empty", () => {
+		expect(
+			getSurfacePerCoordinate(
+				[
+					[0, 1, "asphalt"],
+					[1, 2, "gravel"],
+					[4, 9, "dirt"],
+				],
+				5,
+			),
+		).toEqual(["asphalt", "gravel", "gravel", undefined, "dirt"]);
+	});
+});
+
+describe("getCumulativeDistances", () => {
+	it("adds up the distance to each coordinate", () => {
+		const distances = getCumulativeDistances(coordinates);
+
+		expect(distances[0]).toBe(0);
+		// A thousandth of a degree of latitude is about 111m
+		expect(distances[1]).toBeCloseTo(111.2, 0);
+		expect(distances[3]).toBeCloseTo(333.6, 0);
+	});
+});
+
+describe("generateGpxFromCoordinates", () => {
+	it("writes a track with surfaces and escaped names", () => {
+		const doc = parseXml(
+			generateGpxFromCoordinates(coordinates, {
+				name: "Ride <1> & more",
+				routePoints,
+				surface: [[0, 3, "gravel"]],
+			}),
+		);
+
+		expect(doc.getElementsByTagName("trkpt")).toHaveLength(4);
+		expect(texts(doc, "ele").slice(-4)).toEqual([
+			"100.0",
+			"105.0",
+			"110.0",
+			"108.0",
+		]);
+		expect(texts(doc, "atrp:surface")).toEqual(Array(4).fill("gravel"));
+		expect(texts(doc, "name")[0]).toBe("Ride <1> & more");
+	});
+
+	it("writes waypoints for checkpoints and named points only", () => {
+		const doc = parseXml(
+			generateGpxFromCoordinates(coordinates, { routePoints }),
+		);
+		const waypointNames = Array.from(
+			doc.getElementsByTagName("wpt"),
+			(el) => el.getElementsByTagName("name")[0]?.textContent,
+		);
+
+		expect(waypointNames).toEqual([`Tom's "Cafe" & <Bar>`, "Home"]);
+		expect(doc.getElementsByTagName("rte")).toHaveLength(0);
+	});
+
+	it("adds a route and cue waypoints when asked", () => {
+		const doc = parseXml(
+			generateGpxFromCoordinates(coordinates, {
+				routePoints,
+				cues,
+				includeRoute: true,
+				includeCues: true,
+			}),
+		);
+
+		expect(doc.getElementsByTagName("rtept")).toHaveLength(4);
+		expect(doc.getElementsByTagName("wpt")).toHaveLength(3);
+		expect(texts(doc, "name")).toContain("Turn left onto A & B Road");
+	});
+
+	it("numbers unnamed points by their place in the route everywhere", () => {
+		const points: RoutePoint[] = [
+			{ lat: 51, lng: -1, type: "start" },
+			{ lat: 51.001, lng: -1, type: "waypoint" },
+			{ lat: 51.002, lng: -1, type: "checkpoint" },
+			{ lat: 51.003, lng: -1, type: "end" },
+		];
+		const gpx = parseXml(
+			generateGpxFromCoordinates(coordinates, {
+				routePoints: points,
+				includeRoute: true,
+			}),
+		);
+		const kml = parseXml(
+			generateKmlFromCoordinates(coordinates, { routePoints: points }),
+		);
+		const nameOf = (el: Element | undefined) =>
+			el?.getElementsByTagName("name")[0]?.textContent;
+
+		expect(nameOf(gpx.getElementsByTagName("wpt")[0])).toBe("Waypoint 2");
+		expect(nameOf(gpx.getElementsByTagName("rtept")[2])).toBe("Waypoint 2");
+		expect(nameOf(kml.getElementsByTagName("Placemark")[3])).toBe("Waypoint 2");
+	});
+});
+
+describe("generateTcxFromCoordinates", () => {
+	it("writes a course with course points in track order", () => {
+		const doc = parseXml(
+			generateTcxFromCoordinates(coordinates, {
+				name: "A very long course name",
+				routePoints,
+				cues,
+			}),
+		);
+
+		expect(doc.getElementsByTagName("Trackpoint")).toHaveLength(4);
+		// Course names are cut to 15 characters and course point names to 10
+		expect(texts(doc, "Name")).toEqual([
+			"A very long cou",
+			"A & B Road",
+			`Tom's "Caf`,
+			"Home",
+		]);
+		expect(texts(doc, "PointType")).toEqual(["Left", "Generic", "Generic"]);
+		expect(texts(doc, "Notes")).toContain("Turn left onto A & B Road");
+	});
+
+	it("orders the course's children as the TCX schema requires", () => {
+		const doc = parseXml(
+			generateTcxFromCoordinates(coordinates, { routePoints, cues }),
+		);
+		const course = doc.getElementsByTagName("Course")[0];
+
+		// Name, Lap*, Track*, Notes?, CoursePoint*
+		expect(Array.from(course?.children ?? [], (el) => el.tagName)).toEqual([
+			"Name",
+			"Lap",
+			"Track",
+			"Notes",
+			"CoursePoint",
+			"CoursePoint",
+			"CoursePoint",
+		]);
+	});
+});
+
+describe("generateKmlFromCoordinates", () => {
+	it("writes the line and a placemark per route point", () => {
+		const doc = parseXml(
+			generateKmlFromCoordinates(coordinates, { routePoints }),
+		);
+
+		expect(doc.getElementsByTagName("Placemark")).toHaveLength(5);
+		expect(texts(doc, "coordinates")[0]).toBe(
+			"-1,51,100.0 -1,51.001,105.0 -1,51.002,110.0 -1,51.003,108.0",
+		);
+		expect(texts(doc, "name")).toContain(`Tom's "Cafe" & <Bar>`);
+	});
+});
+
+describe("generateGeoJsonFromCoordinates", () => {
+	it("writes the line with its details and a point per route point", () => {
+		const geoJson = JSON.parse(
+			generateGeoJsonFromCoordinates(coordinates, {
+				name: "Ride",
+				routePoints,
+				surface: [[0, 3, "gravel"]],
+			}),
+		);
+
+		expect(geoJson.features).toHaveLength(5);
+		expect(geoJson.features[0].geometry.coordinates).toEqual(coordinates);
+		expect(geoJson.features[0].properties).toMatchObject({
+			name: "Ride",
+			surface: [[0, 3, "gravel"]],
+		});
+		expect(geoJson.features[1].properties).toEqual({
+			name: "Start",
+			type: "start",
+		});
+	});
+});
@@ -0,0 +1,493 @@
+import {
+	ACTIVITY_PROFILES,
+	type ActivityProfileId,
+	DEFAULT_ACTIVITY_PROFILE,
+} from "./activity-profiles";
+import type { Cue, CueType } from "./cue-sheet";
+import { calculateDistance } from "./geo-utils";
+import type { RoutePoint } from "./graphhopper";
+
+type Coordinate = [number, number, number]; // [lng, lat, elevation]
+
+// Supported download formats and how the browser should save them
+export const EXPORT_FORMATS = {
+	gpx: {
+		label: "GPX",
+		extension: "gpx",
+		mimeType: "application/gpx+xml",
+	},
+	tcx: {
+		label: "TCX course",
+		extension: "tcx",
+		mimeType: "application/vnd.garmin.tcx+xml",
+	},
+	fit: {
+		label: "FIT course",
+		extension: "fit",
+		mimeType: "application/vnd.ant.fit",
+	},
+	kml: {
+		label: "KML",
+		extension: "kml",
+		mimeType: "application/vnd.google-earth.kml+xml",
+	},
+	geojson: {
+		label: "GeoJSON",
+		extension: "geojson",
+		mimeType: "application/geo+json",
+	},
+} as const;
+
+export type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+export type RouteExportOptions = {
+	/** Route title, used for the file metadata and track name */
+	name?: string;
+	description?: string;
+	/** Input points - checkpoints and named points become waypoints */
+	routePoints?: RoutePoint[];
+	/** GraphHopper surface details as [fromIndex, toIndex, surface] */
+	surface?: Array<[number, number, string]>;
+	/** Turn cues - course points in TCX/FIT, waypoints in GPX when requested */
+	cues?: Cue[];
+	/** Activity the course is for - sets its pace and FIT sport */
+	activityProfile?: ActivityProfileId;
+};
+
+export type GpxExportOptions = RouteExportOptions & {
+	/** Also emit an <rte> for devices that navigate turn-by-turn from routes */
+	includeRoute?: boolean;
+	/** Also emit a waypoint for every turn cue */
+	includeCues?: boolean;
+};
+
+export const DEFAULT_ROUTE_NAME = "All Terrain Route";
+export const DEFAULT_DESCRIPTION =
+	"Route created with All Terrain Route Planner";
+
+// TCX only knows left/right/straight - everything else is a generic point
+const TCX_POINT_TYPES: Partial<Record<CueType, string>> = {
+	continue: "Straight",
+	slight_left: "Left",
+	left: "Left",
+	sharp_left: "Left",
+	keep_left: "Left",
+	slight_right: "Right",
+	right: "Right",
+	sharp_right: "Right",
+	keep_right: "Right",
+};
+
+// Namespace for our own GPX extensions (surface per track point)
+const ATRP_NAMESPACE = "urn:all-terrain-route-planner:gpx:v1";
+
+/**
+ * Escapes text for safe inclusion in XML content and attributes
+ */
+export function escapeXml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&apos;");
+}
+
+/**
+ * Expands [fromIndex, toIndex, surface] details into a surface per coordinate
+ */
+export function getSurfacePerCoordinate(
+	surface: Array<[number, number, string]>,
+	coordinateCount: number,
+): Array<string | undefined> {
+	const surfaces = new Array<string | undefined>(coordinateCount);
+
+	for (const [from, to, value] of surface) {
+		for (let i = from; i <= to && i < coordinateCount; i++) {
+			surfaces[i] = value;
+		}
+	}
+
+	return surfaces;
+}
+
+/**
+ * Finds the index of the route coordinate closest to a point
+ */
+export function findNearestCoordinateIndex(
+	coordinates: Coordinate[],
+	point: { lat: number; lng: number },
+): number {
+	let nearestIndex = 0;
+	let minDistance = Number.MAX_VALUE;
+
+	coordinates.forEach(([lng, lat], index) => {
+		const distance = (lng - point.lng) ** 2 + (lat - point.lat) ** 2;
+		if (distance < minDistance) {
+			minDistance = distance;
+			nearestIndex = index;
+		}
+	});
+
+	return nearestIndex;
+}
+
+/**
+ * Finds the elevation of the route coordinate closest to a point
+ */
+export function getElevationNear(
+	coordinates: Coordinate[],
+	point: { lat: number; lng: number },
+): number | undefined {
+	return coordinates[findNearestCoordinateIndex(coordinates, point)]?.[2];
+}
+
+/**
+ * Display name for a route point, falling back to its type
+ */
+export function getRoutePointLabel(point: RoutePoint, index: number): string {
+	if (point.name) return point.name;
+	if (point.type === "start") return "Start";
+	if (point.type === "end") return "End";
+	return `Waypoint ${index}`;
+}
+
+const formatElevation = (elevation: number) => elevation.toFixed(1);
+
+/**
+ * Cumulative distance in meters at each coordinate along the route
+ */
+export function getCumulativeDistances(coordinates: Coordinate[]): number[] {
+	let total = 0;
+
+	return coordinates.map(([lng, lat], index) => {
+		const prev = coordinates[index - 1];
+		if (prev) {
+			total += calculateDistance({
+				from: { lat: prev[1], lng: prev[0] },
+				to: { lat, lng },
+				unit: "m",
+			});
+		}
+		return total;
+	});
+}
+
+/**
+ * Seconds needed to cover a distance at the profile's steady pace - course
+ * formats need timestamps
+ */
+export const getExportSeconds = (
+	distanceMeters: number,
+	profile: ActivityProfileId = DEFAULT_ACTIVITY_PROFILE,
+) => distanceMeters / ((ACTIVITY_PROFILES[profile].speed * 1000) / 3600);
+
+/**
+ * Route points worth marking on a device: checkpoints plus anything named,
+ * labelled by their place in the whole route so every format numbers them alike
+ */
+export const getMarkedPoints = (routePoints: RoutePoint[]) =>
+	routePoints.flatMap((point, index) =>
+		point.type === "checkpoint" || point.name
+			? [{ ...point, label: getRoutePointLabel(point, index) }]
+			: [],
+	);
+
+/**
+ * Generates a GPX file from route coordinates
+ * Includes the track with per-point surface extensions, waypoints for
+ * checkpoints and named points, and optionally an <rte> of the route points
+ */
+export function generateGpxFromCoordinates(
+	coordinates: Coordinate[],
+	{
+		name = DEFAULT_ROUTE_NAME,
+		description = DEFAULT_DESCRIPTION,
+		routePoints = [],
+		surface = [],
+		cues = [],
+		includeRoute = false,
+		includeCues = false,
+	}: GpxExportOptions = {},
+): string {
+	const routeName = escapeXml(name);
+	const surfaces = getSurfacePerCoordinate(surface, coordinates.length);
+
+	const trackPoints = coordinates
+		.map(([lng, lat, elevation], index) => {
+			const pointSurface = surfaces[index];
+			const extensions = pointSurface
+				? `
+        <extensions>
+          <atrp:surface>${escapeXml(pointSurface)}</atrp:surface>
+        </extensions>`
+				: "";
+
+			return `      <trkpt lat="${lat}" lon="${lng}">
+        <ele>${formatElevation(elevation)}</ele>${extensions}
+      </trkpt>`;
+		})
+		.join("\n");
+
+	// Checkpoints are always exported, other points only when they've been named
+	const waypoints = getMarkedPoints(routePoints)
+		.map((point) => {
+			const elevation = getElevationNear(coordinates, point);
+			const ele =
+				elevation !== undefined
+					? `\n    <ele>${formatElevation(elevation)}</ele>`
+					: "";
+
+			return `  <wpt lat="${point.lat}" lon="${point.lng}">${ele}
+    <name>${escapeXml(point.label)}</name>
+    <type>${point.type}</type>
+  </wpt>`;
+		})
+		.concat(
+			includeCues
+				? cues.map((cue) => {
+						const elevation = coordinates[cue.coordinateIndex]?.[2];
+						const ele =
+							elevation !== undefined
+								? `\n    <ele>${formatElevation(elevation)}</ele>`
+								: "";
+
+						return `  <wpt lat="${cue.lat}" lon="${cue.lng}">${ele}
+    <name>${escapeXml(cue.text)}</name>
+    <type>${cue.type}</type>
+  </wpt>`;
+					})
+				: [],
+		)
+		.join("\n");
+
+	const route =
+		includeRoute && routePoints.length >= 2
+			? `
+  <rte>
+    <name>${routeName}</name>
+${routePoints
+	.map(
+		(point, index) => `    <rtept lat="${point.lat}" lon="${point.lng}">
+      <name>${escapeXml(getRoutePointLabel(point, index))}</name>
+      <type>${point.type}</type>
+    </rtept>`,
+	)
+	.join("\n")}
+  </rte>`
+			: "";
+
+	return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="All Terrain Route Planner" xmlns="http://www.topografix.com/GPX/1/1" xmlns:atrp="${ATRP_NAMESPACE}">
+  <metadata>
+    <name>${routeName}</name>
+    <desc>${escapeXml(description)}</desc>
+    <time>${new Date().toISOString()}</time>
+  </metadata>${waypoints ? `\n${waypoints}` : ""}${route}
+  <trk>
+    <name>${routeName}</name>
+    <desc>${escapeXml(description)}</desc>
+    <type>ride</type>
+    <trkseg>
+${trackPoints}
+    </trkseg>
+  </trk>
+</gpx>`;
+}
+
+/**
+ * Generates a TCX course with synthetic timestamps and course points
+ * for checkpoints, named route points and turn cues
+ */
+export function generateTcxFromCoordinates(
+	coordinates: Coordinate[],
+	{
+		name = DEFAULT_ROUTE_NAME,
+		description = DEFAULT_DESCRIPTION,
+		routePoints = [],
+		cues = [],
+		activityProfile,
+	}: RouteExportOptions = {},
+): string {
+	const distances = getCumulativeDistances(coordinates);
+	const totalDistance = distances.at(-1) ?? 0;
+	const startTime = Date.now();
+	const timeAt = (index: number) =>
+		new Date(
+			startTime +
+				getExportSeconds(distances[index] ?? 0, activityProfile) * 1000,
+		).toISOString();
+
+	const first = coordinates[0];
+	const last = coordinates.at(-1);
+	const position = (coord: Coordinate | undefined) =>
+		coord
+			? `<LatitudeDegrees>${coord[1]}</LatitudeDegrees><LongitudeDegrees>${coord[0]}</LongitudeDegrees>`
+			: "";
+
+	const trackPoints = coordinates
+		.map(
+			(coord, index) => `          <Trackpoint>
+            <Time>${timeAt(index)}</Time>
+            <Position>${position(coord)}</Position>
+            <AltitudeMeters>${formatElevation(coord[2])}</AltitudeMeters>
+            <DistanceMeters>${(distances[index] ?? 0).toFixed(1)}</DistanceMeters>
+          </Trackpoint>`,
+		)
+		.join("\n");
+
+	// Course points must follow the track, so markers and cues are merged by position
+	const coursePoints = [
+		...getMarkedPoints(routePoints).map((point) => ({
+			coordinateIndex: findNearestCoordinateIndex(coordinates, point),
+			lat: point.lat,
+			lng: point.lng,
+			name: point.label,
+			notes: point.label,
+			pointType: "Generic",
+		})),
+		...cues.map((cue) => ({
+			coordinateIndex: cue.coordinateIndex,
+			lat: cue.lat,
+			lng: cue.lng,
+			// Devices show the point type as the arrow, so the street reads best
+			name: cue.streetName ?? cue.text,
+			notes: cue.text,
+			pointType: TCX_POINT_TYPES[cue.type] ?? "Generic",
+		})),
+	]
+		.sort((a, b) => a.coordinateIndex - b.coordinateIndex)
+		.map((point) => {
+			const elevation = coordinates[point.coordinateIndex]?.[2] ?? 0;
+
+			// TCX limits course point names to 10 characters
+			return `        <CoursePoint>
+          <Name>${escapeXml(point.name.slice(0, 10))}</Name>
+          <Time>${timeAt(point.coordinateIndex)}</Time>
+          <Position>${position([point.lng, point.lat, elevation])}</Position>
+          <AltitudeMeters>${formatElevation(elevation)}</AltitudeMeters>
+          <PointType>${point.pointType}</PointType>
+          <Notes>${escapeXml(point.notes)}</Notes>
+        </CoursePoint>`;
+		})
+		.join("\n");
+
+	return `<?xml version="1.0" encoding="UTF-8"?>
+<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2 http://www.garmin.com/xmlschemas/TrainingCenterDatabasev2.xsd">
+  <Courses>
+    <Course>
+      <Name>${escapeXml(name.slice(0, 15))}</Name>
+      <Lap>
+        <TotalTimeSeconds>${getExportSeconds(totalDistance, activityProfile).toFixed(0)}</TotalTimeSeconds>
+        <DistanceMeters>${totalDistance.toFixed(1)}</DistanceMeters>
+        <BeginPosition>${position(first)}</BeginPosition>
+        <EndPosition>${position(last)}</EndPosition>
+        <Intensity>Active</Intensity>
+      </Lap>
+      <Track>
+${trackPoints}
+      </Track>
+      <Notes>${escapeXml(description)}</Notes>${coursePoints ? `\n${coursePoints}` : ""}
+    </Course>
+  </Courses>
+</TrainingCenterDatabase>`;
+}
+
+/**
+ * Generates a KML document with the route line and placemarks for route points
+ */
+export function generateKmlFromCoordinates(
+	coordinates: Coordinate[],
+	{
+		name = DEFAULT_ROUTE_NAME,
+		description = DEFAULT_DESCRIPTION,
+		routePoints = [],
+	}: RouteExportOptions = {},
+): string {
+	const lineCoordinates = coordinates
+		.map(
+			([lng, lat, elevation]) => `${lng},${lat},${formatElevation(elevation)}`,
+		)
+		.join(" ");
+
+	const placemarks = routePoints
+		.map(
+			(point, index) => `    <Placemark>
+      <name>${escapeXml(getRoutePointLabel(point, index))}</name>
+      <description>${point.type}</description>
+      <Point>
+        <coordinates>${point.lng},${point.lat}</coordinates>
+      </Point>
+    </Placemark>`,
+		)
+		.join("\n");
+
+	return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(name)}</name>
+    <description>${escapeXml(description)}</description>
+    <Style id="route">
+      <LineStyle>
+        <color>ffe9a50e</color>
+        <width>4</width>
+      </LineStyle>
+    </Style>
+    <Placemark>
+      <name>${escapeXml(name)}</name>
+      <styleUrl>#route</styleUrl>
+      <LineString>
+        <tessellate>1</tessellate>
+        <altitudeMode>clampToGround</altitudeMode>
+        <coordinates>${lineCoordinates}</coordinates>
+      </LineString>
+    </Placemark>${placemarks ? `\n${placemarks}` : ""}
+  </Document>
+</kml>`;
+}
+
+/**
+ * Generates a GeoJSON FeatureCollection with the route line (including
+ * surface details) and a point feature per route point
+ */
+export function generateGeoJsonFromCoordinates(
+	coordinates: Coordinate[],
+	{
+		name = DEFAULT_ROUTE_NAME,
+		description = DEFAULT_DESCRIPTION,
+		routePoints = [],
+		surface = [],
+	}: RouteExportOptions = {},
+): string {
+	const featureCollection = {
+		type: "FeatureCollection",
+		features: [
+			{
+				type: "Feature",
+				properties: {
+					name,
+					description,
+					distance: getCumulativeDistances(coordinates).at(-1) ?? 0,
+					surface,
+				},
+				geometry: {
+					type: "LineString",
+					coordinates,
+				},
+			},
+			...routePoints.map((point, index) => ({
+				type: "Feature",
+				properties: {
+					name: getRoutePointLabel(point, index),
+					type: point.type,
+				},
+				geometry: {
+					type: "Point",
+					coordinates: [point.lng, point.lat],
+				},
+			})),
+		],
+	};
+
+	return JSON.stringify(featureCollection, null, 2);
+}
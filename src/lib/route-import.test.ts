@@ -0,0 +1,155 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { buildRoutePointsFromTrack, parseRouteFile } from "./route-import";
+
+const gpx = (body: string) =>
+	`<?xml version="1.0"?><gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1">${body}</gpx>`;
+
+// A winding track heading east, so simplifying it keeps some of the bends
+const windingTrack = Array.from({ length: 200 }, (_, index) => ({
+	lat: 51 + Math.sin(index / 5) * 0.01,
+	lng: -1 + index * 0.001,
+}));
+
+describe("parseRouteFile", () => {
+	it("reads a GPX track with its name and named waypoints", () => {
+		const route = parseRouteFile(
+			gpx(`
+				<metadata><name>Ridgeway</name></metadata>
+				<wpt lat="51.5" lon="-1.2"><name>Cafe</name></wpt>
+				<wpt lat="51.6" lon="-1.3"></wpt>
+				<trk><name>Track name</name><trkseg>
+					<trkpt lat="51.4" lon="-1.1"></trkpt>
+					<trkpt lat="51.5" lon="-1.2"></trkpt>
+					<trkpt lat="bad" lon="-1.2"></trkpt>
+					<trkpt lat="51.7" lon="-1.4"></trkpt>
+				</trkseg></trk>
+			`),
+			"ride.gpx",
+		);
+
+		expect(route.name).toBe("Ridgeway");
+		expect(route.track).toEqual([
+			{ lat: 51.4, lng: -1.1 },
+			{ lat: 51.5, lng: -1.2 },
+			{ lat: 51.7, lng: -1.4 },
+		]);
+		expect(route.waypoints).toEqual([{ lat: 51.5, lng: -1.2, name: "Cafe" }]);
+	});
+
+	it("falls back to route points, then to waypoints", () => {
+		const fromRoute = parseRouteFile(
+			gpx(`<rte><name>Planned</name>
+				<rtept lat="1" lon="2"></rtept><rtept lat="3" lon="4"></rtept>
+			</rte>`),
+			"route.gpx",
+		);
+		expect(fromRoute.name).toBe("Planned");
+		expect(fromRoute.track).toHaveLength(2);
+
+		const fromWaypoints = parseRouteFile(
+			gpx(`
+				<wpt lat="1" lon="2"><name>A</name></wpt>
+				<wpt lat="3" lon="4"><name>B</name></wpt>
+			`),
+			"points.gpx",
+		);
+		expect(fromWaypoints.track).toEqual([
+			{ lat: 1, lng: 2, name: "A" },
+			{ lat: 3, lng: 4, name: "B" },
+		]);
+	});
+
+	it("reads a TCX course with its course points", () => {
+		const position = (lat: number, lng: number) =>
+			`<Position><LatitudeDegrees>${lat}</LatitudeDegrees><LongitudeDegrees>${lng}</LongitudeDegrees></Position>`;
+		const route = parseRouteFile(
+			`<?xml version="1.0"?>
+			<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">
+				<Courses><Course><Name>Loop</Name>
+					<Track>
+						<Trackpoint>${position(10, 20)}</Trackpoint>
+						<Trackpoint>${position(11, 21)}</Trackpoint>
+					</Track>
+					<CoursePoint><Name>Summit</Name>${position(10.5, 20.5)}</CoursePoint>
+				</Course></Courses>
+			</TrainingCenterDatabase>`,
+			"course.xml",
+		);
+
+		expect(route.name).toBe("Loop");
+		expect(route.track).toEqual([
+			{ lat: 10, lng: 20 },
+			{ lat: 11, lng: 21 },
+		]);
+		expect(route.waypoints).toEqual([{ lat: 10.5, lng: 20.5, name: "Summit" }]);
+	});
+
+	it("rejects invalid XML and files without a track", () => {
+		expect(() => parseRouteFile("<gpx><trk>", "broken.gpx")).toThrow(
+			"The file is not valid XML",
+		);
+		expect(() =>
+			parseRouteFile(gpx("<trk><trkseg></trkseg></trk>"), "empty.gpx"),
+		).toThrow("No track found in the file");
+	});
+});
+
+describe("buildRoutePointsFromTrack", () => {
+	it("simplifies a long track to at most the point limit", () => {
+		const points = buildRoutePointsFromTrack(
+			{ track: windingTrack, waypoints: [] },
+			10,
+		);
+
+		expect(points.length).toBeLessThanOrEqual(10);
+		expect(points[0]).toMatchObject({ ...windingTrack[0], type: "start" });
+		expect(points.at(-1)).toMatchObject({
+			...windingTrack.at(-1),
+			type: "end",
+		});
+		expect(
+			points.slice(1, -1).every((point) => point.type === "waypoint"),
+		).toBe(true);
+	});
+
+	it("slots named waypoints on the track in as checkpoints, in track order", () => {
+		const onTrack = (index: number, name: string) => ({
+			...(windingTrack[index] ?? { lat: 0, lng: 0 }),
+			name,
+		});
+		const points = buildRoutePointsFromTrack(
+			{
+				track: windingTrack,
+				waypoints: [
+					onTrack(150, "Second"),
+					onTrack(50, "First"),
+					{ lat: 60, lng: 10, name: "Far away" },
+					onTrack(0, "Home"),
+				],
+			},
+			10,
+		);
+
+		expect(points.length).toBeLessThanOrEqual(10);
+		expect(points[0]).toMatchObject({ type: "start", name: "Home" });
+		expect(
+			points
+				.filter((point) => point.type === "checkpoint")
+				.map((point) => point.name),
+		).toEqual(["First", "Second"]);
+	});
+
+	it("throws when the checkpoints alone exceed the point limit", () => {
+		const waypoints = [40, 80, 120].map((index) => ({
+			...(windingTrack[index] ?? { lat: 0, lng: 0 }),
+			name: `Checkpoint ${index}`,
+		}));
+
+		expect(() =>
+			buildRoutePointsFromTrack({ track: windingTrack, waypoints }, 4),
+		).toThrow(
+			"The file has 3 checkpoints, but routes can have at most 4 points",
+		);
+	});
+});
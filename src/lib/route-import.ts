@@ -0,0 +1,213 @@
+import { calculateDistance } from "./geo-utils";
+import { type LatLngPoint, simplifyPath } from "./geometry";
+import type { RoutePoint } from "./graphhopper";
+
+// Starting Douglas-Peucker tolerance in degrees (~20m), doubled until the track fits
+const INITIAL_SIMPLIFY_TOLERANCE = 0.0002;
+
+// Named waypoints further than this from the track are not on the route
+const MAX_CHECKPOINT_OFFSET_METERS = 250;
+
+export type ImportedRoute = {
+	name?: string;
+	track: LatLngPoint[];
+	waypoints: Array<LatLngPoint & { name: string }>;
+};
+
+const getElements = (parent: Document | Element, tagName: string) =>
+	Array.from(parent.getElementsByTagNameNS("*", tagName));
+
+const getChildText = (parent: Element, tagName: string) =>
+	getElements(parent, tagName)[0]?.textContent?.trim() || undefined;
+
+const toLatLng = (lat: unknown, lng: unknown): LatLngPoint | null => {
+	const point = { lat: Number(lat), lng: Number(lng) };
+	return Number.isFinite(point.lat) && Number.isFinite(point.lng)
+		? point
+		: null;
+};
+
+/**
+ * Parse a GPX 1.0/1.1 document - uses track points, falling back to route points
+ */
+function parseGpx(doc: Document): ImportedRoute {
+	const readPoints = (tagName: string) =>
+		getElements(doc, tagName)
+			.map((el) => toLatLng(el.getAttribute("lat"), el.getAttribute("lon")))
+			.filter((point): point is LatLngPoint => point !== null);
+
+	const trackPoints = readPoints("trkpt");
+	const track = trackPoints.length > 0 ? trackPoints : readPoints("rtept");
+
+	const waypoints = getElements(doc, "wpt").flatMap((el) => {
+		const point = toLatLng(el.getAttribute("lat"), el.getAttribute("lon"));
+		const name = getChildText(el, "name");
+		return point && name ? [{ ...point, name }] : [];
+	});
+
+	const metadata = getElements(doc, "metadata")[0];
+	const trk = getElements(doc, "trk")[0] ?? getElements(doc, "rte")[0];
+	const name =
+		(metadata && getChildText(metadata, "name")) ??
+		(trk && getChildText(trk, "name"));
+
+	return { name, track, waypoints };
+}
+
+/**
+ * Parse a TCX course or activity - course points become named waypoints
+ */
+function parseTcx(doc: Document): ImportedRoute {
+	const readPosition = (el: Element) => {
+		const position = getElements(el, "Position")[0];
+		return position
+			? toLatLng(
+					getChildText(position, "LatitudeDegrees"),
+					getChildText(position, "LongitudeDegrees"),
+				)
+			: null;
+	};
+
+	const track = getElements(doc, "Trackpoint")
+		.map(readPosition)
+		.filter((point): point is LatLngPoint => point !== null);
+
+	const waypoints = getElements(doc, "CoursePoint").flatMap((el) => {
+		const point = readPosition(el);
+		const name = getChildText(el, "Name");
+		return point && name ? [{ ...point, name }] : [];
+	});
+
+	const course = getElements(doc, "Course")[0];
+	const name = course ? getChildText(course, "Name") : undefined;
+
+	return { name, track, waypoints };
+}
+
+/**
+ * Parse the contents of an uploaded GPX or TCX file
+ * Throws if the file isn't valid XML or contains no usable track
+ */
+export function parseRouteFile(
+	content: string,
+	fileName: string,
+): ImportedRoute {
+	const doc = new DOMParser().parseFromString(content, "application/xml");
+
+	if (doc.getElementsByTagName("parsererror").length > 0) {
+		throw new Error("The file is not valid XML");
+	}
+
+	const isTcx =
+		fileName.toLowerCase().endsWith(".tcx") ||
+		doc.documentElement.localName === "TrainingCenterDatabase";
+	const route = isTcx ? parseTcx(doc) : parseGpx(doc);
+
+	// Files with only waypoints are treated as a route through them in order
+	const track = route.track.length >= 2 ? route.track : route.waypoints;
+
+	if (track.length < 2) {
+		throw new Error("No track found in the file");
+	}
+
+	return { ...route, track };
+}
+
+/**
+ * Find the index of the track point closest to a location, with its distance in meters
+ */
+function findNearestTrackIndex(track: LatLngPoint[], point: LatLngPoint) {
+	let nearestIndex = 0;
+	let nearestDistance = Number.MAX_VALUE;
+
+	track.forEach((trackPoint, index) => {
+		const distance = calculateDistance({
+			from: point,
+			to: trackPoint,
+			unit: "m",
+		});
+		if (distance < nearestDistance) {
+			nearestDistance = distance;
+			nearestIndex = index;
+		}
+	});
+
+	return { index: nearestIndex, distance: nearestDistance };
+}
+
+/**
+ * Simplify an imported track into editable route points
+ * Keeps start and end, picks shape-defining waypoints with Douglas-Peucker,
+ * and slots named waypoints that lie on the track in as checkpoints
+ * Throws if the checkpoints alone need more than the engine's `maxPoints`
+ */
+export function buildRoutePointsFromTrack(
+	route: ImportedRoute,
+	maxPoints: number,
+): RoutePoint[] {
+	const { track } = route;
+	const lastIndex = track.length - 1;
+
+	// Named waypoints at either end name the start/end rather than adding a checkpoint
+	const endpointNames = new Map<number, string>();
+	const checkpoints = route.waypoints.flatMap((waypoint) => {
+		const nearest = findNearestTrackIndex(track, waypoint);
+		if (nearest.distance > MAX_CHECKPOINT_OFFSET_METERS) return [];
+		if (nearest.index === 0 || nearest.index === lastIndex) {
+			endpointNames.set(nearest.index, waypoint.name);
+			return [];
+		}
+		return [
+			{
+				index: nearest.index,
+				point: {
+					lat: waypoint.lat,
+					lng: waypoint.lng,
+					type: "checkpoint" as const,
+					name: waypoint.name,
+				},
+			},
+		];
+	});
+
+	// Start and end are needed as well as every checkpoint
+	if (checkpoints.length + 2 > maxPoints) {
+		throw new Error(
+			`The file has ${checkpoints.length} checkpoints, but routes can have at most ${maxPoints} points`,
+		);
+	}
+
+	// Increase tolerance until the simplified track leaves room for checkpoints
+	const maxTrackPoints = maxPoints - checkpoints.length;
+	let tolerance = INITIAL_SIMPLIFY_TOLERANCE;
+	let keptIndices = simplifyPath(track, tolerance);
+	while (keptIndices.length > maxTrackPoints) {
+		tolerance *= 2;
+		keptIndices = simplifyPath(track, tolerance);
+	}
+
+	const checkpointIndices = new Set(checkpoints.map(({ index }) => index));
+	const trackPoints = keptIndices
+		.filter(
+			(index) =>
+				index === 0 || index === lastIndex || !checkpointIndices.has(index),
+		)
+		.flatMap((index) => {
+			const trackPoint = track[index];
+			if (!trackPoint) return [];
+
+			const type: RoutePoint["type"] =
+				index === 0 ? "start" : index === lastIndex ? "end" : "waypoint";
+			const point: RoutePoint = {
+				lat: trackPoint.lat,
+				lng: trackPoint.lng,
+				type,
+				name: endpointNames.get(index),
+			};
+			return [{ index, point }];
+		});
+
+	return [...trackPoints, ...checkpoints]
+		.sort((a, b) => a.index - b.index)
+		.map(({ point }) => point);
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { computeSegmentGrades } from "./gradients";
+import type { Instruction, RoutePoint } from "./graphhopper";
+import { getCumulativeDistances } from "./route-export";
+import {
+	getRoutePointsInSection,
+	getSectionStats,
+	sliceInstructions,
+	sliceIntervalDetails,
+} from "./route-sections";
+
+type Coordinate = [number, number, number];
+
+// 21 points about 111.2m apart heading north, up 10m a point then down 5m a point
+const coordinates: Coordinate[] = Array.from({ length: 21 }, (_, index) => [
+	-1,
+	51 + index * 0.001,
+	index <= 10 ? index * 10 : 100 - (index - 10) * 5,
+]);
+
+const instruction = (text: string, from: number, to: number): Instruction => ({
+	distance: 0,
+	time: 0,
+	sign: 0,
+	text,
+	interval: [from, to],
+});
+
+describe("sliceIntervalDetails", () => {
+	it("cuts details to the section and re-indexes them from its start", () => {
+		expect(
+			sliceIntervalDetails(
+				[
+					[0, 5, "asphalt"],
+					[5, 12, "gravel"],
+					[12, 20, "dirt"],
+				],
+				8,
+				12,
+			),
+		).toEqual([[0, 4, "gravel"]]);
+		expect(
+			sliceIntervalDetails(
+				[
+					[0, 5, "asphalt"],
+					[5, 12, "gravel"],
+				],
+				3,
+				8,
+			),
+		).toEqual([
+			[0, 2, "asphalt"],
+			[2, 5, "gravel"],
+		]);
+	});
+});
+
+describe("sliceInstructions", () => {
+	it("keeps the instruction under way at the start and drops the next section's", () => {
+		const sliced = sliceInstructions(
+			[
+				instruction("Head north", 0, 4),
+				instruction("Turn left", 4, 9),
+				instruction("Turn right", 9, 15),
+				instruction("Arrive", 15, 15),
+			],
+			6,
+			9,
+		);
+
+		expect(sliced.map(({ text, interval }) => [text, interval])).toEqual([
+			["Turn left", [0, 3]],
+		]);
+	});
+
+	it("keeps an arrival at the very end", () => {
+		expect(
+			sliceInstructions([instruction("Arrive", 15, 15)], 10, 15).map(
+				({ interval }) => interval,
+			),
+		).toEqual([[5, 5]]);
+	});
+});
+
+describe("getRoutePointsInSection", () => {
+	it("keeps the route points along the section", () => {
+		const point = (index: number, type: RoutePoint["type"]): RoutePoint => ({
+			lat: 51 + index * 0.001,
+			lng: -1,
+			type,
+		});
+		const routePoints = [
+			point(0, "start"),
+			point(5, "checkpoint"),
+			point(12, "waypoint"),
+			point(20, "end"),
+		];
+
+		expect(getRoutePointsInSection(coordinates, routePoints, 5, 12)).toEqual([
+			point(5, "checkpoint"),
+			point(12, "waypoint"),
+		]);
+	});
+});
+
+describe("getSectionStats", () => {
+	const grades = computeSegmentGrades(coordinates);
+	const surface: Array<[number, number, string]> = [
+		[0, 10, "asphalt"],
+		[10, 20, "gravel"],
+	];
+
+	it("sums the climbing and distance of the section", () => {
+		const stats = getSectionStats(coordinates, surface, grades, 5, 15);
+		const distances = getCumulativeDistances(coordinates);
+
+		expect(stats.distance).toBeCloseTo(
+			(distances[15] ?? 0) - (distances[5] ?? 0),
+			0,
+		);
+		expect(stats.elevationGain).toBe(50);
+		expect(stats.elevationLoss).toBe(25);
+		expect(stats.averageGrade).toBeCloseTo((25 / stats.distance) * 100);
+		expect(stats.maxGrade).toBeCloseTo((10 / 111.2) * 100, 0);
+		expect(stats.surfaceMix.map(({ share }) => share)).toEqual([0.5, 0.5]);
+	});
+
+	it("finds the steepest grade on a descent", () => {
+		expect(
+			getSectionStats(coordinates, surface, grades, 12, 20).maxGrade,
+		).toBeCloseTo((-5 / 111.2) * 100, 0);
+	});
+});
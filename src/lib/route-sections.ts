@@ -0,0 +1,116 @@
+import {
+	type Instruction,
+	type RoutePoint,
+	processElevationData,
+} from "./graphhopper";
+import { findNearestCoordinateIndex } from "./route-export";
+import {
+	type SurfaceShare,
+	getSurfaceMix,
+	processSurfaceData,
+} from "./surface-utils";
+
+type Coordinate = [number, number, number]; // [lng, lat, elevation]
+
+/**
+ * Details given as [fromIndex, toIndex, value] cut down to the coordinates
+ * from `start` to `end`, re-indexed so the section starts at 0
+ */
+export const sliceIntervalDetails = <T>(
+	details: Array<[number, number, T]>,
+	start: number,
+	end: number,
+): Array<[number, number, T]> =>
+	details.flatMap(([from, to, value]) => {
+		const sectionFrom = Math.max(from, start);
+		const sectionTo = Math.min(to, end);
+		return sectionFrom < sectionTo
+			? [[sectionFrom - start, sectionTo - start, value] as [number, number, T]]
+			: [];
+	});
+
+/**
+ * Instructions for the coordinates from `start` to `end`, re-indexed so the
+ * section starts at 0. The one already under way at `start` is kept, so the
+ * section opens with the road it's on
+ */
+export const sliceInstructions = (
+	instructions: Instruction[],
+	start: number,
+	end: number,
+): Instruction[] =>
+	instructions.flatMap((instruction) => {
+		const [from, to] = instruction.interval;
+		// One starting right at the end belongs to the next section
+		if (to < start || from > end || (from === end && to > end)) return [];
+
+		const sectionFrom = Math.max(from, start);
+		const sectionTo = Math.min(to, end);
+		return [
+			{
+				...instruction,
+				interval: [sectionFrom - start, sectionTo - start] as [number, number],
+			},
+		];
+	});
+
+/**
+ * Route points between two coordinates of the route, for exporting a section
+ * with its own checkpoints
+ */
+export const getRoutePointsInSection = (
+	coordinates: Coordinate[],
+	routePoints: RoutePoint[],
+	startIndex: number,
+	endIndex: number,
+): RoutePoint[] =>
+	routePoints.filter((point) => {
+		const index = findNearestCoordinateIndex(coordinates, point);
+		return index >= startIndex && index <= endIndex;
+	});
+
+export type SectionStats = {
+	distance: number; // meters
+	elevationGain: number; // meters
+	elevationLoss: number; // meters
+	averageGrade: number; // percent, start to end
+	maxGrade: number; // percent, steepest stretch over the gradient window
+	surfaceMix: SurfaceShare[];
+};
+
+/**
+ * Stats for the coordinates from `start` to `end`, from elevations that are
+ * already smoothed and the route's segment grades
+ */
+export const getSectionStats = (
+	coordinates: Coordinate[],
+	surface: Array<[number, number, string]>,
+	grades: number[],
+	start: number,
+	end: number,
+): SectionStats => {
+	const section = coordinates.slice(start, end + 1);
+	const { chartData, stats } = processElevationData(section, "none");
+	const distance = (chartData.at(-1)?.distance ?? 0) * 1000;
+	const rise = (section.at(-1)?.[2] ?? 0) - (section[0]?.[2] ?? 0);
+	const sectionGrades = grades.slice(start, end);
+
+	return {
+		distance,
+		elevationGain: stats.totalGain,
+		elevationLoss: stats.totalLoss,
+		averageGrade: distance > 0 ? (rise / distance) * 100 : 0,
+		// Reduced rather than spread, as long sections have more grades than
+		// Math.max takes arguments
+		maxGrade: sectionGrades.reduce(
+			(max, grade) => Math.max(max, grade),
+			sectionGrades[0] ?? 0,
+		),
+		surfaceMix: getSurfaceMix(
+			processSurfaceData(
+				sliceIntervalDetails(surface, start, end),
+				distance / 1000,
+			),
+		),
+	};
+};
@@ -1,3 +1,5 @@
+import type { RoutePoint } from "./graphhopper";
+
 /**
  * Utility functions for route data formatting and manipulation
  */
@@ -13,6 +15,27 @@ export const formatElevation = (elevationInMeters: number): string => {
 	return `${Math.round(elevationInMeters)}m`;
 };
 
+export const formatGrade = (gradePercent: number): string => {
+	return `${gradePercent.toFixed(1)}%`;
+};
+
+export const formatDuration = (durationInMs: number): string => {
+	const totalMinutes = Math.round(durationInMs / 60000);
+	const hours = Math.floor(totalMinutes / 60);
+	const minutes = totalMinutes % 60;
+	return hours > 0
+		? `${hours}h ${minutes.toString().padStart(2, "0")}m`
+		: `${minutes}m`;
+};
+
+/**
+ * Signed difference, e.g. "+1.2km" or "-35m"
+ */
+export const formatDelta = (
+	delta: number,
+	format: (value: number) => string,
+): string => `${delta >= 0 ? "+" : "-"}${format(Math.abs(delta))}`;
+
 export const formatDate = (date: Date): string => {
 	return new Intl.DateTimeFormat("en-US", {
 		month: "short",
@@ -20,3 +43,44 @@ export const formatDate = (date: Date): string => {
 		year: "numeric",
 	}).format(date);
 };
+
+// Sort orders offered for saved routes, keyed by the value sent to `getRoutes`
+export const ROUTE_SORT_OPTIONS = {
+	newest: "Newest first",
+	oldest: "Oldest first",
+	title: "Title (A-Z)",
+	longest: "Longest",
+	shortest: "Shortest",
+	climbing: "Most climbing",
+} as const;
+
+export type RouteSort = keyof typeof ROUTE_SORT_OPTIONS;
+
+/**
+ * Normalises free-form tag input: trimmed, lowercase, de-duplicated
+ */
+export const parseTags = (input: string): string[] => [
+	...new Set(
+		input
+			.split(",")
+			.map((tag) => tag.trim().toLowerCase())
+			.filter(Boolean),
+	),
+];
+
+/**
+ * Whether two sets of route points describe the same route input
+ */
+export const isSameRoutePoints = (a: RoutePoint[], b: RoutePoint[]): boolean =>
+	a.length === b.length &&
+	a.every((point, index) => {
+		const other = b[index];
+		return (
+			other !== undefined &&
+			point.lat === other.lat &&
+			point.lng === other.lng &&
+			point.type === other.type &&
+			point.name === other.name &&
+			!!point.direct === !!other.direct
+		);
+	});
@@ -0,0 +1,135 @@
+import { z } from "zod";
+
+export const ROUTING_ERROR_REASONS = [
+	"point_not_found",
+	"point_out_of_bounds",
+	"too_many_points",
+	"no_route",
+	"quota_exceeded",
+	"timeout",
+	"upstream",
+] as const;
+
+export type RoutingErrorReason = (typeof ROUTING_ERROR_REASONS)[number];
+
+// Shape sent to the client alongside the tRPC error
+export const RoutingErrorDataSchema = z.object({
+	reason: z.enum(ROUTING_ERROR_REASONS),
+	/** Index into the request's points of the point that caused the error */
+	pointIndex: z.number().int().optional(),
+	/** Whether the same request may succeed if tried again shortly */
+	retryable: z.boolean(),
+});
+
+export type RoutingErrorData = z.infer<typeof RoutingErrorDataSchema>;
+
+// Failures that usually clear up on their own - a spent quota doesn't within
+// the backoff, and retrying it only spends more requests against the limit
+const RETRYABLE_REASONS: ReadonlySet<RoutingErrorReason> = new Set([
+	"timeout",
+	"upstream",
+]);
+
+/**
+ * A routing engine or geocoder request that failed for a known reason
+ */
+export class RoutingError extends Error {
+	readonly reason: RoutingErrorReason;
+	readonly pointIndex?: number;
+
+	constructor(
+		reason: RoutingErrorReason,
+		message: string,
+		options?: { pointIndex?: number; cause?: unknown },
+	) {
+		super(message, { cause: options?.cause });
+		this.name = "RoutingError";
+		this.reason = reason;
+		this.pointIndex = options?.pointIndex;
+	}
+
+	get retryable() {
+		return RETRYABLE_REASONS.has(this.reason);
+	}
+
+	toData(): RoutingErrorData {
+		return {
+			reason: this.reason,
+			pointIndex: this.pointIndex,
+			retryable: this.retryable,
+		};
+	}
+}
+
+/**
+ * The same error with its point index shifted, for a request that routed
+ * only part of the points starting at `offset`
+ */
+export const offsetRoutingError = (error: unknown, offset: number): unknown =>
+	error instanceof RoutingError && error.pointIndex !== undefined
+		? new RoutingError(error.reason, error.message, {
+				pointIndex: error.pointIndex + offset,
+				cause: error.cause,
+			})
+		: error;
+
+// Engines answer even long routes in a few seconds - anything slower is treated as a timeout
+const UPSTREAM_TIMEOUT = 20_000; // ms
+
+/**
+ * Fetches an upstream API, turning timeouts and network failures into routing errors
+ */
+export async function fetchUpstream(
+	label: string,
+	url: string,
+	init?: RequestInit,
+): Promise<Response> {
+	try {
+		return await fetch(url, {
+			...init,
+			signal: AbortSignal.timeout(UPSTREAM_TIMEOUT),
+		});
+	} catch (error) {
+		if (error instanceof DOMException && error.name === "TimeoutError") {
+			throw new RoutingError("timeout", `${label} API timed out`, {
+				cause: error,
+			});
+		}
+		throw new RoutingError("upstream", `${label} API is unreachable`, {
+			cause: error,
+		});
+	}
+}
+
+/**
+ * Reason for a failed upstream response that has nothing more specific to go on
+ */
+export const getReasonForStatus = (status: number): RoutingErrorReason => {
+	if (status === 429) return "quota_exceeded";
+	if (status === 401 || status === 403) return "upstream"; // Misconfigured key, not the route
+	if (status === 408 || status === 504) return "timeout";
+	if (status >= 500) return "upstream";
+	return "no_route";
+};
+
+// Retries for retryable errors, backing off exponentially up to 8s
+export const MAX_ROUTING_RETRIES = 3;
+
+export const getRoutingRetryDelay = (attempt: number) =>
+	Math.min(1000 * 2 ** attempt, 8000);
+
+// Suggestion shown next to the point an error is about
+export const ROUTING_ERROR_SUGGESTIONS: Record<RoutingErrorReason, string> = {
+	point_not_found:
+		"No road or path near this point. Drag it closer to one, or make the leg to it a straight line.",
+	point_out_of_bounds:
+		"This point is outside the area the routing engine covers. Move it within the map data.",
+	too_many_points:
+		"This route has more points than the routing engine accepts. Remove some waypoints.",
+	no_route:
+		"No route connects this point. Try moving it, or change the avoid areas or activity.",
+	quota_exceeded:
+		"The routing service has reached its usage limit. Try again later.",
+	timeout: "The routing service took too long. Try again in a moment.",
+	upstream: "The routing service had a problem. Try again in a moment.",
+};
@@ -0,0 +1,140 @@
+import { z } from "zod";
+
+// Surface sliders run from 0 (avoid) to 100 (prefer); 50 is neutral
+export const RoutingPreferencesSchema = z.object({
+	paved: z.number().int().min(0).max(100),
+	gravel: z.number().int().min(0).max(100),
+	dirt: z.number().int().min(0).max(100),
+	avoidMainRoads: z.number().int().min(0).max(100), // 0 = don't mind, 100 = avoid strongly
+	avoidSteps: z.boolean(),
+	avoidBridleways: z.boolean(),
+});
+
+export type RoutingPreferences = z.infer<typeof RoutingPreferencesSchema>;
+
+export const DEFAULT_ROUTING_PREFERENCES: RoutingPreferences = {
+	paved: 50,
+	gravel: 50,
+	dirt: 50,
+	avoidMainRoads: 0,
+	avoidSteps: false,
+	avoidBridleways: false,
+};
+
+// Presets offered to everyone, ahead of the user's own saved presets
+export const BUILT_IN_ROUTING_PRESETS: Array<{
+	name: string;
+	preferences: RoutingPreferences;
+}> = [
+	{ name: "Balanced", preferences: DEFAULT_ROUTING_PREFERENCES },
+	{
+		name: "Tarmac",
+		preferences: {
+			paved: 100,
+			gravel: 20,
+			dirt: 0,
+			avoidMainRoads: 50,
+			avoidSteps: true,
+			avoidBridleways: true,
+		},
+	},
+	{
+		name: "Gravel",
+		preferences: {
+			paved: 40,
+			gravel: 100,
+			dirt: 60,
+			avoidMainRoads: 80,
+			avoidSteps: true,
+			avoidBridleways: false,
+		},
+	},
+	{
+		name: "Trail",
+		preferences: {
+			paved: 20,
+			gravel: 60,
+			dirt: 100,
+			avoidMainRoads: 100,
+			avoidSteps: false,
+			avoidBridleways: false,
+		},
+	},
+];
+
+// Order of the values in the compact URL form
+const PREFERENCE_KEYS = [
+	"paved",
+	"gravel",
+	"dirt",
+	"avoidMainRoads",
+	"avoidSteps",
+	"avoidBridleways",
+] as const satisfies ReadonlyArray<keyof RoutingPreferences>;
+
+export const isSamePreferences = (
+	a: RoutingPreferences,
+	b: RoutingPreferences,
+): boolean => PREFERENCE_KEYS.every((key) => a[key] === b[key]);
+
+export const isDefaultPreferences = (preferences: RoutingPreferences) =>
+	isSamePreferences(preferences, DEFAULT_ROUTING_PREFERENCES);
+
+/**
+ * Encodes preferences for the URL, e.g. "100.20.0.50.1.1"
+ */
+export const encodePreferencesForUrl = (
+	preferences: RoutingPreferences,
+): string => PREFERENCE_KEYS.map((key) => Number(preferences[key])).join(".");
+
+/**
+ * Decodes preferences from the URL, returning null for anything malformed
+ */
+export const decodePreferencesFromUrl = (
+	encoded: string,
+): RoutingPreferences | null => {
+	const values = encoded.split(".").map(Number);
+	if (values.length !== PREFERENCE_KEYS.length) return null;
+
+	const [paved, gravel, dirt, avoidMainRoads, avoidSteps, avoidBridleways] =
+		values;
+	const result = RoutingPreferencesSchema.safeParse({
+		paved,
+		gravel,
+		dirt,
+		avoidMainRoads,
+		avoidSteps: avoidSteps === 1,
+		avoidBridleways: avoidBridleways === 1,
+	});
+	return result.success ? result.data : null;
+};
+
+/**
+ * Preferences saved with a route, falling back to the defaults for older routes
+ */
+export const parseStoredPreferences = (value: unknown): RoutingPreferences => {
+	const result = RoutingPreferencesSchema.safeParse(value);
+	return result.success ? result.data : DEFAULT_ROUTING_PREFERENCES;
+};
+
+/**
+ * Relative weight (0-1) of each surface group, scaled so the most preferred is 1
+ */
+export const getSurfaceWeights = (
+	preferences: RoutingPreferences,
+): { paved: number; gravel: number; dirt: number } => {
+	const highest = Math.max(
+		preferences.paved,
+		preferences.gravel,
+		preferences.dirt,
+	);
+	// Never rule a surface out entirely, or routes may fail to connect
+	const weight = (value: number) =>
+		highest === 0 ? 1 : Math.max(value / highest, 0.05);
+
+	return {
+		paved: weight(preferences.paved),
+		gravel: weight(preferences.gravel),
+		dirt: weight(preferences.dirt),
+	};
+};
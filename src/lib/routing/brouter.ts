@@ -0,0 +1,151 @@
+import { z } from "zod";
+import { env } from "~/env";
+import type { ActivityProfileId } from "~/lib/activity-profiles";
+import { toLngLatRing } from "~/lib/avoid-areas";
+import { RoutingError } from "~/lib/routing-errors";
+import type { RoutingProvider } from "./types";
+import { buildRoutePath, callRoutingAPI, mergeSurfaceDetails } from "./utils";
+
+// BRouter profile for each activity (stock profiles shipped with BRouter,
+// which has no dedicated mountain bike or running profile)
+const BROUTER_PROFILES: Record<ActivityProfileId, string> = {
+	road: "fastbike",
+	gravel: "trekking",
+	mtb: "trekking",
+	ebike: "trekking",
+	running: "hiking-mountain",
+	walking: "hiking-mountain",
+};
+
+const BRouterResponseSchema = z.object({
+	features: z
+		.array(
+			z.object({
+				properties: z.object({
+					"track-length": z.coerce.number(),
+					"total-time": z.coerce.number().default(0),
+					cost: z.coerce.number().optional(),
+					messages: z.array(z.array(z.string())).default([]),
+				}),
+				geometry: z.object({
+					coordinates: z.array(z.array(z.number()).min(2)),
+				}),
+			}),
+		)
+		.min(1),
+});
+
+type Coordinate = [number, number, number];
+
+/**
+ * Extracts surface spans from BRouter's `messages` table. Each message row
+ * marks the end of a stretch of way (lon/lat in micro-degrees) with its tags
+ */
+function parseSurfaceMessages(
+	messages: string[][],
+	coordinates: Coordinate[],
+): Array<[number, number, string]> {
+	const [header, ...rows] = messages;
+	if (!header) return [];
+
+	const lngColumn = header.indexOf("Longitude");
+	const latColumn = header.indexOf("Latitude");
+	const tagsColumn = header.indexOf("WayTags");
+	if (lngColumn < 0 || latColumn < 0 || tagsColumn < 0) return [];
+
+	const spans: Array<[number, number, string]> = [];
+	let fromIndex = 0;
+
+	for (const row of rows) {
+		const lng = Number(row[lngColumn]) / 1e6;
+		const lat = Number(row[latColumn]) / 1e6;
+
+		// Find the coordinate this message refers to, searching forwards
+		const toIndex = coordinates.findIndex(
+			([cLng, cLat], index) =>
+				index > fromIndex &&
+				Math.abs(cLng - lng) < 1e-6 &&
+				Math.abs(cLat - lat) < 1e-6,
+		);
+		if (toIndex < 0) continue;
+
+		const surface =
+			/(?:^|\s)surface=(\S+)/.exec(row[tagsColumn] ?? "")?.[1] ?? "missing";
+		spans.push([fromIndex, toIndex, surface]);
+		fromIndex = toIndex;
+	}
+
+	return mergeSurfaceDetails(spans);
+}
+
+/**
+ * Reads BRouter's plain-text errors, which name the unmapped point by its role:
+ * "from-position", "via<n>-position" or "to-position not mapped in existing datafile"
+ */
+function parseBRouterError(
+	body: string,
+	pointCount: number,
+): RoutingError | undefined {
+	const unmapped = /(from|via(\d+)|to)-position not mapped/.exec(body);
+	if (unmapped) {
+		const [, role, viaIndex] = unmapped;
+		const pointIndex =
+			role === "from" ? 0 : role === "to" ? pointCount - 1 : Number(viaIndex);
+		return new RoutingError("point_not_found", body.trim(), { pointIndex });
+	}
+	// The point lies in a tile the server has no data for
+	if (/datafile .* not found/.test(body)) {
+		return new RoutingError("point_out_of_bounds", body.trim());
+	}
+	return undefined;
+}
+
+/**
+ * BRouter adapter. BRouter's GeoJSON already carries elevation, and its
+ * per-way tags give us OSM surface values directly
+ */
+export const brouterProvider: RoutingProvider = {
+	name: "brouter",
+	calculateRoute: async ({ points, profile, avoidAreas }) => {
+		if (!env.BROUTER_API_ROOT) {
+			throw new Error(
+				'BROUTER_API_ROOT must be set to use the "brouter" provider',
+			);
+		}
+
+		const lonlats = points.map((p) => `${p.lng},${p.lat}`).join("|");
+		// Avoid areas become no-go polygons: "lon,lat,lon,lat,...|..."
+		const polygons = avoidAreas
+			.map((area) => toLngLatRing(area).flat().join(","))
+			.join("|");
+		const polygonsParam = polygons ? `&polygons=${polygons}` : "";
+		const url = `${env.BROUTER_API_ROOT}/brouter?lonlats=${lonlats}&profile=${BROUTER_PROFILES[profile]}${polygonsParam}&alternativeidx=0&format=geojson`;
+
+		const started = Date.now();
+		const data = BRouterResponseSchema.parse(
+			await callRoutingAPI("BRouter", url, undefined, (body) =>
+				parseBRouterError(body, points.length),
+			),
+		);
+
+		return {
+			info: {
+				copyrights: ["BRouter", "OpenStreetMap contributors"],
+				took: Date.now() - started,
+			},
+			paths: data.features.map(({ properties, geometry }) => {
+				const coordinates = geometry.coordinates.map(
+					([lng = 0, lat = 0, ele = 0]) => [lng, lat, ele] as Coordinate,
+				);
+
+				return buildRoutePath({
+					coordinates,
+					distance: properties["track-length"],
+					time: properties["total-time"] * 1000,
+					weight: properties.cost,
+					surface: parseSurfaceMessages(properties.messages, coordinates),
+				});
+			}),
+		};
+	},
+};
@@ -0,0 +1,255 @@
+import { calculateDistance } from "~/lib/geo-utils";
+import type { LatLngPoint } from "~/lib/geometry";
+import type { Instruction, RoutePoint } from "~/lib/graphhopper";
+import { estimateMovingTime } from "~/lib/moving-time";
+import { RoutingError, offsetRoutingError } from "~/lib/routing-errors";
+import { TERRAIN_ATTRIBUTION, fetchTerrainElevations } from "./terrain";
+import type {
+	CalculateRouteInput,
+	RoutePath,
+	RouteResponse,
+	RoutingProvider,
+} from "./types";
+import { buildRoutePath, mergeSurfaceDetails } from "./utils";
+
+type Coordinate = [number, number, number]; // [lng, lat, elevation]
+
+// Elevation is sampled along straight legs at this spacing, within the terrain model's resolution
+const DIRECT_LEG_SAMPLE_SPACING = 50; // meters
+const MAX_DIRECT_LEG_SAMPLES = 200;
+
+// Surface value of straight legs, so they show apart from the routed network
+export const DIRECT_LEG_SURFACE = "direct";
+
+// A run of points routed by the engine, or a single straight leg
+// `startIndex` is the run's first point in the full route, for error reporting
+type Section =
+	| { direct: false; points: RoutePoint[]; startIndex: number }
+	| { direct: true; from: RoutePoint; to: RoutePoint };
+
+/**
+ * Whether any leg of a route is drawn as a straight line
+ */
+export const hasDirectLegs = (points: RoutePoint[]): boolean =>
+	points.slice(1).some((point) => point.direct);
+
+/**
+ * Splits route points into routed runs and straight legs, in order
+ * A point's `direct` flag applies to the leg arriving at it
+ */
+function splitIntoSections(points: RoutePoint[]): Section[] {
+	const sections: Section[] = [];
+
+	for (let i = 1; i < points.length; i++) {
+		const from = points[i - 1];
+		const to = points[i];
+		if (!from || !to) continue;
+
+		const previous = sections.at(-1);
+		if (to.direct) {
+			sections.push({ direct: true, from, to });
+		} else if (previous && !previous.direct) {
+			previous.points.push(to);
+		} else {
+			sections.push({ direct: false, points: [from, to], startIndex: i - 1 });
+		}
+	}
+
+	return sections;
+}
+
+const toLatLng = ([lng, lat]: Coordinate): LatLngPoint => ({ lat, lng });
+
+/**
+ * Builds a straight leg between two points, sampled evenly so the terrain
+ * model fills in its elevation profile
+ */
+async function buildDirectLeg(
+	from: LatLngPoint,
+	to: LatLngPoint,
+	input: CalculateRouteInput,
+): Promise<RoutePath> {
+	const distance = calculateDistance({ from, to, unit: "m" });
+	const steps = Math.min(
+		MAX_DIRECT_LEG_SAMPLES,
+		Math.max(1, Math.ceil(distance / DIRECT_LEG_SAMPLE_SPACING)),
+	);
+	const samples = Array.from({ length: steps + 1 }, (_, index) => ({
+		lat: from.lat + ((to.lat - from.lat) * index) / steps,
+		lng: from.lng + ((to.lng - from.lng) * index) / steps,
+	}));
+	const elevations = input.elevation
+		? await fetchTerrainElevations(samples)
+		: [];
+
+	const coordinates = samples.map(
+		({ lat, lng }, index): Coordinate => [lng, lat, elevations[index] ?? 0],
+	);
+	const lastIndex = coordinates.length - 1;
+	const path = buildRoutePath({
+		coordinates,
+		distance,
+		time: 0,
+		surface: [[0, lastIndex, DIRECT_LEG_SURFACE]],
+		snappedWaypoints: [coordinates[0], coordinates[lastIndex]].filter(
+			(coordinate) => coordinate !== undefined,
+		),
+	});
+	const time = estimateMovingTime(
+		coordinates,
+		path.details.surface,
+		input.profile,
+	);
+
+	return {
+		...path,
+		time,
+		instructions: [
+			{
+				distance,
+				time,
+				sign: 0,
+				text: "Continue in a straight line",
+				interval: [0, lastIndex],
+			},
+			{
+				distance: 0,
+				time: 0,
+				sign: 4,
+				text: "Arrive at destination",
+				interval: [lastIndex, lastIndex],
+			},
+		],
+	};
+}
+
+/**
+ * Joins consecutive section paths into one, re-indexing surface details and
+ * instructions into the joined geometry. Each section starts where the
+ * previous one ended, so that shared coordinate is only kept once
+ */
+function joinSections(paths: RoutePath[]): RoutePath {
+	const coordinates: Coordinate[] = [];
+	const surface: Array<[number, number, string]> = [];
+	const instructions: Instruction[] = [];
+	const snappedWaypoints: Coordinate[] = [];
+	let distance = 0;
+	let time = 0;
+	let weight = 0;
+
+	paths.forEach((path, pathIndex) => {
+		const isFirst = pathIndex === 0;
+		const isLast = pathIndex === paths.length - 1;
+		const offset = isFirst ? 0 : coordinates.length - 1;
+
+		coordinates.push(...path.points.coordinates.slice(isFirst ? 0 : 1));
+		snappedWaypoints.push(
+			...(path.snapped_waypoints?.coordinates ?? []).slice(isFirst ? 0 : 1),
+		);
+		surface.push(
+			...path.details.surface.map(
+				([from, to, value]): [number, number, string] => [
+					offset + from,
+					offset + to,
+					value,
+				],
+			),
+		);
+		instructions.push(
+			...(path.instructions ?? []).map((instruction) => ({
+				...instruction,
+				// Arriving at the end of an inner section is reaching a via point
+				sign: instruction.sign === 4 && !isLast ? 5 : instruction.sign,
+				interval: [
+					offset + instruction.interval[0],
+					offset + instruction.interval[1],
+				] as [number, number],
+			})),
+		);
+
+		distance += path.distance;
+		time += path.time;
+		weight += path.weight;
+	});
+
+	return buildRoutePath({
+		coordinates,
+		distance,
+		time,
+		weight,
+		surface: mergeSurfaceDetails(surface),
+		instructions,
+		// Some engines don't report snapped waypoints, and a partial list would be misleading
+		snappedWaypoints: paths.every((path) => path.snapped_waypoints)
+			? snappedWaypoints
+			: undefined,
+	});
+}
+
+/**
+ * Calculates a route where some legs are straight lines across open ground
+ * Runs between straight legs are routed by the engine as usual; straight legs
+ * join their snapped ends and take their elevation from the terrain model.
+ * Alternatives aren't offered, as they'd only cover part of the route
+ */
+export async function calculateRouteWithDirectLegs(
+	provider: RoutingProvider,
+	input: CalculateRouteInput,
+): Promise<RouteResponse> {
+	const started = Date.now();
+	const sections = splitIntoSections(input.points);
+
+	const routed = await Promise.all(
+		sections.map((section) =>
+			section.direct
+				? null
+				: provider
+						.calculateRoute({
+							...input,
+							points: section.points,
+							alternatives: false,
+						})
+						.catch((error: unknown) => {
+							throw offsetRoutingError(error, section.startIndex);
+						}),
+		),
+	);
+
+	// Straight legs start and finish where the neighbouring routed runs were snapped
+	const paths = await Promise.all(
+		sections.map((section, index) => {
+			const path = routed[index]?.paths[0];
+			if (!section.direct) {
+				if (!path) {
+					throw new RoutingError("no_route", "No route found between points", {
+						pointIndex: section.startIndex,
+					});
+				}
+				return path;
+			}
+
+			const previous = routed[index - 1]?.paths[0]?.points.coordinates.at(-1);
+			const next = routed[index + 1]?.paths[0]?.points.coordinates[0];
+			return buildDirectLeg(
+				previous ? toLatLng(previous) : section.from,
+				next ? toLatLng(next) : section.to,
+				input,
+			);
+		}),
+	);
+
+	const copyrights = new Set(
+		routed.flatMap((response) => response?.info.copyrights ?? []),
+	);
+	if (input.elevation) copyrights.add(TERRAIN_ATTRIBUTION);
+
+	return {
+		info: {
+			copyrights: [...copyrights],
+			took: Date.now() - started,
+			road_data_timestamp: routed.find((response) => response)?.info
+				.road_data_timestamp,
+		},
+		paths: [joinSections(paths)],
+	};
+}
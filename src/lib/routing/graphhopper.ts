@@ -0,0 +1,159 @@
+import { z } from "zod";
+import {
+	MatrixResponseSchema,
+	RouteResponseSchema,
+	buildCustomRouteBody,
+	buildCustomRouteUrl,
+	buildMatrixBody,
+	buildMatrixUrl,
+	buildRoundTripUrl,
+	buildRouteUrl,
+} from "~/lib/graphhopper";
+import {
+	RoutingError,
+	fetchUpstream,
+	getReasonForStatus,
+} from "~/lib/routing-errors";
+import { recordGraphHopperUsage } from "~/server/usage-metrics";
+import type { RoutingProvider } from "./types";
+
+const GraphHopperErrorSchema = z.object({
+	message: z.string(),
+	hints: z
+		.array(
+			z.object({
+				details: z.string().optional(),
+				point_index: z.number().optional(),
+			}),
+		)
+		.optional(),
+});
+
+/**
+ * Turns a failed GraphHopper response into a routing error, reading the
+ * exception type and offending point from its hints where it gives them
+ */
+function parseGraphHopperError(status: number, body: unknown): RoutingError {
+	const parsed = GraphHopperErrorSchema.safeParse(body);
+	const message = parsed.success
+		? parsed.data.message
+		: `GraphHopper API error: ${status}`;
+	const hint = parsed.success ? parsed.data.hints?.[0] : undefined;
+	// Older responses only name the point in the message, e.g. "Cannot find point 2: ..."
+	const pointIndex =
+		hint?.point_index ??
+		Number(/point (\d+)/i.exec(message)?.[1] ?? Number.NaN);
+	const options = Number.isNaN(pointIndex) ? {} : { pointIndex };
+
+	if (hint?.details?.includes("PointNotFoundException")) {
+		return new RoutingError("point_not_found", message, options);
+	}
+	if (hint?.details?.includes("PointOutOfBoundsException")) {
+		return new RoutingError("point_out_of_bounds", message, options);
+	}
+	if (hint?.details?.includes("ConnectionNotFoundException")) {
+		return new RoutingError("no_route", message, options);
+	}
+	if (/too many points/i.test(message)) {
+		return new RoutingError("too_many_points", message);
+	}
+	return new RoutingError(getReasonForStatus(status), message);
+}
+
+// Calls the GraphHopper API, recording the credits it reports for the usage metrics
+// Requests with a body are POSTed as JSON (custom models can't go in a GET URL)
+export async function callGraphHopperAPI(url: string, body?: unknown) {
+	const response = await fetchUpstream(
+		"GraphHopper",
+		url,
+		body === undefined
+			? undefined
+			: {
+					method: "POST",
+					headers: { "Content-Type": "application/json" },
+					body: JSON.stringify(body),
+				},
+	);
+
+	recordGraphHopperUsage(response.headers);
+
+	if (!response.ok) {
+		throw parseGraphHopperError(
+			response.status,
+			await response.json().catch(() => null),
+		);
+	}
+
+	return response.json();
+}
+
+const parseRouteResponse = (data: unknown) => {
+	try {
+		return RouteResponseSchema.parse(data);
+	} catch (error) {
+		console.error("Schema validation error:", error);
+		console.error("Raw API data:", data);
+		throw error;
+	}
+};
+
+/**
+ * GraphHopper is the reference engine - its responses already match
+ * `RouteResponseSchema`, so this adapter only builds the URL and validates
+ */
+export const graphHopperProvider: RoutingProvider = {
+	name: "graphhopper",
+	calculateRoute: async ({
+		points,
+		elevation,
+		profile,
+		alternatives,
+		preferences,
+		avoidAreas,
+	}) => {
+		// Preferences and avoid areas need a custom model, which is only accepted as a POST body
+		const data =
+			preferences || avoidAreas.length > 0
+				? await callGraphHopperAPI(
+						buildCustomRouteUrl(),
+						buildCustomRouteBody(points, {
+							elevation,
+							profile,
+							preferences,
+							avoidAreas,
+							alternatives,
+						}),
+					)
+				: await callGraphHopperAPI(
+						buildRouteUrl(points, elevation, profile, alternatives),
+					);
+		return parseRouteResponse(data);
+	},
+	calculateRoundTrip: async ({
+		start,
+		preferences,
+		avoidAreas,
+		...options
+	}) => {
+		const data =
+			preferences || avoidAreas.length > 0
+				? await callGraphHopperAPI(
+						buildCustomRouteUrl(),
+						buildCustomRouteBody([start], {
+							...options,
+							preferences,
+							avoidAreas,
+							roundTrip: options,
+						}),
+					)
+				: await callGraphHopperAPI(buildRoundTripUrl(start, options));
+		return parseRouteResponse(data);
+	},
+	calculateMatrix: async ({ points, profile }) => {
+		const data = await callGraphHopperAPI(
+			buildMatrixUrl(),
+			buildMatrixBody(points, profile),
+		);
+		return MatrixResponseSchema.parse(data).distances;
+	},
+};
@@ -0,0 +1,32 @@
+import { env } from "~/env";
+import { brouterProvider } from "./brouter";
+import { graphHopperProvider } from "./graphhopper";
+import { osrmProvider } from "./osrm";
+import type { RoutingProvider, RoutingProviderName } from "./types";
+import { valhallaProvider } from "./valhalla";
+
+export type {
+	CalculateRouteInput,
+	DistanceMatrix,
+	DistanceMatrixInput,
+	RouteResponse,
+	RoutePath,
+	RoundTripInput,
+	RoutingProvider,
+	RoutingProviderName,
+} from "./types";
+
+const ROUTING_PROVIDER_REGISTRY: Record<RoutingProviderName, RoutingProvider> =
+	{
+		graphhopper: graphHopperProvider,
+		osrm: osrmProvider,
+		valhalla: valhallaProvider,
+		brouter: brouterProvider,
+	};
+
+/**
+ * Returns the routing provider selected by the `ROUTING_PROVIDER` env var
+ */
+export function getRoutingProvider(): RoutingProvider {
+	return ROUTING_PROVIDER_REGISTRY[env.ROUTING_PROVIDER];
+}
@@ -0,0 +1,137 @@
+import { z } from "zod";
+import { env } from "~/env";
+import type { ActivityProfileId } from "~/lib/activity-profiles";
+import { RoutingError } from "~/lib/routing-errors";
+import type { RoutingProvider } from "./types";
+import { buildRoutePath, callRoutingAPI, parseJsonBody } from "./utils";
+
+// OSRM profile names for each activity (as named by the stock Lua profiles)
+const OSRM_PROFILES: Record<ActivityProfileId, string> = {
+	road: "bike",
+	gravel: "bike",
+	mtb: "bike",
+	ebike: "bike",
+	running: "foot",
+	walking: "foot",
+};
+
+const OsrmRouteResponseSchema = z.object({
+	code: z.string(),
+	message: z.string().optional(),
+	routes: z
+		.array(
+			z.object({
+				distance: z.number(),
+				duration: z.number(),
+				weight: z.number().optional(),
+				geometry: z.object({
+					coordinates: z.array(z.tuple([z.number(), z.number()])),
+				}),
+			}),
+		)
+		.default([]),
+	waypoints: z
+		.array(z.object({ location: z.tuple([z.number(), z.number()]) }))
+		.default([]),
+});
+
+const OsrmTableResponseSchema = z.object({
+	code: z.string(),
+	distances: z.array(z.array(z.number().nullable())),
+});
+
+const OsrmErrorSchema = z.object({
+	code: z.string(),
+	message: z.string().optional(),
+});
+
+/**
+ * Reads OSRM's error code, e.g. `NoSegment` "Could not find a matching segment for coordinate 2"
+ */
+function parseOsrmError(body: string): RoutingError | undefined {
+	const parsed = OsrmErrorSchema.safeParse(parseJsonBody(body));
+	if (!parsed.success) return undefined;
+
+	const { code, message = code } = parsed.data;
+	const pointIndex = /coordinate (\d+)/.exec(message)?.[1];
+	if (code === "NoSegment") {
+		return new RoutingError("point_not_found", message, {
+			pointIndex: pointIndex === undefined ? undefined : Number(pointIndex),
+		});
+	}
+	if (code === "TooBig") return new RoutingError("too_many_points", message);
+	if (code === "NoRoute") return new RoutingError("no_route", message);
+	return undefined;
+}
+
+/**
+ * OSRM adapter. OSRM returns neither elevation nor surface information,
+ * so elevations are reported as 0 and the whole route as a "missing" surface
+ */
+export const osrmProvider: RoutingProvider = {
+	name: "osrm",
+	calculateRoute: async ({ points, profile, alternatives, avoidAreas }) => {
+		if (!env.OSRM_API_ROOT) {
+			throw new Error('OSRM_API_ROOT must be set to use the "osrm" provider');
+		}
+
+		// OSRM's graph is fixed at build time, so there's no way to exclude an area
+		if (avoidAreas.length > 0) {
+			throw new Error(
+				'The "osrm" provider cannot avoid areas - remove them or use another engine',
+			);
+		}
+
+		const coordinates = points.map((p) => `${p.lng},${p.lat}`).join(";");
+		const url = `${env.OSRM_API_ROOT}/route/v1/${OSRM_PROFILES[profile]}/${coordinates}?overview=full&geometries=geojson&steps=false&alternatives=${alternatives && points.length === 2}`;
+
+		const started = Date.now();
+		const data = OsrmRouteResponseSchema.parse(
+			await callRoutingAPI("OSRM", url, undefined, parseOsrmError),
+		);
+
+		if (data.code !== "Ok") {
+			throw new RoutingError(
+				"no_route",
+				`OSRM API error: ${data.code} ${data.message ?? ""}`,
+			);
+		}
+
+		return {
+			info: {
+				copyrights: ["OSRM", "OpenStreetMap contributors"],
+				took: Date.now() - started,
+			},
+			paths: data.routes.map((route) =>
+				buildRoutePath({
+					coordinates: route.geometry.coordinates.map(
+						([lng, lat]) => [lng, lat, 0] as [number, number, number],
+					),
+					distance: route.distance,
+					time: route.duration * 1000,
+					weight: route.weight,
+					snappedWaypoints: data.waypoints.map(
+						({ location: [lng, lat] }) =>
+							[lng, lat, 0] as [number, number, number],
+					),
+				}),
+			),
+		};
+	},
+	calculateMatrix: async ({ points, profile }) => {
+		if (!env.OSRM_API_ROOT) {
+			throw new Error('OSRM_API_ROOT must be set to use the "osrm" provider');
+		}
+
+		const coordinates = points.map((p) => `${p.lng},${p.lat}`).join(";");
+		const data = OsrmTableResponseSchema.parse(
+			await callRoutingAPI(
+				"OSRM",
+				`${env.OSRM_API_ROOT}/table/v1/${OSRM_PROFILES[profile]}/${coordinates}?annotations=distance`,
+				undefined,
+				parseOsrmError,
+			),
+		);
+		return data.distances;
+	},
+};
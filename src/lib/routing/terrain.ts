@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { env } from "~/env";
+import type { LatLngPoint } from "~/lib/geometry";
+import { callRoutingAPI } from "./utils";
+
+// Open-Meteo answers up to 100 coordinates per request
+const MAX_COORDINATES_PER_REQUEST = 100;
+
+export const TERRAIN_ATTRIBUTION = "Open-Meteo";
+
+const ElevationResponseSchema = z.object({
+	elevation: z.array(z.number()),
+});
+
+/**
+ * Looks up terrain elevations (meters) from the digital elevation model,
+ * for points that no routing engine has elevation data for
+ */
+export async function fetchTerrainElevations(
+	points: LatLngPoint[],
+): Promise<number[]> {
+	const batches: LatLngPoint[][] = [];
+	for (let i = 0; i < points.length; i += MAX_COORDINATES_PER_REQUEST) {
+		batches.push(points.slice(i, i + MAX_COORDINATES_PER_REQUEST));
+	}
+
+	const results = await Promise.all(
+		batches.map(async (batch) => {
+			const params = new URLSearchParams({
+				latitude: batch.map(({ lat }) => lat.toFixed(6)).join(","),
+				longitude: batch.map(({ lng }) => lng.toFixed(6)).join(","),
+			});
+			const data = ElevationResponseSchema.parse(
+				await callRoutingAPI(
+					"Terrain elevation",
+					`${env.ELEVATION_API_ROOT}/v1/elevation?${params.toString()}`,
+				),
+			);
+			return data.elevation;
+		}),
+	);
+
+	return results.flat();
+}
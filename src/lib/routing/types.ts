@@ -0,0 +1,51 @@
+import type { z } from "zod";
+import type { ActivityProfileId } from "~/lib/activity-profiles";
+import type { LatLngPoint } from "~/lib/geometry";
+import type {
+	CalculateRouteSchema,
+	GenerateLoopSchema,
+	RoutePathSchema,
+	RouteResponseSchema,
+} from "~/lib/graphhopper";
+
+export const ROUTING_PROVIDERS = [
+	"graphhopper",
+	"osrm",
+	"valhalla",
+	"brouter",
+] as const;
+
+export type RoutingProviderName = (typeof ROUTING_PROVIDERS)[number];
+
+export type CalculateRouteInput = z.infer<typeof CalculateRouteSchema>;
+export type RouteResponse = z.infer<typeof RouteResponseSchema>;
+export type RoutePath = z.infer<typeof RoutePathSchema>;
+
+export type RoundTripInput = Omit<
+	z.infer<typeof GenerateLoopSchema>,
+	"candidates"
+> & {
+	/** Varies the loop between calls with the same start and distance */
+	seed: number;
+};
+
+export type DistanceMatrixInput = {
+	points: LatLngPoint[];
+	profile: ActivityProfileId;
+};
+
+/** Network distances in meters from each point to every other, null where unreachable */
+export type DistanceMatrix = Array<Array<number | null>>;
+
+/**
+ * A routing engine adapter. Every provider normalises its upstream response
+ * into the GraphHopper-shaped `RouteResponseSchema` the client already consumes.
+ */
+export type RoutingProvider = {
+	name: RoutingProviderName;
+	calculateRoute: (input: CalculateRouteInput) => Promise<RouteResponse>;
+	/** Native round-trip routing; engines without it get generated waypoints */
+	calculateRoundTrip?: (input: RoundTripInput) => Promise<RouteResponse>;
+	/** Distance matrix between points; engines without one fall back to straight lines */
+	calculateMatrix?: (input: DistanceMatrixInput) => Promise<DistanceMatrix>;
+};
@@ -0,0 +1,202 @@
+import type { Instruction } from "~/lib/graphhopper";
+import {
+	RoutingError,
+	fetchUpstream,
+	getReasonForStatus,
+} from "~/lib/routing-errors";
+import type { RoutePath } from "./types";
+
+type Coordinate = [number, number, number]; // [lng, lat, elevation]
+
+/**
+ * Fetches a routing engine endpoint and returns the parsed JSON body
+ * `parseError` reads an engine's error body for a more specific reason than the status gives
+ */
+export async function callRoutingAPI(
+	providerLabel: string,
+	url: string,
+	init?: RequestInit,
+	parseError?: (body: string) => RoutingError | undefined,
+): Promise<unknown> {
+	const response = await fetchUpstream(providerLabel, url, init);
+
+	if (!response.ok) {
+		const body = await response.text().catch(() => "");
+		throw (
+			parseError?.(body) ??
+			new RoutingError(
+				getReasonForStatus(response.status),
+				`${providerLabel} API error: ${response.status} ${response.statusText}`,
+			)
+		);
+	}
+
+	return response.json();
+}
+
+/**
+ * Parses an error body as JSON, or null when it isn't
+ */
+export function parseJsonBody(body: string): unknown {
+	try {
+		return JSON.parse(body);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Decodes a Google-style encoded polyline into [lat, lng] pairs
+ * Valhalla uses a precision of 6, OSRM and Google use 5
+ */
+export function decodePolyline(
+	encoded: string,
+	precision = 6,
+): Array<[number, number]> {
+	const factor = 10 ** precision;
+	const coordinates: Array<[number, number]> = [];
+	let index = 0;
+	let lat = 0;
+	let lng = 0;
+
+	const readValue = () => {
+		let result = 0;
+		let shift = 0;
+		let byte: number;
+		do {
+			byte = encoded.charCodeAt(index++) - 63;
+			result |= (byte & 0x1f) << shift;
+			shift += 5;
+		} while (byte >= 0x20);
+		return result & 1 ? ~(result >> 1) : result >> 1;
+	};
+
+	while (index < encoded.length) {
+		lat += readValue();
+		lng += readValue();
+		coordinates.push([lat / factor, lng / factor]);
+	}
+
+	return coordinates;
+}
+
+/**
+ * Merges per-coordinate-span surface values into GraphHopper's
+ * `[fromIndex, toIndex, surface]` detail format, joining adjacent spans
+ */
+export function mergeSurfaceDetails(
+	spans: Array<[number, number, string]>,
+): Array<[number, number, string]> {
+	const merged: Array<[number, number, string]> = [];
+
+	for (const [from, to, surface] of spans) {
+		if (to <= from) continue;
+
+		const previous = merged.at(-1);
+		if (previous && previous[2] === surface && previous[1] === from) {
+			previous[1] = to;
+		} else {
+			merged.push([from, to, surface]);
+		}
+	}
+
+	return merged;
+}
+
+/**
+ * Sums raw positive and negative elevation changes, matching GraphHopper's
+ * unsmoothed ascend/descend values
+ */
+function calculateAscendDescend(coordinates: Coordinate[]) {
+	let ascend = 0;
+	let descend = 0;
+
+	for (let i = 1; i < coordinates.length; i++) {
+		const prev = coordinates[i - 1];
+		const current = coordinates[i];
+		if (!prev || !current) continue;
+
+		const diff = current[2] - prev[2];
+		if (diff > 0) {
+			ascend += diff;
+		} else {
+			descend -= diff;
+		}
+	}
+
+	return { ascend, descend };
+}
+
+/**
+ * Calculates the [minLng, minLat, maxLng, maxLat] bounding box of a route
+ */
+function calculateBbox(coordinates: Coordinate[]): number[] {
+	if (coordinates.length === 0) return [];
+
+	let minLng = Number.POSITIVE_INFINITY;
+	let minLat = Number.POSITIVE_INFINITY;
+	let maxLng = Number.NEGATIVE_INFINITY;
+	let maxLat = Number.NEGATIVE_INFINITY;
+
+	for (const [lng, lat] of coordinates) {
+		minLng = Math.min(minLng, lng);
+		minLat = Math.min(minLat, lat);
+		maxLng = Math.max(maxLng, lng);
+		maxLat = Math.max(maxLat, lat);
+	}
+
+	return [minLng, minLat, maxLng, maxLat];
+}
+
+type BuildRoutePathParams = {
+	coordinates: Coordinate[];
+	/** Total distance in meters */
+	distance: number;
+	/** Total duration in milliseconds */
+	time: number;
+	/** Engine-specific routing cost, falls back to distance */
+	weight?: number;
+	surface?: Array<[number, number, string]>;
+	instructions?: Instruction[];
+	snappedWaypoints?: Coordinate[];
+};
+
+/**
+ * Builds a GraphHopper-shaped path from a non-GraphHopper engine's geometry
+ * Missing surface information is reported as a single "missing" span
+ */
+export function buildRoutePath({
+	coordinates,
+	distance,
+	time,
+	weight,
+	surface,
+	instructions,
+	snappedWaypoints,
+}: BuildRoutePathParams): RoutePath {
+	const lastIndex = Math.max(coordinates.length - 1, 0);
+	const surfaceDetails: Array<[number, number, string]> =
+		surface && surface.length > 0 ? surface : [[0, lastIndex, "missing"]];
+
+	return {
+		distance,
+		weight: weight ?? distance,
+		time,
+		transfers: 0,
+		legs: [],
+		points_encoded: false,
+		bbox: calculateBbox(coordinates),
+		points: {
+			type: "LineString",
+			coordinates,
+		},
+		details: {
+			surface: surfaceDetails,
+		},
+		...calculateAscendDescend(coordinates),
+		instructions,
+		snapped_waypoints: snappedWaypoints
+			? { type: "MultiPoint", coordinates: snappedWaypoints }
+			: undefined,
+	};
+}
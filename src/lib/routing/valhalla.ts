@@ -0,0 +1,339 @@
+import { z } from "zod";
+import { env } from "~/env";
+import type { ActivityProfileId } from "~/lib/activity-profiles";
+import { toLngLatRing } from "~/lib/avoid-areas";
+import type { Instruction } from "~/lib/graphhopper";
+import { RoutingError, type RoutingErrorReason } from "~/lib/routing-errors";
+import {
+	type RoutingPreferences,
+	getSurfaceWeights,
+} from "~/lib/routing-preferences";
+import type { RoutingProvider } from "./types";
+import {
+	buildRoutePath,
+	callRoutingAPI,
+	decodePolyline,
+	mergeSurfaceDetails,
+	parseJsonBody,
+} from "./utils";
+
+// Valhalla costing model for each activity - bicycle types set which surfaces it will ride
+const VALHALLA_PROFILES: Record<
+	ActivityProfileId,
+	| {
+			costing: "bicycle";
+			bicycleType: "Road" | "Hybrid" | "Cross" | "Mountain";
+	  }
+	| { costing: "pedestrian" }
+> = {
+	road: { costing: "bicycle", bicycleType: "Road" },
+	gravel: { costing: "bicycle", bicycleType: "Cross" },
+	mtb: { costing: "bicycle", bicycleType: "Mountain" },
+	ebike: { costing: "bicycle", bicycleType: "Hybrid" },
+	running: { costing: "pedestrian" },
+	walking: { costing: "pedestrian" },
+};
+
+/**
+ * Builds Valhalla costing options for an activity, tuned by routing preferences
+ * Valhalla has no bridleway control, so that preference is not applied
+ */
+function buildCostingOptions(
+	profile: ActivityProfileId,
+	preferences?: RoutingPreferences,
+) {
+	const valhallaProfile = VALHALLA_PROFILES[profile];
+	const weights = preferences ? getSurfaceWeights(preferences) : null;
+	const unpaved = weights ? Math.max(weights.gravel, weights.dirt) : null;
+
+	if (valhallaProfile.costing === "bicycle") {
+		return {
+			bicycle: {
+				bicycle_type: valhallaProfile.bicycleType,
+				...(preferences && unpaved !== null
+					? {
+							use_roads: 0.5 * (1 - preferences.avoidMainRoads / 100),
+							avoid_bad_surfaces: 1 - unpaved,
+						}
+					: {}),
+			},
+		};
+	}
+
+	return {
+		pedestrian:
+			preferences && unpaved !== null
+				? {
+						use_tracks: unpaved,
+						step_penalty: preferences.avoidSteps ? 3600 : 0, // seconds
+					}
+				: {},
+	};
+}
+
+// Valhalla reports coarse surface classes - map them onto OSM surface values
+// so they fall into the same SURFACE_CATEGORIES as GraphHopper's details
+const VALHALLA_SURFACES: Record<string, string> = {
+	paved_smooth: "asphalt",
+	paved: "paved",
+	paved_rough: "paving_stones",
+	compacted: "compacted",
+	dirt: "dirt",
+	gravel: "gravel",
+	path: "path",
+	impassable: "unknown",
+};
+
+// Valhalla maneuver types mapped onto GraphHopper instruction signs
+const VALHALLA_MANEUVER_SIGNS: Record<number, number> = {
+	4: 4, // destination
+	5: 4,
+	6: 4,
+	9: 1, // slight right
+	10: 2, // right
+	11: 3, // sharp right
+	12: 8, // u-turn right
+	13: -8, // u-turn left
+	14: -3, // sharp left
+	15: -2, // left
+	16: -1, // slight left
+	18: 1, // ramp right
+	19: -1, // ramp left
+	20: 1, // exit right
+	21: -1, // exit left
+	23: 7, // stay right
+	24: -7, // stay left
+	26: 6, // roundabout enter
+	27: -6, // roundabout exit
+};
+
+const ValhallaManeuverSchema = z.object({
+	type: z.number(),
+	instruction: z.string(),
+	street_names: z.array(z.string()).optional(),
+	length: z.number(), // kilometers
+	time: z.number(), // seconds
+	begin_shape_index: z.number(),
+	end_shape_index: z.number(),
+});
+
+const ValhallaRouteResponseSchema = z.object({
+	trip: z.object({
+		locations: z.array(z.object({ lat: z.number(), lon: z.number() })),
+		legs: z.array(
+			z.object({
+				shape: z.string(),
+				maneuvers: z.array(ValhallaManeuverSchema).default([]),
+			}),
+		),
+		summary: z.object({
+			length: z.number(), // kilometers
+			time: z.number(), // seconds
+		}),
+	}),
+});
+
+const ValhallaHeightResponseSchema = z.object({
+	height: z.array(z.number().nullable()),
+});
+
+const ValhallaTraceAttributesResponseSchema = z.object({
+	edges: z
+		.array(
+			z.object({
+				surface: z.string().optional(),
+				begin_shape_index: z.number(),
+				end_shape_index: z.number(),
+			}),
+		)
+		.default([]),
+});
+
+/**
+ * Converts per-leg maneuvers into GraphHopper-style instructions indexed into
+ * the joined shape. Destinations of intermediate legs become "via" instructions
+ */
+function toInstructions(
+	legs: Array<{ maneuvers: z.infer<typeof ValhallaManeuverSchema>[] }>,
+	legOffsets: number[],
+): Instruction[] {
+	return legs.flatMap((leg, legIndex) => {
+		const offset = legOffsets[legIndex] ?? 0;
+		const isLastLeg = legIndex === legs.length - 1;
+
+		return leg.maneuvers.flatMap((maneuver) => {
+			// Later legs restart with a "start" maneuver, which isn't a cue
+			if (legIndex > 0 && maneuver.type >= 1 && maneuver.type <= 3) return [];
+
+			const sign = VALHALLA_MANEUVER_SIGNS[maneuver.type] ?? 0;
+			return [
+				{
+					distance: maneuver.length * 1000,
+					time: maneuver.time * 1000,
+					sign: sign === 4 && !isLastLeg ? 5 : sign,
+					text: maneuver.instruction,
+					street_name: maneuver.street_names?.[0],
+					interval: [
+						offset + maneuver.begin_shape_index,
+						offset + maneuver.end_shape_index,
+					] as [number, number],
+				},
+			];
+		});
+	});
+}
+
+const ValhallaMatrixResponseSchema = z.object({
+	sources_to_targets: z.array(
+		z.array(z.object({ distance: z.number().nullable() })), // kilometers
+	),
+});
+
+const ValhallaErrorSchema = z.object({
+	error_code: z.number(),
+	error: z.string(),
+});
+
+// Valhalla error codes that say something about the request rather than the server
+// Valhalla doesn't report which location an error is about
+const VALHALLA_ERROR_REASONS: Record<number, RoutingErrorReason> = {
+	150: "too_many_points", // Exceeded max locations
+	154: "no_route", // Path distance exceeds the max distance limit
+	171: "point_not_found", // No suitable edges near location
+	442: "no_route", // No path could be found for input
+	443: "no_route", // Exact route match algorithm failed to find path
+};
+
+function parseValhallaError(body: string): RoutingError | undefined {
+	const parsed = ValhallaErrorSchema.safeParse(parseJsonBody(body));
+	if (!parsed.success) return undefined;
+
+	const reason = VALHALLA_ERROR_REASONS[parsed.data.error_code];
+	return reason ? new RoutingError(reason, parsed.data.error) : undefined;
+}
+
+const postJson = (path: string, body: unknown) =>
+	callRoutingAPI(
+		"Valhalla",
+		`${env.VALHALLA_API_ROOT}${path}`,
+		{
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify(body),
+		},
+		parseValhallaError,
+	);
+
+/**
+ * Valhalla adapter. Elevation comes from the `/height` service and surfaces
+ * from `/trace_attributes`, both run against the routed shape
+ */
+export const valhallaProvider: RoutingProvider = {
+	name: "valhalla",
+	calculateRoute: async ({
+		points,
+		elevation,
+		profile,
+		preferences,
+		avoidAreas,
+	}) => {
+		if (!env.VALHALLA_API_ROOT) {
+			throw new Error(
+				'VALHALLA_API_ROOT must be set to use the "valhalla" provider',
+			);
+		}
+
+		const { costing } = VALHALLA_PROFILES[profile];
+		const started = Date.now();
+
+		const { trip } = ValhallaRouteResponseSchema.parse(
+			await postJson("/route", {
+				locations: points.map((p) => ({ lat: p.lat, lon: p.lng })),
+				costing,
+				costing_options: buildCostingOptions(profile, preferences),
+				exclude_polygons: avoidAreas.map(toLngLatRing),
+				units: "kilometers",
+			}),
+		);
+
+		// Join leg shapes, dropping the duplicated point where legs meet
+		// Each leg's shape indices are offset by where it starts in the joined shape
+		const legOffsets: number[] = [];
+		const shape: Array<[number, number]> = [];
+		for (const leg of trip.legs) {
+			const decoded = decodePolyline(leg.shape, 6);
+			legOffsets.push(Math.max(shape.length - 1, 0));
+			shape.push(...(shape.length === 0 ? decoded : decoded.slice(1)));
+		}
+		const shapePoints = shape.map(([lat, lon]) => ({ lat, lon }));
+
+		const [heights, attributes] = await Promise.all([
+			elevation
+				? postJson("/height", { shape: shapePoints, range: false }).then(
+						(data) => ValhallaHeightResponseSchema.parse(data).height,
+					)
+				: Promise.resolve([]),
+			postJson("/trace_attributes", {
+				shape: shapePoints,
+				costing,
+				shape_match: "edge_walk",
+				filters: {
+					attributes: [
+						"edge.surface",
+						"edge.begin_shape_index",
+						"edge.end_shape_index",
+					],
+					action: "include",
+				},
+			}).then((data) => ValhallaTraceAttributesResponseSchema.parse(data)),
+		]);
+
+		const surface = mergeSurfaceDetails(
+			attributes.edges.map((edge) => [
+				edge.begin_shape_index,
+				edge.end_shape_index,
+				VALHALLA_SURFACES[edge.surface ?? ""] ?? "missing",
+			]),
+		);
+
+		return {
+			info: {
+				copyrights: ["Valhalla", "OpenStreetMap contributors"],
+				took: Date.now() - started,
+			},
+			paths: [
+				buildRoutePath({
+					coordinates: shape.map(
+						([lat, lng], index) =>
+							[lng, lat, heights[index] ?? 0] as [number, number, number],
+					),
+					distance: trip.summary.length * 1000,
+					time: trip.summary.time * 1000,
+					surface,
+					instructions: toInstructions(trip.legs, legOffsets),
+				}),
+			],
+		};
+	},
+	calculateMatrix: async ({ points, profile }) => {
+		if (!env.VALHALLA_API_ROOT) {
+			throw new Error(
+				'VALHALLA_API_ROOT must be set to use the "valhalla" provider',
+			);
+		}
+
+		const locations = points.map((p) => ({ lat: p.lat, lon: p.lng }));
+		const data = ValhallaMatrixResponseSchema.parse(
+			await postJson("/sources_to_targets", {
+				sources: locations,
+				targets: locations,
+				costing: VALHALLA_PROFILES[profile].costing,
+				costing_options: buildCostingOptions(profile),
+				units: "kilometers",
+			}),
+		);
+		return data.sources_to_targets.map((row) =>
+			row.map(({ distance }) => (distance === null ? null : distance * 1000)),
+		);
+	},
+};
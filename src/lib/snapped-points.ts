@@ -0,0 +1,52 @@
+import { calculateDistance } from "./geo-utils";
+import type { LatLngPoint } from "./geometry";
+import type { RoutePoint } from "./graphhopper";
+
+// Warn when a point was routed from further away than this by default
+export const DEFAULT_SNAP_WARNING_DISTANCE = 100; // meters
+export const SNAP_WARNING_DISTANCE_OPTIONS = [25, 50, 100, 250, 500] as const;
+
+// Closer than this the connector would be hidden under the marker anyway
+const MIN_VISIBLE_SNAP_DISTANCE = 5; // meters
+
+export type SnapGap = {
+	/** Index of the route point */
+	index: number;
+	point: LatLngPoint;
+	/** Where the engine joined the route to the network */
+	snapped: LatLngPoint;
+	/** Meters between the point and where it snapped */
+	distance: number;
+};
+
+/**
+ * Pairs each route point with where the engine snapped it, keeping the
+ * ones far enough apart to show. Returns nothing when the engine didn't
+ * report one snapped waypoint per point
+ */
+export const getSnapGaps = (
+	routePoints: RoutePoint[],
+	snappedWaypoints: Array<[number, number, number]> | undefined,
+): SnapGap[] => {
+	if (!snappedWaypoints || snappedWaypoints.length !== routePoints.length) {
+		return [];
+	}
+
+	return routePoints.flatMap((point, index) => {
+		const waypoint = snappedWaypoints[index];
+		if (!waypoint) return [];
+
+		const snapped = { lat: waypoint[1], lng: waypoint[0] };
+		const distance = calculateDistance({ from: point, to: snapped, unit: "m" });
+		return distance >= MIN_VISIBLE_SNAP_DISTANCE
+			? [
+					{
+						index,
+						point: { lat: point.lat, lng: point.lng },
+						snapped,
+						distance,
+					},
+				]
+			: [];
+	});
+};
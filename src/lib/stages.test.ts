@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import type { RoutePoint } from "./graphhopper";
+import { estimateMovingTime } from "./moving-time";
+import { getCumulativeDistances } from "./route-export";
+import {
+	MAX_STAGES,
+	type StagePlan,
+	buildStages,
+	decodeStagePlanFromUrl,
+	encodeStagePlanForUrl,
+	parseStoredStagePlan,
+} from "./stages";
+
+type Coordinate = [number, number, number];
+
+// 101 points about 111.2m apart heading north, climbing 10m a point for the first 50
+const coordinates: Coordinate[] = Array.from({ length: 101 }, (_, index) => [
+	-1,
+	51 + index * 0.001,
+	100 + Math.min(index, 50) * 10,
+]);
+const surface: Array<[number, number, string]> = [
+	[0, 50, "asphalt"],
+	[50, 100, "gravel"],
+];
+const totalDistance = getCumulativeDistances(coordinates).at(-1) ?? 0;
+
+const stagesFor = (plan: StagePlan, routePoints: RoutePoint[] = []) =>
+	buildStages(
+		coordinates,
+		surface,
+		routePoints,
+		plan,
+		"gravel",
+		undefined,
+		"none",
+	);
+
+const boundariesOf = (stages: ReturnType<typeof stagesFor>) =>
+	stages.map(({ startIndex, endIndex }) => [startIndex, endIndex]);
+
+describe("buildStages", () => {
+	it("splits into even days within the daily distance", () => {
+		const stages = stagesFor({ method: "distance", target: 4000 });
+
+		// 11.1km in three days of about 3.7km
+		expect(boundariesOf(stages)).toEqual([
+			[0, 34],
+			[34, 67],
+			[67, 100],
+		]);
+		for (const stage of stages) {
+			expect(stage.distance).toBeLessThanOrEqual(4000);
+		}
+		expect(stages.reduce((sum, { distance }) => sum + distance, 0)).toBeCloseTo(
+			totalDistance,
+		);
+	});
+
+	it("splits by daily climbing", () => {
+		const stages = stagesFor({ method: "climbing", target: 200 });
+
+		// 500m of climbing in three days, the last one finishing on the flat
+		expect(boundariesOf(stages)).toEqual([
+			[0, 17],
+			[17, 34],
+			[34, 100],
+		]);
+		expect(stages.map(({ elevationGain }) => elevationGain)).toEqual([
+			170, 170, 160,
+		]);
+	});
+
+	it("keeps a route shorter than the target as a single day", () => {
+		const [stage, ...others] = stagesFor({
+			method: "distance",
+			target: 50_000,
+		});
+
+		expect(others).toEqual([]);
+		expect(stage).toMatchObject({ number: 1, startIndex: 0, endIndex: 100 });
+		expect(stage?.time).toBeCloseTo(
+			estimateMovingTime(coordinates, surface, "gravel"),
+		);
+	});
+
+	it("stops at the most stages a plan can have", () => {
+		expect(stagesFor({ method: "distance", target: 100 })).toHaveLength(
+			MAX_STAGES,
+		);
+	});
+
+	it("ends days at overnight stops, in route order", () => {
+		const stop = (index: number, name: string, overnight = true) => ({
+			lat: 51 + index * 0.001,
+			lng: -1,
+			type: "checkpoint" as const,
+			name,
+			overnight,
+		});
+		const stages = stagesFor({ method: "overnight" }, [
+			{ lat: 51, lng: -1, type: "start" },
+			stop(30, "Campsite"),
+			stop(50, "Cafe", false),
+			stop(70, "Hostel"),
+			// Back before the last stop, so it can't end a day
+			stop(60, "Hut"),
+			{ lat: 51.1, lng: -1, type: "end" },
+		]);
+
+		expect(boundariesOf(stages)).toEqual([
+			[0, 30],
+			[30, 70],
+			[70, 100],
+		]);
+		expect(stages.map(({ endName }) => endName)).toEqual([
+			"Campsite",
+			"Hostel",
+			undefined,
+		]);
+	});
+
+	it("gives each stage its own surface mix and profile", () => {
+		const [first, , last] = stagesFor({ method: "distance", target: 4000 });
+
+		expect(first?.surfaceMix).toHaveLength(1);
+		expect(last?.surfaceMix).toHaveLength(1);
+		expect(first?.surfaceMix[0]?.formattedSurface).not.toBe(
+			last?.surfaceMix[0]?.formattedSurface,
+		);
+		expect(last?.elevationData[0]).toMatchObject({
+			distance: 0,
+			elevation: 600,
+		});
+	});
+});
+
+describe("stage plans in the URL", () => {
+	it("round-trips every kind of plan", () => {
+		const plans: StagePlan[] = [
+			{ method: "distance", target: 120_000 },
+			{ method: "climbing", target: 2000 },
+			{ method: "overnight" },
+		];
+
+		expect(plans.map(encodeStagePlanForUrl)).toEqual([
+			"distance:120000",
+			"climbing:2000",
+			"overnight",
+		]);
+		for (const plan of plans) {
+			expect(decodeStagePlanFromUrl(encodeStagePlanForUrl(plan))).toEqual(plan);
+		}
+	});
+
+	it("ignores malformed plans", () => {
+		expect(decodeStagePlanFromUrl("distance")).toBeNull();
+		expect(decodeStagePlanFromUrl("distance:far")).toBeNull();
+		expect(decodeStagePlanFromUrl("climbing:10")).toBeNull();
+		expect(decodeStagePlanFromUrl("weekly")).toBeNull();
+		expect(parseStoredStagePlan({ method: "overnight", extra: 1 })).toEqual({
+			method: "overnight",
+		});
+	});
+});
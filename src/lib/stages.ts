@@ -0,0 +1,214 @@
+import { z } from "zod";
+import type { ActivityProfileId } from "./activity-profiles";
+import {
+	DEFAULT_ELEVATION_SMOOTHING,
+	type ElevationSmoothing,
+	smoothCoordinateElevations,
+} from "./elevation-smoothing";
+import {
+	type ElevationChartData,
+	type RoutePoint,
+	processElevationData,
+} from "./graphhopper";
+import { type SurfaceSpeeds, estimateMovingTime } from "./moving-time";
+import {
+	findNearestCoordinateIndex,
+	getCumulativeDistances,
+} from "./route-export";
+import { sliceIntervalDetails } from "./route-sections";
+import {
+	type SurfaceShare,
+	getSurfaceMix,
+	processSurfaceData,
+} from "./surface-utils";
+
+type Coordinate = [number, number, number]; // [lng, lat, elevation]
+
+// Enough for a long tour without flooding the drawer
+export const MAX_STAGES = 30;
+
+export const STAGE_METHODS = {
+	distance: "By daily distance",
+	climbing: "By daily climbing",
+	overnight: "At overnight stops",
+} as const;
+
+export type StageMethod = keyof typeof STAGE_METHODS;
+
+// How a route is split into days - targets are per stage, in meters
+export const StagePlanSchema = z.discriminatedUnion("method", [
+	z.object({
+		method: z.literal("distance"),
+		target: z.number().min(1000),
+	}),
+	z.object({
+		method: z.literal("climbing"),
+		target: z.number().min(100),
+	}),
+	// Stages end at the checkpoints marked as overnight stops
+	z.object({ method: z.literal("overnight") }),
+]);
+
+export type StagePlan = z.infer<typeof StagePlanSchema>;
+
+export const DEFAULT_STAGE_TARGETS = {
+	distance: 100_000,
+	climbing: 1500,
+} as const;
+
+export type Stage = {
+	/** 1-based */
+	number: number;
+	/** First and last route coordinate - neighbouring stages share the one between them */
+	startIndex: number;
+	endIndex: number;
+	distance: number; // meters
+	elevationGain: number; // meters
+	elevationLoss: number; // meters
+	time: number; // milliseconds, estimated for the activity profile
+	surfaceMix: SurfaceShare[];
+	/** Profile from the start of the stage */
+	elevationData: ElevationChartData;
+	/** Name of the overnight stop the stage finishes at, if it has one */
+	endName?: string;
+};
+
+/**
+ * Reads a plan stored as JSON, treating anything that no longer validates as none
+ */
+export const parseStoredStagePlan = (value: unknown): StagePlan | null => {
+	const result = StagePlanSchema.safeParse(value);
+	return result.success ? result.data : null;
+};
+
+/**
+ * Short URL form of a plan - "distance:120000", "climbing:2000" or "overnight"
+ */
+export const encodeStagePlanForUrl = (plan: StagePlan): string =>
+	plan.method === "overnight" ? plan.method : `${plan.method}:${plan.target}`;
+
+/**
+ * Decodes a plan from the URL, returning null for anything malformed
+ */
+export const decodeStagePlanFromUrl = (encoded: string): StagePlan | null => {
+	const [method, target] = encoded.split(":");
+	return parseStoredStagePlan(
+		target === undefined ? { method } : { method, target: Number(target) },
+	);
+};
+
+/**
+ * Indices where running totals pass each even share of the total, so every
+ * stage stays within the target and none is left much shorter than the rest
+ */
+const splitByTarget = (totals: number[], target: number): number[] => {
+	const total = totals.at(-1) ?? 0;
+	const count = Math.min(MAX_STAGES, Math.max(1, Math.ceil(total / target)));
+	const share = total / count;
+
+	const boundaries: number[] = [];
+	let index = 0;
+	for (let stage = 1; stage < count; stage++) {
+		while (index < totals.length - 1 && (totals[index] ?? 0) < share * stage) {
+			index++;
+		}
+		if (index > (boundaries.at(-1) ?? 0)) boundaries.push(index);
+	}
+	return boundaries;
+};
+
+/**
+ * Climbing done by each coordinate, running from the start
+ */
+const getCumulativeClimbing = (coordinates: Coordinate[]): number[] => {
+	let total = 0;
+	return coordinates.map(([, , elevation], index) => {
+		const previous = coordinates[index - 1];
+		if (previous && elevation > previous[2]) total += elevation - previous[2];
+		return total;
+	});
+};
+
+/**
+ * Coordinate indices where each stage but the last ends, with the name of
+ * the overnight stop there when split by stops
+ */
+const findStageEnds = (
+	coordinates: Coordinate[],
+	routePoints: RoutePoint[],
+	plan: StagePlan,
+): Array<{ index: number; name?: string }> => {
+	if (plan.method === "distance") {
+		return splitByTarget(getCumulativeDistances(coordinates), plan.target).map(
+			(index) => ({ index }),
+		);
+	}
+	if (plan.method === "climbing") {
+		return splitByTarget(getCumulativeClimbing(coordinates), plan.target).map(
+			(index) => ({ index }),
+		);
+	}
+
+	// Searching on from the previous stop keeps out-and-back routes in order
+	const ends: Array<{ index: number; name?: string }> = [];
+	let searchFrom = 0;
+	for (const point of routePoints) {
+		if (point.type !== "checkpoint" || !point.overnight) continue;
+
+		const index =
+			searchFrom +
+			findNearestCoordinateIndex(coordinates.slice(searchFrom), point);
+		if (index > searchFrom && index < coordinates.length - 1) {
+			ends.push({ index, name: point.name });
+			searchFrom = index;
+		}
+		if (ends.length === MAX_STAGES - 1) break;
+	}
+	return ends;
+};
+
+/**
+ * Splits a route into stages following the plan, with each stage's own
+ * distance, climbing, surface mix and elevation profile. Climbing comes from
+ * the smoothed elevations, so the stages add up to the route's total
+ */
+export const buildStages = (
+	coordinates: Coordinate[],
+	surface: Array<[number, number, string]>,
+	routePoints: RoutePoint[],
+	plan: StagePlan,
+	profile: ActivityProfileId,
+	speeds?: SurfaceSpeeds,
+	smoothing: ElevationSmoothing = DEFAULT_ELEVATION_SMOOTHING,
+): Stage[] => {
+	if (coordinates.length < 2) return [];
+
+	const smoothed = smoothCoordinateElevations(coordinates, smoothing);
+	const ends = [
+		...findStageEnds(smoothed, routePoints, plan),
+		{ index: coordinates.length - 1 },
+	];
+
+	return ends.map(({ index: endIndex, name }, i) => {
+		const startIndex = ends[i - 1]?.index ?? 0;
+		const stageCoordinates = smoothed.slice(startIndex, endIndex + 1);
+		const stageSurface = sliceIntervalDetails(surface, startIndex, endIndex);
+		const { chartData, stats } = processElevationData(stageCoordinates, "none");
+		const distance = (chartData.at(-1)?.distance ?? 0) * 1000;
+
+		return {
+			number: i + 1,
+			startIndex,
+			endIndex,
+			distance,
+			elevationGain: stats.totalGain,
+			elevationLoss: stats.totalLoss,
+			time: estimateMovingTime(stageCoordinates, stageSurface, profile, speeds),
+			surfaceMix: getSurfaceMix(
+				processSurfaceData(stageSurface, distance / 1000),
+			),
+			elevationData: chartData,
+			endName: name,
+		};
+	});
+};
@@ -1,5 +1,7 @@
 // Surface type definitions and utilities
 
+import type { ActivityProfileId } from "./activity-profiles";
+
 export type SurfaceSegment = {
 	startDistance: number;
 	endDistance: number;
@@ -14,17 +16,34 @@ export type RouteSegment = {
 	key: string;
 };
 
-// Surface categories with their display names and colors
+// Surface categories with their display names and colors, and how fast each
+// activity moves on them as a fraction of its speed on the flat
 const SURFACE_CATEGORIES = {
 	road: {
 		displayName: "Road",
 		color: "#0ea5e9",
 		surfaces: ["asphalt", "concrete", "paved", "paving_stones"],
+		speedFactors: {
+			road: 1,
+			gravel: 1,
+			mtb: 1,
+			ebike: 1,
+			running: 1,
+			walking: 1,
+		},
 	},
 	path: {
 		displayName: "Path",
 		color: "#8b5cf6",
 		surfaces: ["path", "track", "wood", "cobblestone", "metal"],
+		speedFactors: {
+			road: 0.7,
+			gravel: 0.85,
+			mtb: 0.9,
+			ebike: 0.85,
+			running: 0.95,
+			walking: 1,
+		},
 	},
 	dirt: {
 		displayName: "Off-Road",
@@ -41,13 +60,56 @@ const SURFACE_CATEGORIES = {
 			"ground",
 			"compacted",
 		],
+		speedFactors: {
+			road: 0.55,
+			gravel: 0.8,
+			mtb: 0.9,
+			ebike: 0.8,
+			running: 0.9,
+			walking: 0.95,
+		},
+	},
+	direct: {
+		displayName: "Off-Network",
+		color: "#f97316",
+		surfaces: ["direct"],
+		speedFactors: {
+			road: 0.3,
+			gravel: 0.4,
+			mtb: 0.5,
+			ebike: 0.4,
+			running: 0.6,
+			walking: 0.7,
+		},
 	},
 	unknown: {
 		displayName: "Unknown",
 		color: "#6b7280",
 		surfaces: ["unknown", "missing"],
+		speedFactors: {
+			road: 0.85,
+			gravel: 0.9,
+			mtb: 0.95,
+			ebike: 0.9,
+			running: 0.95,
+			walking: 1,
+		},
 	},
-} as const;
+} as const satisfies Record<
+	string,
+	{
+		displayName: string;
+		color: string;
+		surfaces: readonly string[];
+		speedFactors: Record<ActivityProfileId, number>;
+	}
+>;
+
+export type SurfaceCategoryId = keyof typeof SURFACE_CATEGORIES;
+
+export const SURFACE_CATEGORY_IDS = Object.keys(
+	SURFACE_CATEGORIES,
+) as SurfaceCategoryId[];
 
 // Create reverse lookup map for surface to category
 const SURFACE_TO_CATEGORY = Object.entries(SURFACE_CATEGORIES).reduce(
@@ -68,6 +130,29 @@ function getSurfaceCategory(surface: string) {
 	return category ? SURFACE_CATEGORIES[category] : null;
 }
 
+/**
+ * Category a surface type belongs to, unknown when it isn't listed
+ */
+export const getSurfaceCategoryId = (
+	surface: string | undefined,
+): SurfaceCategoryId =>
+	(surface && SURFACE_TO_CATEGORY[surface.toLowerCase()]) || "unknown";
+
+/**
+ * Display name of a surface category
+ */
+export const getSurfaceCategoryName = (category: SurfaceCategoryId) =>
+	SURFACE_CATEGORIES[category].displayName;
+
+/**
+ * How fast an activity moves on a surface category, as a fraction of its
+ * speed on the flat
+ */
+export const getSurfaceSpeedFactor = (
+	category: SurfaceCategoryId,
+	profile: ActivityProfileId,
+) => SURFACE_CATEGORIES[category].speedFactors[profile];
+
 /**
  * Format surface name from API format to display format
  * Uses surface categories for consistent grouping
@@ -228,3 +313,42 @@ export function surfaceSegmentsToRouteSegments(
 
 	return segments;
 }
+
+export type SurfaceShare = {
+	formattedSurface: string;
+	color: string;
+	/** Fraction of the route, 0-1 */
+	share: number;
+};
+
+/**
+ * Share of the route on each surface category, largest first
+ */
+export function getSurfaceMix(
+	surfaceSegments: SurfaceSegment[],
+): SurfaceShare[] {
+	const totals = new Map<string, SurfaceShare>();
+	let totalDistance = 0;
+
+	for (const segment of surfaceSegments) {
+		const distance = segment.endDistance - segment.startDistance;
+		totalDistance += distance;
+
+		const current = totals.get(segment.formattedSurface);
+		if (current) {
+			current.share += distance;
+		} else {
+			totals.set(segment.formattedSurface, {
+				formattedSurface: segment.formattedSurface,
+				color: segment.color,
+				share: distance,
+			});
+		}
+	}
+
+	if (totalDistance === 0) return [];
+
+	return Array.from(totals.values())
+		.map((surface) => ({ ...surface, share: surface.share / totalDistance }))
+		.sort((a, b) => b.share - a.share);
+}
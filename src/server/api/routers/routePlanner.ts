@@ -1,61 +1,440 @@
-import { and, desc, eq } from "drizzle-orm";
+import { randomBytes } from "node:crypto";
+import { TRPCError } from "@trpc/server";
+import {
+	type SQL,
+	and,
+	arrayContains,
+	asc,
+	count,
+	desc,
+	eq,
+	getTableColumns,
+	gte,
+	isNotNull,
+	lte,
+	max,
+	sql,
+} from "drizzle-orm";
+import type { Session } from "next-auth";
 import { z } from "zod";
+import { env } from "~/env";
+import {
+	ActivityProfileSchema,
+	DEFAULT_ACTIVITY_PROFILE,
+} from "~/lib/activity-profiles";
+import { AvoidAreaSchema, AvoidAreasSchema } from "~/lib/avoid-areas";
+import {
+	type CheckpointOrder,
+	CheckpointOrderSchema,
+	OptimiseCheckpointOrderSchema,
+	fillUnreachableDistances,
+	findShortestOrder,
+	getOrderDistance,
+	getStraightLineMatrix,
+} from "~/lib/checkpoint-order";
+import { buildCueSheet, getTurnCues } from "~/lib/cue-sheet";
+import { generateFitFromCoordinates } from "~/lib/fit-export";
 import {
 	CalculateRouteSchema,
+	GenerateLoopSchema,
 	GeocodeResponseSchema,
 	GeocodeSchema,
+	InstructionSchema,
+	LoopCandidateSchema,
 	ReverseGeocodeSchema,
 	RoutePointSchema,
 	RouteResponseSchema,
 	buildGeocodeUrl,
 	buildReverseGeocodeUrl,
-	buildRouteUrl,
-	callGraphHopperAPI,
-	generateGpxFromCoordinates,
 	processGeocodeHits,
 } from "~/lib/graphhopper";
+import {
+	buildLoopRoutePoints,
+	generateLoopWaypoints,
+	getCandidateHeading,
+	sampleLoopRoutePoints,
+} from "~/lib/loop-generator";
+import {
+	generateGeoJsonFromCoordinates,
+	generateGpxFromCoordinates,
+	generateKmlFromCoordinates,
+	generateTcxFromCoordinates,
+} from "~/lib/route-export";
+import { ROUTE_SORT_OPTIONS, type RouteSort } from "~/lib/route-utils";
+import { getRoutingProvider } from "~/lib/routing";
+import { RoutingError } from "~/lib/routing-errors";
+import { RoutingPreferencesSchema } from "~/lib/routing-preferences";
+import {
+	calculateRouteWithDirectLegs,
+	hasDirectLegs,
+} from "~/lib/routing/direct-legs";
+import { callGraphHopperAPI } from "~/lib/routing/graphhopper";
+import { StagePlanSchema } from "~/lib/stages";
 import {
 	createTRPCRouter,
 	protectedProcedure,
 	publicProcedure,
+	rateLimitedProcedure,
 } from "~/server/api/trpc";
-import { routes } from "~/server/db/schema";
+import {
+	geocodeCache,
+	getReverseGeocodeCacheKey,
+	getRoundTripCacheKey,
+	getRouteCacheKey,
+	routeCache,
+	withCache,
+} from "~/server/cache";
+import type { db } from "~/server/db";
+import {
+	routeRevisions,
+	routes,
+	routingPresets,
+	userAvoidAreas,
+} from "~/server/db/schema";
+import { consumeRateLimit } from "~/server/rate-limit";
 
 // Schema for saving a route (upsert - create or update)
 const SaveRouteSchema = z.object({
 	id: z.number().optional(), // If provided, update existing route
 	title: z.string().min(1).max(255),
+	description: z.string().max(1000).optional(),
 	routeData: z.array(RoutePointSchema),
 	distance: z.number().positive(),
 	elevationGain: z.number().min(0),
-	routePreference: z.enum(["road", "off-road"]).default("road"),
+	activityProfile: ActivityProfileSchema.default(DEFAULT_ACTIVITY_PROFILE),
+	routingPreferences: RoutingPreferencesSchema.optional(), // Omitted for the defaults
+	avoidAreas: AvoidAreasSchema.default([]), // The route's own areas, not the user's saved ones
+	stagePlan: StagePlanSchema.optional(), // Omitted for a single-day route
+	folder: z.string().trim().max(255).optional(),
+	tags: z
+		.array(z.string().trim().toLowerCase().min(1).max(50))
+		.max(20)
+		.default([]),
+	routeResponse: RouteResponseSchema.optional(), // Computed route to store with the points
 });
 
+// Schema for listing saved routes - all filters optional, offset-paginated
+const GetRoutesSchema = z
+	.object({
+		search: z.string().trim().max(200).optional(),
+		folder: z.string().optional(),
+		tag: z.string().optional(),
+		activityProfile: ActivityProfileSchema.optional(),
+		minDistance: z.number().min(0).optional(), // meters
+		maxDistance: z.number().min(0).optional(),
+		minElevationGain: z.number().min(0).optional(), // meters
+		maxElevationGain: z.number().min(0).optional(),
+		sort: z
+			.enum(Object.keys(ROUTE_SORT_OPTIONS) as [RouteSort, ...RouteSort[]])
+			.default("newest"),
+		limit: z.number().int().min(1).max(100).default(20),
+		cursor: z.number().int().min(0).default(0), // Offset of the first route
+	})
+	.default({});
+
+const ROUTE_ORDER_BY: Record<RouteSort, SQL> = {
+	newest: desc(routes.createdAt),
+	oldest: asc(routes.createdAt),
+	title: asc(routes.title),
+	longest: desc(routes.distance),
+	shortest: asc(routes.distance),
+	climbing: desc(routes.elevationGain),
+};
+
+// List views leave out the stored route geometry, which can be large
+const { routeResponse: _routeResponse, ...routeListColumns } =
+	getTableColumns(routes);
+
+// Matches the route_search_idx expression so searches can use the index
+const routeSearchVector = sql`to_tsvector('simple', ${routes.title} || ' ' || coalesce(${routes.description}, ''))`;
+
+/**
+ * Turns free text into a prefix-matching tsquery ("gravel lo" -> "gravel:* & lo:*")
+ * Returns null when there are no searchable words
+ */
+function buildSearchQuery(search: string): string | null {
+	const words = search.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+	return words ? words.map((word) => `${word}:*`).join(" & ") : null;
+}
+
 // Schema for route ID operations
 const RouteIdSchema = z.object({ id: z.number() });
 
+// Schema for restoring a saved route to an earlier revision
+const RestoreRevisionSchema = z.object({
+	id: z.number(),
+	revision: z.number().int().min(1),
+});
+
+type DbExecutor = Pick<typeof db, "select" | "insert">;
+
+/**
+ * Appends a snapshot of a route's current state as its next revision.
+ * Must run in a transaction: the route row stays locked until it commits.
+ */
+async function appendRevision(
+	executor: DbExecutor,
+	route: typeof routes.$inferSelect,
+	restoredFrom?: number,
+) {
+	// Lock the route so concurrent saves number their revisions one after another
+	await executor
+		.select({ id: routes.id })
+		.from(routes)
+		.where(eq(routes.id, route.id))
+		.for("update");
+
+	const [latest] = await executor
+		.select({ revision: max(routeRevisions.revision) })
+		.from(routeRevisions)
+		.where(eq(routeRevisions.routeId, route.id));
+
+	await executor.insert(routeRevisions).values({
+		routeId: route.id,
+		revision: (latest?.revision ?? 0) + 1,
+		title: route.title,
+		description: route.description,
+		routeData: route.routeData,
+		distance: route.distance,
+		elevationGain: route.elevationGain,
+		activityProfile: route.activityProfile,
+		routingPreferences: route.routingPreferences,
+		avoidAreas: route.avoidAreas,
+		stagePlan: route.stagePlan,
+		restoredFrom,
+	});
+}
+
+// Schema for saving a named routing preset (upserted by name)
+const RoutingPresetSchema = z.object({
+	name: z.string().trim().min(1).max(50),
+	preferences: RoutingPreferencesSchema,
+});
+
+// Schema for saving an area to the user's own list, applied on every route
+const SaveAvoidAreaSchema = AvoidAreaSchema.pick({ kind: true, polygon: true });
+
+// Schema for public share link lookups
+const ShareSlugSchema = z.object({ slug: z.string().min(1).max(32) });
+
+// 16 url-safe characters (96 bits) - long enough that links can't be guessed
+const generateShareSlug = () => randomBytes(12).toString("base64url");
+
+// Shared input for every export format
+const ExportRouteSchema = z.object({
+	coordinates: z
+		.array(z.tuple([z.number(), z.number(), z.number()]))
+		.min(1, "No route coordinates provided"),
+	routeName: z.string().optional().default("Route"),
+	routeId: z.number().optional(), // Saved route to take title/description from
+	routePoints: z.array(RoutePointSchema).default([]),
+	surface: z.array(z.tuple([z.number(), z.number(), z.string()])).default([]),
+	instructions: z.array(InstructionSchema).default([]), // Become turn cues
+	activityProfile: ActivityProfileSchema.default(DEFAULT_ACTIVITY_PROFILE), // Sets course timing and sport
+	section: z.string().trim().max(100).optional(), // Part being exported, e.g. "Stage 2 of 4"
+});
+
+type ExportContext = {
+	db: typeof db;
+	session: Session | null;
+};
+
+/**
+ * Builds export options, using the saved title and description when the
+ * signed-in user is exporting one of their own routes
+ */
+async function resolveExportOptions<
+	T extends z.infer<typeof ExportRouteSchema>,
+>(
+	ctx: ExportContext,
+	{ coordinates, routeName, routeId, instructions, section, ...options }: T,
+) {
+	const [savedRoute] =
+		routeId && ctx.session?.user
+			? await ctx.db
+					.select({ title: routes.title, description: routes.description })
+					.from(routes)
+					.where(
+						and(
+							eq(routes.id, routeId),
+							eq(routes.createdById, ctx.session.user.id),
+						),
+					)
+					.limit(1)
+			: [];
+
+	const name = savedRoute?.title ?? routeName;
+
+	return {
+		...options,
+		name: section ? `${name} - ${section}` : name,
+		description: savedRoute?.description ?? undefined,
+		cues: getTurnCues(buildCueSheet(instructions, coordinates)),
+	};
+}
+
 export const routePlannerRouter = createTRPCRouter({
-	calculate: publicProcedure
+	calculate: rateLimitedProcedure
 		.input(CalculateRouteSchema)
 		.output(RouteResponseSchema)
 		.mutation(async ({ input }) => {
-			const { points, elevation, vehicle } = input;
+			// The same limit the planner simplifies imports to
+			if (input.points.length > env.NEXT_PUBLIC_MAX_ROUTE_POINTS) {
+				throw new RoutingError(
+					"too_many_points",
+					`Routes can have at most ${env.NEXT_PUBLIC_MAX_ROUTE_POINTS} points`,
+				);
+			}
+
+			// Delegate to the configured engine, which normalises its response
+			// Repeats (undo, redo, toggling back) are served from the cache
+			const provider = getRoutingProvider();
+			return withCache(routeCache, getRouteCacheKey(input), () =>
+				hasDirectLegs(input.points)
+					? calculateRouteWithDirectLegs(provider, input)
+					: provider.calculateRoute(input),
+			);
+		}),
+
+	// Generate candidate loops that start and finish at the same point
+	generateLoops: rateLimitedProcedure
+		.input(GenerateLoopSchema)
+		.output(z.array(LoopCandidateSchema))
+		.mutation(async ({ ctx, input }) => {
+			const { start, distance, heading, candidates, ...options } = input;
+			const provider = getRoutingProvider();
+
+			// The procedure's token pays for the first upstream call and each further one
+			// takes its own, so candidates served from the cache cost nothing
+			let prepaidCalls = 1;
+			const takeToken = () => {
+				if (prepaidCalls > 0) {
+					prepaidCalls--;
+				} else if (!consumeRateLimit(ctx)) {
+					throw new TRPCError({
+						code: "TOO_MANY_REQUESTS",
+						message: "Too many requests - please wait a moment and try again",
+					});
+				}
+			};
 
-			const url = buildRouteUrl(points, elevation, vehicle);
+			const results = await Promise.allSettled(
+				Array.from({ length: candidates }, async (_, index) => {
+					const candidateHeading = getCandidateHeading(
+						index,
+						candidates,
+						heading,
+					);
+
+					// Engines with native round trips choose their own loop
+					const { calculateRoundTrip } = provider;
+					if (calculateRoundTrip) {
+						const roundTrip = {
+							...options,
+							start,
+							distance,
+							heading: candidateHeading,
+							seed: index,
+						};
+						const response = await withCache(
+							routeCache,
+							getRoundTripCacheKey(roundTrip),
+							() => {
+								takeToken();
+								return calculateRoundTrip(roundTrip);
+							},
+						);
+						const path = response.paths[0];
+						if (!path) throw new Error("No loop found");
+						return {
+							routePoints: sampleLoopRoutePoints(
+								start,
+								path.points.coordinates,
+							),
+							path,
+						};
+					}
+
+					const routePoints = buildLoopRoutePoints(
+						start,
+						generateLoopWaypoints(start, distance, candidateHeading),
+					);
+					const route = {
+						...options,
+						points: routePoints,
+						alternatives: false,
+					};
+					const response = await withCache(
+						routeCache,
+						getRouteCacheKey(route),
+						() => {
+							takeToken();
+							return provider.calculateRoute(route);
+						},
+					);
+					const path = response.paths[0];
+					if (!path) throw new Error("No loop found");
+					return { routePoints, path };
+				}),
+			);
+
+			const loops = results.flatMap((result) =>
+				result.status === "fulfilled" ? [result.value] : [],
+			);
+			if (loops.length === 0) {
+				const rateLimited = results.find(
+					(result) =>
+						result.status === "rejected" && result.reason instanceof TRPCError,
+				);
+				if (rateLimited?.status === "rejected") throw rateLimited.reason;
+				throw new Error("Could not generate a loop from this start point");
+			}
+
+			// Closest to the requested distance first
+			return loops.sort(
+				(a, b) =>
+					Math.abs(a.path.distance - distance) -
+					Math.abs(b.path.distance - distance),
+			);
+		}),
 
-			const data = await callGraphHopperAPI(url);
+	// Shortest order to visit a route's checkpoints, by network distance where the engine has a
+	// distance matrix and by straight lines otherwise
+	optimiseCheckpointOrder: rateLimitedProcedure
+		.input(OptimiseCheckpointOrderSchema)
+		.output(CheckpointOrderSchema)
+		.mutation(async ({ input }) => {
+			const { start, checkpoints, end, profile } = input;
+			const loop = !end;
+			const points = [start, ...checkpoints, ...(end ? [end] : [])];
+			const straightLines = getStraightLineMatrix(points);
+			const provider = getRoutingProvider();
 
-			// Validate and return the response
-			try {
-				return RouteResponseSchema.parse(data);
-			} catch (error) {
-				console.error("Schema validation error:", error);
-				console.error("Raw API data:", data);
-				throw error;
+			let matrix = straightLines;
+			let source: CheckpointOrder["source"] = "straight_line";
+			if (provider.calculateMatrix) {
+				try {
+					matrix = fillUnreachableDistances(
+						await provider.calculateMatrix({ points, profile }),
+						straightLines,
+					);
+					source = "network";
+				} catch (error) {
+					console.error("Distance matrix failed, using straight lines:", error);
+				}
 			}
+
+			const current = checkpoints.map((_, index) => index);
+			const order = findShortestOrder(matrix, checkpoints.length, loop);
+			return {
+				order,
+				currentDistance: getOrderDistance(matrix, current, loop),
+				optimisedDistance: getOrderDistance(matrix, order, loop),
+				source,
+			};
 		}),
 
-	geocode: publicProcedure
+	geocode: rateLimitedProcedure
 		.input(GeocodeSchema)
 		.output(GeocodeResponseSchema)
 		.query(async ({ input }) => {
@@ -63,8 +442,11 @@ export const routePlannerRouter = createTRPCRouter({
 
 			// Request more results from the API since we'll be filtering and sorting
 			const apiLimit = Math.min(limit * 3, 30); // Get 3x requested limit, max 30
-			const url = buildGeocodeUrl(query, apiLimit);
-			const data = await callGraphHopperAPI(url);
+			const data = await withCache(
+				geocodeCache,
+				`search:${query.trim().toLowerCase()}:${apiLimit}`,
+				() => callGraphHopperAPI(buildGeocodeUrl(query, apiLimit)),
+			);
 
 			// Process and sort the hits on the backend
 			if (data.hits) {
@@ -80,93 +462,251 @@ export const routePlannerRouter = createTRPCRouter({
 			return data;
 		}),
 
-	reverseGeocode: publicProcedure
+	reverseGeocode: rateLimitedProcedure
 		.input(ReverseGeocodeSchema)
 		.output(GeocodeResponseSchema)
 		.query(async ({ input }) => {
 			const { lat, lng } = input;
 
-			const url = buildReverseGeocodeUrl(lat, lng);
-			const data = await callGraphHopperAPI(url);
-
-			return data;
+			return withCache(
+				geocodeCache,
+				`reverse:${getReverseGeocodeCacheKey(lat, lng)}`,
+				() => callGraphHopperAPI(buildReverseGeocodeUrl(lat, lng)),
+			);
 		}),
 
 	// Generate GPX from existing route coordinates
 	generateGpx: publicProcedure
 		.input(
-			z.object({
-				coordinates: z.array(z.tuple([z.number(), z.number(), z.number()])),
-				routeName: z.string().optional().default("Route"),
+			ExportRouteSchema.extend({
+				includeRoute: z.boolean().default(false),
+				includeCues: z.boolean().default(false),
 			}),
 		)
 		.output(z.string())
-		.mutation(async ({ input }) => {
-			const { coordinates, routeName } = input;
+		.mutation(async ({ ctx, input }) => {
+			return generateGpxFromCoordinates(
+				input.coordinates,
+				await resolveExportOptions(ctx, input),
+			);
+		}),
 
-			if (coordinates.length === 0) {
-				throw new Error("No route coordinates provided");
-			}
+	// Generate a TCX course from existing route coordinates
+	generateTcx: publicProcedure
+		.input(ExportRouteSchema)
+		.output(z.string())
+		.mutation(async ({ ctx, input }) => {
+			return generateTcxFromCoordinates(
+				input.coordinates,
+				await resolveExportOptions(ctx, input),
+			);
+		}),
+
+	// Generate KML from existing route coordinates
+	generateKml: publicProcedure
+		.input(ExportRouteSchema)
+		.output(z.string())
+		.mutation(async ({ ctx, input }) => {
+			return generateKmlFromCoordinates(
+				input.coordinates,
+				await resolveExportOptions(ctx, input),
+			);
+		}),
+
+	// Generate a GeoJSON FeatureCollection from existing route coordinates
+	generateGeoJson: publicProcedure
+		.input(ExportRouteSchema)
+		.output(z.string())
+		.mutation(async ({ ctx, input }) => {
+			return generateGeoJsonFromCoordinates(
+				input.coordinates,
+				await resolveExportOptions(ctx, input),
+			);
+		}),
 
-			return generateGpxFromCoordinates(coordinates, routeName);
+	// Generate a binary FIT course, returned base64-encoded
+	generateFit: publicProcedure
+		.input(ExportRouteSchema)
+		.output(z.string())
+		.mutation(async ({ ctx, input }) => {
+			const fit = generateFitFromCoordinates(
+				input.coordinates,
+				await resolveExportOptions(ctx, input),
+			);
+			return Buffer.from(fit).toString("base64");
 		}),
 
 	// Save a route to the database (upsert - create or update)
 	saveRoute: protectedProcedure
 		.input(SaveRouteSchema)
 		.mutation(async ({ ctx, input }) => {
-			const { id, title, routeData, distance, elevationGain, routePreference } =
-				input;
+			const {
+				id,
+				title,
+				description,
+				routeData,
+				distance,
+				elevationGain,
+				activityProfile,
+				tags,
+			} = input;
+			const folder = input.folder || null;
+			const routingPreferences = input.routingPreferences ?? null;
+			const avoidAreas = input.avoidAreas.length > 0 ? input.avoidAreas : null;
+			const stagePlan = input.stagePlan ?? null;
 
-			if (id) {
-				// Update existing route (with ownership check in WHERE clause)
-				const [updatedRoute] = await ctx.db
-					.update(routes)
-					.set({
+			// Only the active path is kept; without one the route re-routes on load
+			const routeResponse = input.routeResponse?.paths[0]
+				? {
+						info: input.routeResponse.info,
+						paths: [input.routeResponse.paths[0]],
+					}
+				: null;
+			const roadDataTimestamp = routeResponse?.info.road_data_timestamp
+				? new Date(routeResponse.info.road_data_timestamp)
+				: null;
+
+			// The route and its revision snapshot are written together
+			return ctx.db.transaction(async (tx) => {
+				if (id) {
+					// Update existing route (with ownership check in WHERE clause)
+					const [updatedRoute] = await tx
+						.update(routes)
+						.set({
+							title,
+							description,
+							routeData,
+							distance,
+							elevationGain,
+							activityProfile,
+							routingPreferences,
+							avoidAreas,
+							stagePlan,
+							folder,
+							tags,
+							routeResponse,
+							roadDataTimestamp,
+							updatedAt: new Date(),
+						})
+						.where(
+							and(
+								eq(routes.id, id),
+								eq(routes.createdById, ctx.session.user.id),
+							),
+						)
+						.returning();
+
+					if (!updatedRoute) {
+						throw new Error(
+							"Route not found or you don't have permission to update it",
+						);
+					}
+
+					await appendRevision(tx, updatedRoute);
+					return updatedRoute;
+				}
+
+				// Create new route
+				const [savedRoute] = await tx
+					.insert(routes)
+					.values({
 						title,
+						description,
 						routeData,
 						distance,
 						elevationGain,
-						routePreference,
-						updatedAt: new Date(),
+						activityProfile,
+						routingPreferences,
+						avoidAreas,
+						stagePlan,
+						folder,
+						tags,
+						routeResponse,
+						roadDataTimestamp,
+						createdById: ctx.session.user.id,
 					})
-					.where(
-						and(eq(routes.id, id), eq(routes.createdById, ctx.session.user.id)),
-					)
 					.returning();
 
-				if (!updatedRoute) {
-					throw new Error(
-						"Route not found or you don't have permission to update it",
-					);
+				if (savedRoute) {
+					await appendRevision(tx, savedRoute);
 				}
+				return savedRoute;
+			});
+		}),
 
-				return updatedRoute;
-			}
+	// Get a page of the current user's routes, filtered and sorted
+	getRoutes: protectedProcedure
+		.input(GetRoutesSchema)
+		.query(async ({ ctx, input }) => {
+			const searchQuery = input.search ? buildSearchQuery(input.search) : null;
 
-			// Create new route
-			const [savedRoute] = await ctx.db
-				.insert(routes)
-				.values({
-					title,
-					routeData,
-					distance,
-					elevationGain,
-					routePreference,
-					createdById: ctx.session.user.id,
-				})
-				.returning();
+			const conditions = [
+				eq(routes.createdById, ctx.session.user.id),
+				searchQuery
+					? sql`${routeSearchVector} @@ to_tsquery('simple', ${searchQuery})`
+					: undefined,
+				input.folder ? eq(routes.folder, input.folder) : undefined,
+				input.tag ? arrayContains(routes.tags, [input.tag]) : undefined,
+				input.activityProfile
+					? eq(routes.activityProfile, input.activityProfile)
+					: undefined,
+				input.minDistance !== undefined
+					? gte(routes.distance, input.minDistance)
+					: undefined,
+				input.maxDistance !== undefined
+					? lte(routes.distance, input.maxDistance)
+					: undefined,
+				input.minElevationGain !== undefined
+					? gte(routes.elevationGain, input.minElevationGain)
+					: undefined,
+				input.maxElevationGain !== undefined
+					? lte(routes.elevationGain, input.maxElevationGain)
+					: undefined,
+			];
+			const where = and(...conditions);
+
+			const [page, [totals]] = await Promise.all([
+				ctx.db
+					.select(routeListColumns)
+					.from(routes)
+					.where(where)
+					// Tie-break on id so pages don't overlap when sort values are equal
+					.orderBy(ROUTE_ORDER_BY[input.sort], desc(routes.id))
+					.limit(input.limit)
+					.offset(input.cursor),
+				ctx.db.select({ total: count() }).from(routes).where(where),
+			]);
 
-			return savedRoute;
+			const nextCursor = input.cursor + page.length;
+
+			return {
+				routes: page,
+				total: totals?.total ?? 0,
+				nextCursor: nextCursor < (totals?.total ?? 0) ? nextCursor : null,
+			};
 		}),
 
-	// Get all routes for the current user
-	getRoutes: protectedProcedure.query(async ({ ctx }) => {
-		return ctx.db
-			.select()
-			.from(routes)
-			.where(eq(routes.createdById, ctx.session.user.id))
-			.orderBy(desc(routes.createdAt));
+	// Folders and tags in use across the current user's routes, for filter menus
+	getRouteLabels: protectedProcedure.query(async ({ ctx }) => {
+		const owned = eq(routes.createdById, ctx.session.user.id);
+
+		const [folders, tags] = await Promise.all([
+			ctx.db
+				.selectDistinct({ folder: routes.folder })
+				.from(routes)
+				.where(and(owned, isNotNull(routes.folder)))
+				.orderBy(asc(routes.folder)),
+			ctx.db
+				.selectDistinct({ tag: sql<string>`unnest(${routes.tags})`.as("tag") })
+				.from(routes)
+				.where(owned)
+				.orderBy(sql`tag`),
+		]);
+
+		return {
+			folders: folders.flatMap(({ folder }) => (folder ? [folder] : [])),
+			tags: tags.map(({ tag }) => tag),
+		};
 	}),
 
 	// Get a specific route by ID (must be owned by user)
@@ -193,6 +733,174 @@ export const routePlannerRouter = createTRPCRouter({
 			return route;
 		}),
 
+	// List a saved route's revisions, newest first (must be owned by user)
+	getRouteRevisions: protectedProcedure
+		.input(RouteIdSchema)
+		.query(async ({ ctx, input }) => {
+			return ctx.db
+				.select({
+					revision: routeRevisions.revision,
+					title: routeRevisions.title,
+					routeData: routeRevisions.routeData,
+					distance: routeRevisions.distance,
+					elevationGain: routeRevisions.elevationGain,
+					activityProfile: routeRevisions.activityProfile,
+					routingPreferences: routeRevisions.routingPreferences,
+					avoidAreas: routeRevisions.avoidAreas,
+					stagePlan: routeRevisions.stagePlan,
+					restoredFrom: routeRevisions.restoredFrom,
+					createdAt: routeRevisions.createdAt,
+				})
+				.from(routeRevisions)
+				.innerJoin(routes, eq(routes.id, routeRevisions.routeId))
+				.where(
+					and(
+						eq(routeRevisions.routeId, input.id),
+						eq(routes.createdById, ctx.session.user.id),
+					),
+				)
+				.orderBy(desc(routeRevisions.revision));
+		}),
+
+	// Make an earlier revision current again - recorded as a new revision
+	restoreRouteRevision: protectedProcedure
+		.input(RestoreRevisionSchema)
+		.mutation(async ({ ctx, input }) => {
+			return ctx.db.transaction(async (tx) => {
+				const [match] = await tx
+					.select()
+					.from(routeRevisions)
+					.innerJoin(routes, eq(routes.id, routeRevisions.routeId))
+					.where(
+						and(
+							eq(routeRevisions.routeId, input.id),
+							eq(routeRevisions.revision, input.revision),
+							eq(routes.createdById, ctx.session.user.id),
+						),
+					)
+					.limit(1);
+
+				const snapshot = match?.route_revision;
+				if (!snapshot) {
+					throw new Error(
+						"Revision not found or you don't have permission to restore it",
+					);
+				}
+
+				const [restoredRoute] = await tx
+					.update(routes)
+					.set({
+						title: snapshot.title,
+						description: snapshot.description,
+						routeData: snapshot.routeData,
+						distance: snapshot.distance,
+						elevationGain: snapshot.elevationGain,
+						activityProfile: snapshot.activityProfile,
+						routingPreferences: snapshot.routingPreferences,
+						avoidAreas: snapshot.avoidAreas,
+						stagePlan: snapshot.stagePlan,
+						// Revisions don't keep geometry, so the restored route re-routes on load
+						routeResponse: null,
+						roadDataTimestamp: null,
+						updatedAt: new Date(),
+					})
+					.where(eq(routes.id, input.id))
+					.returning();
+
+				if (!restoredRoute) {
+					throw new Error("Route not found");
+				}
+
+				await appendRevision(tx, restoredRoute, snapshot.revision);
+				return restoredRoute;
+			});
+		}),
+
+	// Publish a route under a share slug, reusing the existing slug if already shared
+	shareRoute: protectedProcedure
+		.input(RouteIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			const ownedRoute = and(
+				eq(routes.id, input.id),
+				eq(routes.createdById, ctx.session.user.id),
+			);
+
+			const [route] = await ctx.db
+				.select({ shareSlug: routes.shareSlug })
+				.from(routes)
+				.where(ownedRoute)
+				.limit(1);
+
+			if (!route) {
+				throw new Error(
+					"Route not found or you don't have permission to share it",
+				);
+			}
+
+			if (route.shareSlug) {
+				return { slug: route.shareSlug };
+			}
+
+			const slug = generateShareSlug();
+			await ctx.db.update(routes).set({ shareSlug: slug }).where(ownedRoute);
+
+			return { slug };
+		}),
+
+	// Revoke a route's share link - the old slug stops resolving immediately
+	unshareRoute: protectedProcedure
+		.input(RouteIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			const [route] = await ctx.db
+				.update(routes)
+				.set({ shareSlug: null })
+				.where(
+					and(
+						eq(routes.id, input.id),
+						eq(routes.createdById, ctx.session.user.id),
+					),
+				)
+				.returning({ id: routes.id });
+
+			if (!route) {
+				throw new Error(
+					"Route not found or you don't have permission to update it",
+				);
+			}
+
+			return { success: true };
+		}),
+
+	// Get a shared route by its public slug (read-only, no owner details)
+	getSharedRoute: publicProcedure
+		.input(ShareSlugSchema)
+		.query(async ({ ctx, input }) => {
+			const [route] = await ctx.db
+				.select({
+					title: routes.title,
+					description: routes.description,
+					routeData: routes.routeData,
+					distance: routes.distance,
+					elevationGain: routes.elevationGain,
+					activityProfile: routes.activityProfile,
+					routingPreferences: routes.routingPreferences,
+					avoidAreas: routes.avoidAreas,
+					stagePlan: routes.stagePlan,
+					routeResponse: routes.routeResponse,
+					createdAt: routes.createdAt,
+				})
+				.from(routes)
+				.where(eq(routes.shareSlug, input.slug))
+				.limit(1);
+
+			if (!route) return null;
+
+			return {
+				...route,
+				routeData: z.array(RoutePointSchema).parse(route.routeData),
+			};
+		}),
+
 	// Delete a route (must be owned by user)
 	deleteRoute: protectedProcedure
 		.input(RouteIdSchema)
@@ -213,6 +921,118 @@ export const routePlannerRouter = createTRPCRouter({
 				);
 			}
 
+			return { success: true };
+		}),
+
+	// The current user's routing presets, by name
+	getRoutingPresets: protectedProcedure.query(async ({ ctx }) => {
+		return ctx.db
+			.select({
+				id: routingPresets.id,
+				name: routingPresets.name,
+				preferences: routingPresets.preferences,
+			})
+			.from(routingPresets)
+			.where(eq(routingPresets.createdById, ctx.session.user.id))
+			.orderBy(asc(routingPresets.name));
+	}),
+
+	// Save a routing preset, replacing any preset with the same name
+	saveRoutingPreset: protectedProcedure
+		.input(RoutingPresetSchema)
+		.mutation(async ({ ctx, input }) => {
+			const [preset] = await ctx.db
+				.insert(routingPresets)
+				.values({
+					name: input.name,
+					preferences: input.preferences,
+					createdById: ctx.session.user.id,
+				})
+				.onConflictDoUpdate({
+					target: [routingPresets.createdById, routingPresets.name],
+					set: { preferences: input.preferences, updatedAt: new Date() },
+				})
+				.returning();
+
+			return preset;
+		}),
+
+	// Delete a routing preset (must be owned by user)
+	deleteRoutingPreset: protectedProcedure
+		.input(RouteIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			const [deletedPreset] = await ctx.db
+				.delete(routingPresets)
+				.where(
+					and(
+						eq(routingPresets.id, input.id),
+						eq(routingPresets.createdById, ctx.session.user.id),
+					),
+				)
+				.returning({ id: routingPresets.id });
+
+			if (!deletedPreset) {
+				throw new Error(
+					"Preset not found or you don't have permission to delete it",
+				);
+			}
+
+			return { success: true };
+		}),
+
+	// List the areas the current user always routes around
+	getAvoidAreas: protectedProcedure.query(async ({ ctx }) => {
+		return ctx.db
+			.select({
+				id: userAvoidAreas.id,
+				kind: userAvoidAreas.kind,
+				polygon: userAvoidAreas.polygon,
+			})
+			.from(userAvoidAreas)
+			.where(eq(userAvoidAreas.createdById, ctx.session.user.id))
+			.orderBy(asc(userAvoidAreas.createdAt));
+	}),
+
+	// Save an area the current user should always route around
+	saveAvoidArea: protectedProcedure
+		.input(SaveAvoidAreaSchema)
+		.mutation(async ({ ctx, input }) => {
+			const [area] = await ctx.db
+				.insert(userAvoidAreas)
+				.values({
+					kind: input.kind,
+					polygon: input.polygon,
+					createdById: ctx.session.user.id,
+				})
+				.returning({
+					id: userAvoidAreas.id,
+					kind: userAvoidAreas.kind,
+					polygon: userAvoidAreas.polygon,
+				});
+
+			return area;
+		}),
+
+	// Delete one of the user's saved avoid areas (must be owned by user)
+	deleteAvoidArea: protectedProcedure
+		.input(RouteIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			const [deletedArea] = await ctx.db
+				.delete(userAvoidAreas)
+				.where(
+					and(
+						eq(userAvoidAreas.id, input.id),
+						eq(userAvoidAreas.createdById, ctx.session.user.id),
+					),
+				)
+				.returning({ id: userAvoidAreas.id });
+
+			if (!deletedArea) {
+				throw new Error(
+					"Area not found or you don't have permission to delete it",
+				);
+			}
+
 			return { success: true };
 		}),
 });
@@ -11,8 +11,10 @@ import { TRPCError, initTRPC } from "@trpc/server";
 import superjson from "superjson";
 import { ZodError } from "zod";
 
+import { RoutingError, type RoutingErrorReason } from "~/lib/routing-errors";
 import { auth } from "~/server/auth";
 import { db } from "~/server/db";
+import { consumeRateLimit } from "~/server/rate-limit";
 
 /**
  * 1. CONTEXT
@@ -52,6 +54,8 @@ const t = initTRPC.context<typeof createTRPCContext>().create({
 				...shape.data,
 				zodError:
 					error.cause instanceof ZodError ? error.cause.flatten() : null,
+				routingError:
+					error.cause instanceof RoutingError ? error.cause.toData() : null,
 			},
 		};
 	},
@@ -110,6 +114,52 @@ const timingMiddleware = t.middleware(async ({ next, path }) => {
  */
 export const publicProcedure = t.procedure.use(timingMiddleware);
 
+const ROUTING_ERROR_CODES: Record<RoutingErrorReason, TRPCError["code"]> = {
+	point_not_found: "BAD_REQUEST",
+	point_out_of_bounds: "BAD_REQUEST",
+	too_many_points: "BAD_REQUEST",
+	no_route: "UNPROCESSABLE_CONTENT",
+	quota_exceeded: "TOO_MANY_REQUESTS",
+	timeout: "GATEWAY_TIMEOUT",
+	upstream: "BAD_GATEWAY",
+};
+
+/**
+ * Middleware giving upstream routing failures a matching error code. The reason and offending
+ * point reach the client as `data.routingError` (see the error formatter above).
+ */
+const routingErrorMiddleware = t.middleware(async ({ next }) => {
+	const result = await next();
+
+	if (!result.ok && result.error.cause instanceof RoutingError) {
+		throw new TRPCError({
+			code: ROUTING_ERROR_CODES[result.error.cause.reason],
+			message: result.error.cause.message,
+			cause: result.error.cause,
+		});
+	}
+
+	return result;
+});
+
+/**
+ * Rate limited public procedure
+ *
+ * For procedures that call a metered upstream API (GraphHopper) with our key. Each call takes a
+ * token from the caller's bucket - per user when signed in, per IP otherwise.
+ */
+export const rateLimitedProcedure = publicProcedure
+	.use(({ ctx, next }) => {
+		if (!consumeRateLimit(ctx)) {
+			throw new TRPCError({
+				code: "TOO_MANY_REQUESTS",
+				message: "Too many requests - please wait a moment and try again",
+			});
+		}
+		return next();
+	})
+	.use(routingErrorMiddleware);
+
 /**
  * Protected (authenticated) procedure
  *
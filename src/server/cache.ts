@@ -0,0 +1,133 @@
+import type { z } from "zod";
+import type { GeocodeResponseSchema } from "~/lib/graphhopper";
+import type {
+	CalculateRouteInput,
+	RoundTripInput,
+	RouteResponse,
+} from "~/lib/routing";
+
+const HOUR = 60 * 60 * 1000;
+
+export type CacheStats = {
+	hits: number;
+	misses: number;
+	size: number;
+};
+
+/**
+ * In-memory cache with a time-to-live, evicting the least recently used entry when full
+ * Each server instance keeps its own, so it saves the upstream calls that instance repeats
+ */
+export const createTtlCache = <T>({
+	ttl,
+	maxEntries,
+}: {
+	/** Milliseconds an entry stays fresh */
+	ttl: number;
+	maxEntries: number;
+}) => {
+	const entries = new Map<string, { value: T; expires: number }>();
+	let hits = 0;
+	let misses = 0;
+
+	return {
+		get: (key: string): T | undefined => {
+			const entry = entries.get(key);
+			if (!entry || entry.expires < Date.now()) {
+				if (entry) entries.delete(key);
+				misses++;
+				return undefined;
+			}
+
+			// Re-insert so Map order tracks recency
+			entries.delete(key);
+			entries.set(key, entry);
+			hits++;
+			return entry.value;
+		},
+		set: (key: string, value: T) => {
+			entries.delete(key);
+			entries.set(key, { value, expires: Date.now() + ttl });
+
+			const oldest = entries.keys().next();
+			if (entries.size > maxEntries && !oldest.done) {
+				entries.delete(oldest.value);
+			}
+		},
+		stats: (): CacheStats => ({ hits, misses, size: entries.size }),
+	};
+};
+
+type TtlCache<T> = ReturnType<typeof createTtlCache<T>>;
+
+/**
+ * Returns the cached value for a key, or computes and caches it
+ * Failures aren't cached, so a transient upstream error is retried next time
+ */
+export const withCache = async <T>(
+	cache: TtlCache<T>,
+	key: string,
+	compute: () => Promise<T>,
+): Promise<T> => {
+	const cached = cache.get(key);
+	if (cached !== undefined) return cached;
+
+	const value = await compute();
+	cache.set(key, value);
+	return value;
+};
+
+// Rounded to ~1 m - closer points snap to the same roads anyway
+const roundCoordinate = (value: number) => Math.round(value * 1e5) / 1e5;
+
+/**
+ * Cache key for a route calculation, ignoring point names and types,
+ * which don't change the route
+ */
+export const getRouteCacheKey = ({
+	points,
+	avoidAreas,
+	...options
+}: CalculateRouteInput): string =>
+	JSON.stringify({
+		...options,
+		points: points.map(({ lat, lng, direct }) => [
+			roundCoordinate(lat),
+			roundCoordinate(lng),
+			!!direct,
+		]),
+		avoidAreas: avoidAreas.map(({ polygon }) => polygon),
+	});
+
+/**
+ * Cache key for a native round trip - the seed picks which loop comes back
+ */
+export const getRoundTripCacheKey = ({
+	start,
+	avoidAreas,
+	...options
+}: RoundTripInput): string =>
+	JSON.stringify({
+		...options,
+		roundTrip: true,
+		start: [roundCoordinate(start.lat), roundCoordinate(start.lng)],
+		avoidAreas: avoidAreas.map(({ polygon }) => polygon),
+	});
+
+/**
+ * Cache key for a reverse geocode, rounded so clicks on the same spot share it
+ */
+export const getReverseGeocodeCacheKey = (lat: number, lng: number): string =>
+	`${roundCoordinate(lat)},${roundCoordinate(lng)}`;
+
+export const routeCache = createTtlCache<RouteResponse>({
+	ttl: 6 * HOUR,
+	maxEntries: 500,
+});
+
+export const geocodeCache = createTtlCache<
+	z.infer<typeof GeocodeResponseSchema>
+>({
+	ttl: 24 * HOUR,
+	maxEntries: 1000,
+});
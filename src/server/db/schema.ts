@@ -1,6 +1,16 @@
 import { relations, sql } from "drizzle-orm";
-import { index, pgTableCreator, primaryKey } from "drizzle-orm/pg-core";
+import {
+	index,
+	pgTableCreator,
+	primaryKey,
+	uniqueIndex,
+} from "drizzle-orm/pg-core";
 import type { AdapterAccount } from "next-auth/adapters";
+import type { ActivityProfileId } from "~/lib/activity-profiles";
+import type { AvoidArea } from "~/lib/avoid-areas";
+import type { RoutingPreferences } from "~/lib/routing-preferences";
+import type { RouteResponse } from "~/lib/routing/types";
+import type { StagePlan } from "~/lib/stages";
 
 /**
  * This is an example of how to use the multi-project schema feature of Drizzle ORM. Use the same
@@ -38,10 +48,25 @@ export const routes = createTable(
 	(d) => ({
 		id: d.integer().primaryKey().generatedByDefaultAsIdentity(),
 		title: d.varchar({ length: 255 }).notNull(),
+		description: d.text(),
 		routeData: d.json().notNull(),
 		distance: d.real().notNull(),
 		elevationGain: d.real().notNull(),
-		routePreference: d.varchar({ length: 50 }).notNull().default("road"),
+		activityProfile: d
+			.varchar({ length: 50 })
+			.$type<ActivityProfileId>()
+			.notNull()
+			.default("gravel"),
+		routingPreferences: d.json().$type<RoutingPreferences>(), // Null means the defaults
+		avoidAreas: d.json().$type<AvoidArea[]>(), // Null means none
+		stagePlan: d.json().$type<StagePlan>(), // Null for a single-day route
+		// Unguessable slug for the public /r/[slug] page, null when not shared
+		shareSlug: d.varchar({ length: 32 }),
+		folder: d.varchar({ length: 255 }),
+		tags: d.text().array().notNull().default(sql`'{}'::text[]`),
+		// Computed route as saved, so loading doesn't re-route against newer map data
+		routeResponse: d.json().$type<RouteResponse>(),
+		roadDataTimestamp: d.timestamp({ withTimezone: true }),
 		createdById: d
 			.varchar({ length: 255 })
 			.notNull()
@@ -56,14 +81,118 @@ export const routes = createTable(
 		index("route_created_by_idx").on(t.createdById),
 		index("route_title_idx").on(t.title),
 		index("route_created_at_idx").on(t.createdAt),
+		uniqueIndex("route_share_slug_idx").on(t.shareSlug),
+		index("route_folder_idx").on(t.folder),
+		index("route_tags_idx").using("gin", t.tags),
+		index("route_search_idx").using(
+			"gin",
+			sql`to_tsvector('simple', ${t.title} || ' ' || coalesce(${t.description}, ''))`,
+		),
 	],
 );
 
-export const routesRelations = relations(routes, ({ one }) => ({
+export const routesRelations = relations(routes, ({ one, many }) => ({
 	createdBy: one(users, {
 		fields: [routes.createdById],
 		references: [users.id],
 	}),
+	revisions: many(routeRevisions),
+}));
+
+// Snapshot of a saved route, appended on every save so earlier versions can be restored
+export const routeRevisions = createTable(
+	"route_revision",
+	(d) => ({
+		id: d.integer().primaryKey().generatedByDefaultAsIdentity(),
+		routeId: d
+			.integer()
+			.notNull()
+			.references(() => routes.id, { onDelete: "cascade" }),
+		revision: d.integer().notNull(), // 1-based, per route
+		title: d.varchar({ length: 255 }).notNull(),
+		description: d.text(),
+		routeData: d.json().notNull(),
+		distance: d.real().notNull(),
+		elevationGain: d.real().notNull(),
+		activityProfile: d
+			.varchar({ length: 50 })
+			.$type<ActivityProfileId>()
+			.notNull()
+			.default("gravel"),
+		routingPreferences: d.json().$type<RoutingPreferences>(),
+		avoidAreas: d.json().$type<AvoidArea[]>(),
+		stagePlan: d.json().$type<StagePlan>(),
+		restoredFrom: d.integer(), // Revision this one was restored from, if any
+		createdAt: d
+			.timestamp({ withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	}),
+	(t) => [
+		uniqueIndex("route_revision_route_revision_idx").on(t.routeId, t.revision),
+	],
+);
+
+export const routeRevisionsRelations = relations(routeRevisions, ({ one }) => ({
+	route: one(routes, {
+		fields: [routeRevisions.routeId],
+		references: [routes.id],
+	}),
+}));
+
+// Named routing preferences a user can apply to any route
+export const routingPresets = createTable(
+	"routing_preset",
+	(d) => ({
+		id: d.integer().primaryKey().generatedByDefaultAsIdentity(),
+		name: d.varchar({ length: 50 }).notNull(),
+		preferences: d.json().$type<RoutingPreferences>().notNull(),
+		createdById: d
+			.varchar({ length: 255 })
+			.notNull()
+			.references(() => users.id),
+		createdAt: d
+			.timestamp({ withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+		updatedAt: d.timestamp({ withTimezone: true }).$onUpdate(() => new Date()),
+	}),
+	(t) => [
+		uniqueIndex("routing_preset_user_name_idx").on(t.createdById, t.name),
+	],
+);
+
+export const routingPresetsRelations = relations(routingPresets, ({ one }) => ({
+	createdBy: one(users, {
+		fields: [routingPresets.createdById],
+		references: [users.id],
+	}),
+}));
+
+// Areas a user always routes around (closed trails, private land), on every route
+export const userAvoidAreas = createTable(
+	"user_avoid_area",
+	(d) => ({
+		id: d.integer().primaryKey().generatedByDefaultAsIdentity(),
+		kind: d.varchar({ length: 20 }).$type<AvoidArea["kind"]>().notNull(),
+		polygon: d.json().$type<AvoidArea["polygon"]>().notNull(),
+		createdById: d
+			.varchar({ length: 255 })
+			.notNull()
+			.references(() => users.id),
+		createdAt: d
+			.timestamp({ withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	}),
+	(t) => [index("user_avoid_area_created_by_idx").on(t.createdById)],
+);
+
+export const userAvoidAreasRelations = relations(userAvoidAreas, ({ one }) => ({
+	createdBy: one(users, {
+		fields: [userAvoidAreas.createdById],
+		references: [users.id],
+	}),
 }));
 
 export const users = createTable("user", (d) => ({
@@ -86,6 +215,8 @@ export const users = createTable("user", (d) => ({
 export const usersRelations = relations(users, ({ many }) => ({
 	accounts: many(accounts),
 	routes: many(routes),
+	routingPresets: many(routingPresets),
+	avoidAreas: many(userAvoidAreas),
 }));
 
 export const accounts = createTable(
@@ -0,0 +1,86 @@
+import type { Session } from "next-auth";
+
+const MINUTE = 60 * 1000;
+
+// Stop tracking callers whose bucket has been full this long
+const IDLE_BUCKET_TTL = 10 * MINUTE;
+
+/**
+ * Token bucket limiter - each caller can burst up to `capacity` requests,
+ * then gets `refillPerMinute` more per minute
+ */
+export const createRateLimiter = ({
+	capacity,
+	refillPerMinute,
+}: {
+	capacity: number;
+	refillPerMinute: number;
+}) => {
+	const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+	let rejected = 0;
+
+	const prune = (now: number) => {
+		for (const [key, bucket] of buckets) {
+			if (now - bucket.updatedAt > IDLE_BUCKET_TTL) buckets.delete(key);
+		}
+	};
+
+	return {
+		/** Takes a token for the caller, returning false when they're out */
+		consume: (key: string): boolean => {
+			const now = Date.now();
+			if (buckets.size > 10_000) prune(now);
+
+			const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+			const refilled = Math.min(
+				capacity,
+				bucket.tokens + ((now - bucket.updatedAt) / MINUTE) * refillPerMinute,
+			);
+
+			if (refilled < 1) {
+				buckets.set(key, { tokens: refilled, updatedAt: now });
+				rejected++;
+				return false;
+			}
+
+			buckets.set(key, { tokens: refilled - 1, updatedAt: now });
+			return true;
+		},
+		stats: () => ({ rejected, trackedCallers: buckets.size }),
+	};
+};
+
+// Signed-in users get a larger allowance than anonymous visitors sharing an IP
+export const anonymousRateLimiter = createRateLimiter({
+	capacity: 30,
+	refillPerMinute: 30,
+});
+
+export const userRateLimiter = createRateLimiter({
+	capacity: 60,
+	refillPerMinute: 60,
+});
+
+/**
+ * Client IP as seen by our own proxy, falling back to a shared bucket.
+ * Callers can send any x-forwarded-for they like, so only the hop the proxy
+ * appended last counts - Vercel also sets x-real-ip itself, overwriting theirs
+ */
+const getClientIp = (headers: Headers): string =>
+	headers.get("x-real-ip")?.trim() ||
+	headers.get("x-forwarded-for")?.split(",").at(-1)?.trim() ||
+	"unknown";
+
+/**
+ * Takes a token from the caller's bucket - per user when signed in, else per IP
+ */
+export const consumeRateLimit = ({
+	session,
+	headers,
+}: {
+	session: Session | null;
+	headers: Headers;
+}): boolean =>
+	session?.user
+		? userRateLimiter.consume(session.user.id)
+		: anonymousRateLimiter.consume(getClientIp(headers));
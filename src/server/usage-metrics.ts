@@ -0,0 +1,65 @@
+import { type CacheStats, geocodeCache, routeCache } from "~/server/cache";
+import { anonymousRateLimiter, userRateLimiter } from "~/server/rate-limit";
+
+type GraphHopperQuota = {
+	limit: number | null;
+	remaining: number | null;
+	/** When the quota window resets */
+	resetsAt: string | null;
+	updatedAt: string;
+};
+
+let graphHopperQuota: GraphHopperQuota | null = null;
+let graphHopperRequests = 0;
+let graphHopperCredits = 0;
+
+const readNumberHeader = (headers: Headers, name: string) => {
+	const value = Number(headers.get(name));
+	return headers.has(name) && Number.isFinite(value) ? value : null;
+};
+
+/**
+ * Records the credit usage GraphHopper reports in its rate limit headers
+ */
+export const recordGraphHopperUsage = (headers: Headers) => {
+	const resetSeconds = readNumberHeader(headers, "X-RateLimit-Reset");
+
+	graphHopperRequests++;
+	graphHopperCredits += readNumberHeader(headers, "X-RateLimit-Credits") ?? 1;
+	graphHopperQuota = {
+		limit: readNumberHeader(headers, "X-RateLimit-Limit"),
+		remaining: readNumberHeader(headers, "X-RateLimit-Remaining"),
+		resetsAt:
+			resetSeconds === null
+				? null
+				: new Date(Date.now() + resetSeconds * 1000).toISOString(),
+		updatedAt: new Date().toISOString(),
+	};
+};
+
+const withHitRate = (stats: CacheStats) => ({
+	...stats,
+	hitRate:
+		stats.hits + stats.misses > 0
+			? stats.hits / (stats.hits + stats.misses)
+			: 0,
+});
+
+/**
+ * Snapshot of this server instance's cache, rate limit and GraphHopper usage
+ */
+export const getUsageMetrics = () => ({
+	cache: {
+		route: withHitRate(routeCache.stats()),
+		geocode: withHitRate(geocodeCache.stats()),
+	},
+	rateLimit: {
+		anonymous: anonymousRateLimiter.stats(),
+		user: userRateLimiter.stats(),
+	},
+	graphHopper: {
+		requests: graphHopperRequests,
+		credits: graphHopperCredits,
+		quota: graphHopperQuota,
+	},
+});
@@ -0,0 +1,13 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+	resolve: {
+		alias: { "~": fileURLToPath(new URL("./src", import.meta.url)) },
+	},
+	test: {
+		include: ["src/**/*.test.ts"],
+		// Library modules reach the env through the routing code, which tests never call
+		env: { SKIP_ENV_VALIDATION: "1" },
+	},
+});